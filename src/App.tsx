@@ -1,30 +1,47 @@
-import { useState } from 'react';
 import { OPNetProvider } from './providers/OPNetProvider';
+import { useRouter, routeTab, TabId } from './providers/RouterProvider';
 import { Header } from './components/Header';
+import { ConnectionBanner } from './components/ConnectionBanner';
 import { NetworkStats } from './components/NetworkStats';
+import { BlockDetail } from './components/BlockDetail';
 import { TokenExplorer } from './components/TokenExplorer';
+import { TransactionView } from './components/TransactionView';
 import { Portfolio } from './components/Portfolio';
+import { NftGallery } from './components/NftGallery';
+import { ContractConsole } from './components/ContractConsole';
 import { WalletPanel } from './components/WalletPanel';
 
-type TabId = 'dashboard' | 'portfolio' | 'explorer';
-
 /**
  * Main application component.
- * Tabbed dashboard layout for the OPNet Command Center.
+ * Tabbed dashboard layout for the OPNet Command Center, driven by the URL.
  */
 function App() {
-    const [activeTab, setActiveTab] = useState<TabId>('dashboard');
+    const { route, networkId, navigate, setNetwork } = useRouter();
+    const activeTab = routeTab(route);
+
+    const handleTabChange = (tab: TabId) => {
+        navigate(
+            tab === 'explorer' || tab === 'contracts'
+                ? { view: tab, contract: null }
+                : { view: tab },
+        );
+    };
 
     return (
-        <OPNetProvider defaultNetwork="mainnet">
+        <OPNetProvider networkId={networkId} onNetworkChange={setNetwork}>
             <div className="app">
                 <div className="animated-bg" />
-                <Header activeTab={activeTab} onTabChange={setActiveTab} />
+                <Header activeTab={activeTab} onTabChange={handleTabChange} />
+                <ConnectionBanner />
                 <main className="dashboard">
                     {activeTab === 'dashboard' && (
                         <div className="dashboard-grid">
                             <section className="dashboard-main">
-                                <NetworkStats />
+                                {route.view === 'block' ? (
+                                    <BlockDetail height={route.height} />
+                                ) : (
+                                    <NetworkStats />
+                                )}
                             </section>
                             <aside className="dashboard-sidebar">
                                 <WalletPanel />
@@ -71,9 +88,21 @@ function App() {
 
                     {activeTab === 'portfolio' && <Portfolio />}
 
+                    {activeTab === 'nfts' && <NftGallery />}
+
+                    {activeTab === 'contracts' && (
+                        <ContractConsole
+                            contract={route.view === 'contracts' ? route.contract : null}
+                        />
+                    )}
+
                     {activeTab === 'explorer' && (
                         <div className="explorer-layout">
-                            <TokenExplorer />
+                            {route.view === 'tx' ? (
+                                <TransactionView hash={route.hash} />
+                            ) : (
+                                <TokenExplorer />
+                            )}
                         </div>
                     )}
                 </main>
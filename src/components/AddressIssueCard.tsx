@@ -0,0 +1,27 @@
+import { NetworkPresets, useOPNet } from '../providers/OPNetProvider';
+import { AddressIssue } from '../utils/address';
+
+/**
+ * Error card for an address rejected before any RPC call. When the address
+ * belongs to another network, offers to switch to a configured network of
+ * that kind.
+ *
+ * @param issue - Validation result
+ */
+export function AddressIssueCard({ issue }: { issue: AddressIssue }) {
+    const { networks, switchNetwork } = useOPNet();
+    const target = issue.network
+        ? networks.find((n) => NetworkPresets[n.preset] === issue.network)
+        : undefined;
+
+    return (
+        <div className="error-card address-issue">
+            <p>{issue.error}</p>
+            {target && (
+                <button className="btn btn-outline btn-sm" onClick={() => switchNetwork(target.id)}>
+                    Switch to {target.label}
+                </button>
+            )}
+        </div>
+    );
+}
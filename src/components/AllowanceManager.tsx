@@ -0,0 +1,305 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getContract, IOP20Contract, OP_20_ABI } from 'opnet';
+import { Address } from '@btc-vision/transaction';
+import { useWalletConnect } from '@btc-vision/walletconnect';
+import { useOPNet } from '../providers/OPNetProvider';
+import { formatTokenAmount, parseTokenAmount } from '../utils/amount';
+import { loadStored, saveStored, storageKey } from '../utils/storage';
+import { walletTransactionParams } from '../utils/transaction';
+
+type AllowanceAction = 'increase' | 'decrease' | 'revoke';
+
+interface SpenderRow {
+    allowance: bigint | null;
+    amountInput: string;
+    pending: AllowanceAction | null;
+    txId: string | null;
+    error: string | null;
+}
+
+interface AllowanceManagerProps {
+    contractAddress: string;
+    symbol: string;
+    decimals: number;
+}
+
+const EMPTY_ROW: SpenderRow = {
+    allowance: null,
+    amountInput: '',
+    pending: null,
+    txId: null,
+    error: null,
+};
+
+/**
+ * Approvals section for an OP20 token.
+ * Lists the connected wallet's allowance for each user-maintained spender
+ * and lets the user increase, decrease or revoke it through the wallet.
+ *
+ * @param contractAddress - OP20 contract address
+ * @param symbol - Token symbol
+ * @param decimals - Token decimals
+ */
+export function AllowanceManager({ contractAddress, symbol, decimals }: AllowanceManagerProps) {
+    const { provider, network, networkId, isConnected } = useOPNet();
+    const { address: walletAddressObj, walletAddress } = useWalletConnect();
+
+    const spendersKey = storageKey('spenders', networkId, contractAddress);
+    const [spenders, setSpenders] = useState<string[]>([]);
+    const [rows, setRows] = useState<Record<string, SpenderRow>>({});
+    const [spenderInput, setSpenderInput] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setSpenders(loadStored<string[]>(spendersKey, []));
+        setRows({});
+    }, [spendersKey]);
+
+    const updateRow = (spender: string, patch: Partial<SpenderRow>) => {
+        setRows((prev) => ({
+            ...prev,
+            [spender]: { ...EMPTY_ROW, ...prev[spender], ...patch },
+        }));
+    };
+
+    const getTokenContract = useCallback(() => {
+        if (!provider || !walletAddressObj) return null;
+        return getContract<IOP20Contract>(
+            contractAddress,
+            OP_20_ABI,
+            provider,
+            network,
+            walletAddressObj,
+        );
+    }, [provider, walletAddressObj, contractAddress, network]);
+
+    const resolveSpender = useCallback(
+        async (spender: string): Promise<Address> => {
+            if (!provider) throw new Error('Not connected to OPNet RPC');
+            const resolved: Address | undefined = await provider.getPublicKeyInfo(spender, true);
+            if (!resolved) {
+                throw new Error('Spender address could not be resolved');
+            }
+            return resolved;
+        },
+        [provider],
+    );
+
+    const refreshAllowance = useCallback(
+        async (spender: string) => {
+            const contract = getTokenContract();
+            if (!contract || !walletAddressObj) return;
+
+            try {
+                const spenderAddr = await resolveSpender(spender);
+                const result = await contract.allowance(walletAddressObj, spenderAddr);
+                updateRow(spender, { allowance: result.properties.remaining, error: null });
+            } catch (err) {
+                const message = err instanceof Error ? err.message : String(err);
+                updateRow(spender, { allowance: null, error: `Failed to load: ${message}` });
+            }
+        },
+        [getTokenContract, walletAddressObj, resolveSpender],
+    );
+
+    useEffect(() => {
+        if (!isConnected) return;
+        for (const spender of spenders) {
+            void refreshAllowance(spender);
+        }
+    }, [spenders, isConnected, refreshAllowance]);
+
+    const persistSpenders = (next: string[]) => {
+        setSpenders(next);
+        saveStored(spendersKey, next);
+    };
+
+    const addSpender = (e: React.FormEvent) => {
+        e.preventDefault();
+        const addr = spenderInput.trim();
+        if (!addr) return;
+
+        if (spenders.includes(addr)) {
+            setError('Spender already listed');
+            return;
+        }
+
+        setError(null);
+        setSpenderInput('');
+        persistSpenders([...spenders, addr]);
+    };
+
+    const removeSpender = (spender: string) => {
+        persistSpenders(spenders.filter((s) => s !== spender));
+        setRows((prev) => {
+            const next = { ...prev };
+            delete next[spender];
+            return next;
+        });
+    };
+
+    const runAction = useCallback(
+        async (spender: string, action: AllowanceAction) => {
+            const contract = getTokenContract();
+            if (!contract || !walletAddress || !walletAddressObj) return;
+
+            const row = rows[spender] ?? EMPTY_ROW;
+            updateRow(spender, { pending: action, txId: null, error: null });
+
+            try {
+                const spenderAddr = await resolveSpender(spender);
+
+                let amount: bigint;
+                if (action === 'revoke') {
+                    // Read the allowance again: the spender may have used some since it was shown
+                    const current = await contract.allowance(walletAddressObj, spenderAddr);
+                    amount = current.properties.remaining;
+                    updateRow(spender, { allowance: amount });
+                    if (amount === 0n) {
+                        throw new Error('Nothing to revoke');
+                    }
+                } else {
+                    amount = parseTokenAmount(row.amountInput, decimals);
+                    if (amount === 0n) {
+                        throw new Error('Amount must be greater than zero');
+                    }
+                }
+
+                const simulation =
+                    action === 'increase'
+                        ? await contract.increaseAllowance(spenderAddr, amount)
+                        : await contract.decreaseAllowance(spenderAddr, amount);
+
+                if (simulation.revert) {
+                    throw new Error(`Execution Reverted: ${simulation.revert}`);
+                }
+
+                const receipt = await simulation.sendTransaction(
+                    walletTransactionParams(walletAddress, network),
+                );
+                updateRow(spender, {
+                    pending: null,
+                    txId: receipt.transactionId,
+                    amountInput: '',
+                });
+                void refreshAllowance(spender);
+            } catch (err) {
+                const message = err instanceof Error ? err.message : String(err);
+                updateRow(spender, { pending: null, error: message });
+            }
+        },
+        [
+            getTokenContract,
+            walletAddress,
+            walletAddressObj,
+            rows,
+            decimals,
+            resolveSpender,
+            refreshAllowance,
+            network,
+        ],
+    );
+
+    return (
+        <div className="approvals-card">
+            <h3 className="sub-panel-title">{symbol} Approvals</h3>
+
+            <form className="search-form" onSubmit={addSpender}>
+                <input
+                    type="text"
+                    className="search-input"
+                    placeholder="Add spender contract address (bc1p...)"
+                    value={spenderInput}
+                    onChange={(e) => setSpenderInput(e.target.value)}
+                />
+                <button type="submit" className="btn btn-outline" disabled={!spenderInput.trim()}>
+                    Add Spender
+                </button>
+            </form>
+
+            {error && (
+                <div className="error-card">
+                    <p>{error}</p>
+                </div>
+            )}
+
+            {spenders.length === 0 && (
+                <p className="muted-note">
+                    No spenders tracked. Add a router, staking or marketplace contract to audit its
+                    allowance.
+                </p>
+            )}
+
+            <div className="approvals-list">
+                {spenders.map((spender) => {
+                    const row = rows[spender] ?? EMPTY_ROW;
+                    const busy = row.pending !== null;
+
+                    return (
+                        <div key={spender} className="approval-row">
+                            <div className="approval-row-header">
+                                <span className="approval-spender" title={spender}>
+                                    {spender.slice(0, 12)}...{spender.slice(-6)}
+                                </span>
+                                <span className="approval-amount">
+                                    {row.allowance !== null
+                                        ? `${formatTokenAmount(row.allowance, decimals)} ${symbol}`
+                                        : '---'}
+                                </span>
+                                <button
+                                    className="remove-btn"
+                                    onClick={() => removeSpender(spender)}
+                                    title="Remove spender"
+                                >
+                                    &#x2715;
+                                </button>
+                            </div>
+
+                            <div className="approval-actions">
+                                <input
+                                    type="text"
+                                    inputMode="decimal"
+                                    className="search-input"
+                                    placeholder={`Amount (${symbol})`}
+                                    value={row.amountInput}
+                                    onChange={(e) =>
+                                        updateRow(spender, { amountInput: e.target.value })
+                                    }
+                                    disabled={busy}
+                                />
+                                <button
+                                    className="btn btn-outline btn-sm"
+                                    onClick={() => void runAction(spender, 'increase')}
+                                    disabled={busy || !row.amountInput}
+                                >
+                                    {row.pending === 'increase' ? 'Signing...' : 'Increase'}
+                                </button>
+                                <button
+                                    className="btn btn-outline btn-sm"
+                                    onClick={() => void runAction(spender, 'decrease')}
+                                    disabled={busy || !row.amountInput}
+                                >
+                                    {row.pending === 'decrease' ? 'Signing...' : 'Decrease'}
+                                </button>
+                                <button
+                                    className="btn btn-outline btn-sm approval-revoke"
+                                    onClick={() => void runAction(spender, 'revoke')}
+                                    disabled={busy || !row.allowance}
+                                >
+                                    {row.pending === 'revoke' ? 'Signing...' : 'Revoke'}
+                                </button>
+                            </div>
+
+                            {row.txId && (
+                                <span className="approval-status" title={row.txId}>
+                                    Sent {row.txId.slice(0, 16)}...{row.txId.slice(-8)}
+                                </span>
+                            )}
+                            {row.error && <span className="approval-error">{row.error}</span>}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
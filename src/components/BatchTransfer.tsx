@@ -0,0 +1,487 @@
+import { useEffect, useRef, useState } from 'react';
+import { Transfer } from 'opnet';
+import { useWalletConnect } from '@btc-vision/walletconnect';
+import { useOPNet } from '../providers/OPNetProvider';
+import {
+    BatchRow,
+    BatchRowStatus,
+    batchReportToCsv,
+    batchTotals,
+    parseBatchCsv,
+    resolveBatchRecipients,
+    restoreBatchRows,
+    simulateBatchTransfer,
+    StoredBatchRow,
+    storeBatchRows,
+} from '../services/batchTransfer';
+import { fetchTokenBalance, invalidateTokenState } from '../services/tokenService';
+import { formatTokenAmount } from '../utils/amount';
+import { downloadFile } from '../utils/download';
+import { shortenHash } from '../utils/format';
+import { loadStored, saveStored, storageKey } from '../utils/storage';
+import { walletTransactionParams } from '../utils/transaction';
+
+type RunMode = 'simulate' | 'send';
+
+interface BatchTransferProps {
+    contractAddress: string;
+    symbol: string;
+    decimals: number;
+}
+
+const STATUS_LABELS: Record<BatchRowStatus, string> = {
+    invalid: 'Invalid',
+    ready: 'Ready',
+    simulating: 'Simulating...',
+    simulated: 'Simulated',
+    sending: 'Waiting for wallet...',
+    sent: 'Sent',
+    unknown: 'Unconfirmed',
+    failed: 'Failed',
+    skipped: 'Skipped',
+};
+
+/**
+ * Rows a run picks up: never sent, or failed before reaching the wallet.
+ * `unknown` rows are left out until the user settles them.
+ */
+const PENDING_STATUSES = new Set<BatchRowStatus>(['ready', 'simulated', 'failed']);
+
+const TEMPLATE_CSV = 'address,amount\r\n';
+
+/**
+ * Batch send tool for OP20 tokens.
+ * Loads recipients from an `address,amount` CSV, validates every row against
+ * the active network and the token's decimals, then simulates and sends the
+ * transfers one by one through the connected wallet. Progress is saved per
+ * network, token and wallet, so a failed or interrupted batch can be resumed
+ * without paying anyone twice; a transfer whose outcome is unclear is held until
+ * the user marks it sent or retries it.
+ *
+ * @param contractAddress - OP20 contract address
+ * @param symbol - Token symbol
+ * @param decimals - Token decimals
+ */
+export function BatchTransfer(props: BatchTransferProps) {
+    const { networkId } = useOPNet();
+    const { walletAddress } = useWalletConnect();
+    const batchKey = storageKey(
+        'batch-transfer',
+        networkId,
+        props.contractAddress,
+        walletAddress ?? '',
+    );
+
+    // Remount per batch so a run in flight keeps writing to the batch it started on
+    return <BatchSession key={batchKey} batchKey={batchKey} {...props} />;
+}
+
+/**
+ * One saved batch, bound to a network, token and wallet.
+ */
+function BatchSession({
+    batchKey,
+    contractAddress,
+    symbol,
+    decimals,
+}: BatchTransferProps & { batchKey: string }) {
+    const { provider, network, networkId, isConnected } = useOPNet();
+    const { address: walletAddressObj, walletAddress } = useWalletConnect();
+
+    const [rows, setRows] = useState<BatchRow[]>(() =>
+        restoreBatchRows(loadStored<StoredBatchRow[]>(batchKey, [])),
+    );
+    const [balance, setBalance] = useState<bigint | null>(null);
+    const [running, setRunning] = useState<RunMode | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const rowsRef = useRef<BatchRow[]>(rows);
+    const stopRef = useRef(false);
+
+    useEffect(
+        () => () => {
+            stopRef.current = true;
+        },
+        [],
+    );
+
+    /** Reads the wallet's balance past the cache, since earlier batches may have spent from it. */
+    const refreshBalance = async (): Promise<bigint | null> => {
+        if (!provider || !walletAddressObj) return null;
+        invalidateTokenState(networkId, contractAddress);
+        const fresh = await fetchTokenBalance(
+            { provider, network, networkId },
+            contractAddress,
+            walletAddressObj,
+        );
+        setBalance(fresh);
+        return fresh;
+    };
+
+    useEffect(() => {
+        if (!provider || !walletAddressObj) return;
+
+        let cancelled = false;
+        fetchTokenBalance({ provider, network, networkId }, contractAddress, walletAddressObj)
+            .then((value) => {
+                if (!cancelled) setBalance(value);
+            })
+            .catch((err: unknown) => {
+                if (cancelled) return;
+                const message = err instanceof Error ? err.message : String(err);
+                setError(`Failed to read balance: ${message}`);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [provider, network, networkId, contractAddress, walletAddressObj]);
+
+    /**
+     * Checks the remaining transfers against a fresh balance before a run.
+     * Only done up front: the balance does not drop until sent transfers
+     * confirm, so checking between rows would compare against spent funds.
+     *
+     * @returns True when the wallet can cover them
+     */
+    const checkBalance = async (): Promise<boolean> => {
+        try {
+            const fresh = await refreshBalance();
+            const { remaining } = batchTotals(rowsRef.current);
+            if (fresh === null || remaining <= fresh) return true;
+            const missing = formatTokenAmount(remaining - fresh, decimals);
+            setError(`The remaining transfers need ${missing} ${symbol} more than your balance`);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            setError(`Failed to read balance: ${message}`);
+        }
+        return false;
+    };
+
+    /** Updates rows and saves them at once, so progress survives an unmount mid-run. */
+    const commitRows = (next: BatchRow[]) => {
+        rowsRef.current = next;
+        setRows(next);
+        saveStored(batchKey, storeBatchRows(next));
+    };
+
+    const updateRow = (index: number, patch: Partial<BatchRow>) => {
+        commitRows(rowsRef.current.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+    };
+
+    const loadFile = async (file: File) => {
+        if (!provider) {
+            setError('Connect to a network to check the recipients of a batch file');
+            return;
+        }
+
+        setError(null);
+        try {
+            const parsed = parseBatchCsv(await file.text(), network, decimals);
+            commitRows(await resolveBatchRecipients({ provider, network, networkId }, parsed));
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            setError(`Failed to read batch file: ${message}`);
+        }
+    };
+
+    const run = async (mode: RunMode) => {
+        if (!provider || !isConnected || !walletAddressObj || !walletAddress) return;
+
+        const ctx = { provider, network, networkId };
+        stopRef.current = false;
+        setRunning(mode);
+        setError(null);
+
+        if (mode === 'send' && !(await checkBalance())) {
+            setRunning(null);
+            return;
+        }
+
+        for (let i = 0; i < rowsRef.current.length; i++) {
+            if (stopRef.current) break;
+            const row = rowsRef.current[i];
+            if (!row || !PENDING_STATUSES.has(row.status)) continue;
+
+            updateRow(i, { status: 'simulating', error: null });
+            let transfer: Transfer;
+            try {
+                transfer = await simulateBatchTransfer(ctx, contractAddress, walletAddressObj, row);
+            } catch (err) {
+                const message = err instanceof Error ? err.message : String(err);
+                updateRow(i, { status: 'failed', error: `Simulation failed: ${message}` });
+                // A dry run reports every row; a live run stops so the failure can be handled
+                if (mode === 'send') break;
+                continue;
+            }
+
+            if (mode === 'simulate') {
+                updateRow(i, { status: 'simulated', gasSats: transfer.estimatedSatGas });
+                continue;
+            }
+
+            updateRow(i, { status: 'sending', gasSats: transfer.estimatedSatGas });
+            try {
+                const receipt = await transfer.sendTransaction(
+                    walletTransactionParams(walletAddress, network),
+                );
+                updateRow(i, { status: 'sent', txId: receipt.transactionId });
+            } catch (err) {
+                // The wallet may have broadcast before the error, so never retry on our own
+                const message = err instanceof Error ? err.message : String(err);
+                updateRow(i, {
+                    status: 'unknown',
+                    error: `Transaction failed: ${message}; check your wallet history`,
+                });
+                break;
+            }
+        }
+
+        setRunning(null);
+    };
+
+    const downloadReport = () => {
+        const csv = batchReportToCsv(rows, {
+            network: networkId,
+            contract: contractAddress,
+            symbol,
+            decimals,
+            sender: walletAddress ?? '',
+        });
+        const date = new Date().toISOString().slice(0, 10);
+        downloadFile(`batch-${symbol.toLowerCase()}-${networkId}-${date}.csv`, csv, 'text/csv');
+    };
+
+    const totals = batchTotals(rows);
+    const pendingCount = rows.filter((r) => PENDING_STATUSES.has(r.status)).length;
+    const started = rows.some(
+        (r) => r.status === 'sent' || r.status === 'unknown' || r.status === 'failed',
+    );
+    const unknownCount = rows.filter((r) => r.status === 'unknown').length;
+    const overBalance = balance !== null && totals.remaining > balance;
+    const fmt = (amount: bigint) => formatTokenAmount(amount, decimals);
+
+    return (
+        <div className="send-card batch-card">
+            <div className="sub-panel-header">
+                <h3 className="sub-panel-title">Batch Send {symbol}</h3>
+                {rows.length > 0 && (
+                    <div className="batch-toolbar">
+                        <button
+                            className="btn btn-outline btn-sm"
+                            onClick={downloadReport}
+                            disabled={running !== null}
+                        >
+                            Download Report
+                        </button>
+                        <button
+                            className="btn btn-outline btn-sm"
+                            onClick={() => commitRows([])}
+                            disabled={running !== null}
+                        >
+                            Clear
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {rows.length === 0 ? (
+                <div className="batch-upload">
+                    <p className="muted-note">
+                        Upload a CSV with one <span className="mono">address,amount</span> row per
+                        recipient. Amounts are in {symbol}, up to {decimals} decimal places.
+                    </p>
+                    <div className="batch-toolbar">
+                        <label className="btn btn-outline btn-sm token-list-file">
+                            Upload CSV
+                            <input
+                                type="file"
+                                accept="text/csv,.csv"
+                                hidden
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    e.target.value = '';
+                                    if (file) void loadFile(file);
+                                }}
+                            />
+                        </label>
+                        <button
+                            className="card-link-btn"
+                            onClick={() =>
+                                downloadFile('batch-template.csv', TEMPLATE_CSV, 'text/csv')
+                            }
+                        >
+                            Download template
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <>
+                    <div className="batch-summary">
+                        <div className="block-detail-item">
+                            <span className="detail-label">Recipients</span>
+                            <span className="detail-value">
+                                {totals.valid}
+                                {totals.invalid > 0 && ` (+${totals.invalid} invalid)`}
+                            </span>
+                        </div>
+                        <div className="block-detail-item">
+                            <span className="detail-label">Total</span>
+                            <span className="detail-value">
+                                {fmt(totals.total)} {symbol}
+                            </span>
+                        </div>
+                        <div className="block-detail-item">
+                            <span className="detail-label">Sent</span>
+                            <span className="detail-value">
+                                {fmt(totals.sent)} {symbol}
+                            </span>
+                        </div>
+                        <div className="block-detail-item">
+                            <span className="detail-label">Remaining</span>
+                            <span className={`detail-value${overBalance ? ' batch-over' : ''}`}>
+                                {fmt(totals.remaining)} {symbol}
+                            </span>
+                        </div>
+                        <div className="block-detail-item">
+                            <span className="detail-label">Balance</span>
+                            <span className="detail-value">
+                                {balance !== null ? `${fmt(balance)} ${symbol}` : 'Loading...'}
+                            </span>
+                        </div>
+                    </div>
+
+                    {overBalance && (
+                        <div className="warning-card">
+                            <p>
+                                The remaining transfers need{' '}
+                                {fmt(totals.remaining - (balance ?? 0n))} {symbol} more than your
+                                balance.
+                            </p>
+                        </div>
+                    )}
+                    {unknownCount > 0 && (
+                        <div className="warning-card">
+                            <p>
+                                {unknownCount} transfer{unknownCount !== 1 ? 's' : ''} may have been
+                                broadcast. Check your wallet history, then mark each one sent or
+                                retry it; Resume leaves them alone.
+                            </p>
+                        </div>
+                    )}
+                    {totals.invalid > 0 && (
+                        <div className="warning-card">
+                            <p>
+                                {totals.invalid} row{totals.invalid !== 1 ? 's' : ''} failed
+                                validation and will not be sent. Fix the file and upload it again to
+                                include {totals.invalid !== 1 ? 'them' : 'it'}.
+                            </p>
+                        </div>
+                    )}
+
+                    <div className="batch-toolbar">
+                        <button
+                            className="btn btn-outline"
+                            onClick={() => void run('simulate')}
+                            disabled={running !== null || pendingCount === 0 || !isConnected}
+                        >
+                            {running === 'simulate' ? 'Simulating...' : 'Simulate All'}
+                        </button>
+                        <button
+                            className="btn btn-primary"
+                            onClick={() => void run('send')}
+                            disabled={
+                                running !== null ||
+                                pendingCount === 0 ||
+                                balance === null ||
+                                overBalance ||
+                                !isConnected
+                            }
+                        >
+                            {running === 'send'
+                                ? 'Sending...'
+                                : `${started ? 'Resume' : 'Sign & Send'} (${pendingCount})`}
+                        </button>
+                        {running !== null && (
+                            <button
+                                className="btn btn-outline"
+                                onClick={() => {
+                                    stopRef.current = true;
+                                }}
+                            >
+                                Stop after current
+                            </button>
+                        )}
+                    </div>
+
+                    <div className="batch-rows">
+                        {rows.map((row, i) => (
+                            <div key={row.line} className={`batch-row ${row.status}`}>
+                                <span className="batch-line">{row.line}</span>
+                                <span className="mono batch-address" title={row.address}>
+                                    {row.address ? shortenHash(row.address, 12, 6) : '(empty)'}
+                                </span>
+                                <span className="batch-amount">
+                                    {row.amount !== null ? fmt(row.amount) : row.amountText}
+                                </span>
+                                <span className={`batch-status ${row.status}`}>
+                                    {STATUS_LABELS[row.status]}
+                                </span>
+                                {row.status === 'failed' && running === null && (
+                                    <button
+                                        className="card-link-btn"
+                                        onClick={() => updateRow(i, { status: 'skipped' })}
+                                    >
+                                        Skip
+                                    </button>
+                                )}
+                                {row.status === 'unknown' && running === null && (
+                                    <>
+                                        <button
+                                            className="card-link-btn"
+                                            onClick={() =>
+                                                updateRow(i, { status: 'sent', error: null })
+                                            }
+                                        >
+                                            Mark sent
+                                        </button>
+                                        <button
+                                            className="card-link-btn"
+                                            onClick={() =>
+                                                updateRow(i, { status: 'ready', error: null })
+                                            }
+                                        >
+                                            Retry
+                                        </button>
+                                    </>
+                                )}
+                                {row.status === 'skipped' && running === null && (
+                                    <button
+                                        className="card-link-btn"
+                                        onClick={() =>
+                                            updateRow(i, { status: 'ready', error: null })
+                                        }
+                                    >
+                                        Restore
+                                    </button>
+                                )}
+                                {(row.error || row.txId || row.gasSats !== null) && (
+                                    <span className="batch-detail">
+                                        {row.error ??
+                                            (row.txId
+                                                ? `tx ${shortenHash(row.txId)}`
+                                                : `gas ${row.gasSats?.toLocaleString()} sats`)}
+                                    </span>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+
+            {error && (
+                <div className="error-card">
+                    <p>{error}</p>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,178 @@
+import { useState, useEffect } from 'react';
+import { Block } from 'opnet';
+import { useOPNet } from '../providers/OPNetProvider';
+import { useRouter } from '../providers/RouterProvider';
+import { shortenHash, timeAgo } from '../utils/format';
+
+interface BlockDetailProps {
+    height: bigint;
+}
+
+/**
+ * Full header fields and transaction list for a single block,
+ * with previous/next navigation between heights.
+ *
+ * @param height - Block height to display
+ */
+export function BlockDetail({ height }: BlockDetailProps) {
+    const { provider, isConnected, networkId } = useOPNet();
+    const { navigate } = useRouter();
+    const [block, setBlock] = useState<Block | null>(null);
+    const [tipHeight, setTipHeight] = useState<bigint | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    useEffect(() => {
+        if (!provider || !isConnected) return;
+
+        let cancelled = false;
+        setLoading(true);
+        setError(null);
+        setBlock(null);
+
+        const load = async () => {
+            try {
+                const [fetched, tip] = await Promise.all([
+                    provider.getBlock(height, true),
+                    provider.getBlockNumber(),
+                ]);
+                if (cancelled) return;
+                setBlock(fetched);
+                setTipHeight(tip);
+            } catch (err) {
+                if (cancelled) return;
+                const message = err instanceof Error ? err.message : String(err);
+                setError(`Failed to load block #${height.toString()}: ${message}`);
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+
+        void load();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [provider, isConnected, height]);
+
+    const goTo = (target: bigint) => navigate({ view: 'block', height: target });
+    const hasNext = tipHeight === null || height < tipHeight;
+
+    const fields: { label: string; value: string; mono?: boolean }[] = block
+        ? [
+              { label: 'Hash', value: block.hash, mono: true },
+              { label: 'Previous Hash', value: block.previousBlockHash, mono: true },
+              { label: 'Merkle Root', value: block.merkleRoot, mono: true },
+              { label: 'Storage Root', value: block.storageRoot, mono: true },
+              { label: 'Receipt Root', value: block.receiptRoot, mono: true },
+              { label: 'Checksum Root', value: block.checksumRoot, mono: true },
+              {
+                  label: 'Time',
+                  value: `${new Date(block.time * 1000).toLocaleString()} (${timeAgo(block.time)})`,
+              },
+              { label: 'Median Time', value: new Date(block.medianTime * 1000).toLocaleString() },
+              { label: 'Gas Used', value: block.gasUsed.toLocaleString() },
+              { label: 'Base Gas', value: block.baseGas.toLocaleString() },
+              { label: 'EMA', value: block.ema.toLocaleString() },
+              { label: 'Size', value: `${(block.size / 1024).toFixed(1)} KB` },
+              { label: 'Weight', value: block.weight.toLocaleString() },
+              { label: 'Transactions', value: block.txCount.toLocaleString() },
+          ]
+        : [];
+
+    return (
+        <div className="stats-panel block-view">
+            <div className="stats-header">
+                <h2 className="panel-title">
+                    <span className="panel-icon">&#x1F9F1;</span>
+                    Block #{height.toLocaleString()}
+                </h2>
+                <div className="block-nav">
+                    <button
+                        className="btn btn-outline btn-sm"
+                        onClick={() => navigate({ view: 'dashboard' })}
+                    >
+                        Overview
+                    </button>
+                    <button
+                        className="btn btn-outline btn-sm"
+                        onClick={() => goTo(height - 1n)}
+                        disabled={height === 0n || loading}
+                    >
+                        &#x2190; Prev
+                    </button>
+                    <button
+                        className="btn btn-outline btn-sm"
+                        onClick={() => goTo(height + 1n)}
+                        disabled={!hasNext || loading}
+                    >
+                        Next &#x2192;
+                    </button>
+                </div>
+            </div>
+
+            {!isConnected && <p className="loading-text">Connecting to OPNet {networkId}...</p>}
+
+            {loading && (
+                <div className="loading-panel">
+                    <div className="loading-spinner" />
+                    <p className="loading-text">Loading block...</p>
+                </div>
+            )}
+
+            {error && (
+                <div className="error-card">
+                    <p>{error}</p>
+                </div>
+            )}
+
+            {block && (
+                <>
+                    <div className="block-field-list">
+                        {fields.map((field) => (
+                            <div key={field.label} className="block-field">
+                                <span className="detail-label">{field.label}</span>
+                                <span className={`detail-value ${field.mono ? 'mono' : ''}`}>
+                                    {field.value}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="block-tx-section">
+                        <h3 className="sub-panel-title">
+                            Transactions ({block.transactions.length})
+                        </h3>
+                        {block.transactions.length === 0 ? (
+                            <p className="muted-note">No transactions in this block</p>
+                        ) : (
+                            <div className="block-tx-list">
+                                {block.transactions.map((tx) => (
+                                    <div
+                                        key={tx.id}
+                                        className="block-tx-row"
+                                        role="button"
+                                        onClick={() => navigate({ view: 'tx', hash: tx.id })}
+                                    >
+                                        <span className="block-tx-index">{tx.index}</span>
+                                        <span className="block-tx-id" title={tx.id}>
+                                            {shortenHash(tx.id, 16, 10)}
+                                        </span>
+                                        <span
+                                            className={`block-tx-type ${tx.OPNetType.toLowerCase()}`}
+                                        >
+                                            {tx.OPNetType}
+                                        </span>
+                                        <span className="block-tx-gas">
+                                            {tx.gasUsed.toLocaleString()} gas
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react';
+import { useOPNet } from '../providers/OPNetProvider';
+
+/**
+ * Banner shown while the RPC connection is degraded or offline.
+ * Explains the problem, counts down to the next reconnect attempt and lets
+ * the user retry right away.
+ */
+export function ConnectionBanner() {
+    const { status, error, retryAt, activeUrl, networkConfig, retryConnection } = useOPNet();
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        if (retryAt === null) return;
+        setNow(Date.now());
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [retryAt]);
+
+    if (status !== 'degraded' && status !== 'offline') return null;
+
+    const seconds = retryAt !== null ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : null;
+    const onFallback = activeUrl !== null && activeUrl !== networkConfig.url;
+
+    return (
+        <div className={`connection-banner ${status}`}>
+            <span className={`status-dot ${status}`} />
+            <span className="connection-banner-text">
+                {status === 'offline'
+                    ? `${networkConfig.label} RPC is unreachable`
+                    : onFallback
+                      ? `${networkConfig.label} RPC degraded, using fallback ${activeUrl}`
+                      : `${networkConfig.label} RPC degraded`}
+                {error && <span className="connection-banner-error">{error.message}</span>}
+            </span>
+            {seconds !== null && (
+                <span className="connection-banner-retry">
+                    {seconds > 0 ? `Retrying in ${seconds}s` : 'Retrying...'}
+                </span>
+            )}
+            <button className="btn btn-outline btn-sm" onClick={retryConnection}>
+                Retry now
+            </button>
+        </div>
+    );
+}
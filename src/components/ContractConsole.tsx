@@ -0,0 +1,255 @@
+import { useEffect, useState } from 'react';
+import { useOPNet } from '../providers/OPNetProvider';
+import { useRouter } from '../providers/RouterProvider';
+import {
+    abiFunctions,
+    loadSavedAbis,
+    parseContractAbi,
+    removeContractAbi,
+    saveContractAbi,
+    SavedAbi,
+} from '../services/contractConsole';
+import { AddressIssue, validateAddress } from '../utils/address';
+import { shortenHash } from '../utils/format';
+import { AddressIssueCard } from './AddressIssueCard';
+import { ContractMethodForm } from './ContractMethodForm';
+
+interface ContractConsoleProps {
+    contract: string | null;
+}
+
+/**
+ * Generic read/write console for contracts without a built-in view.
+ * The user supplies the contract's ABI by pasting or uploading JSON; ABIs are
+ * saved per contract and network. Every method gets a typed input form.
+ *
+ * @param contract - Contract address from the route, or null for none
+ */
+export function ContractConsole({ contract }: ContractConsoleProps) {
+    const { network, networkId } = useOPNet();
+    const { navigate } = useRouter();
+
+    const [inputAddr, setInputAddr] = useState(contract ?? '');
+    const [addressIssue, setAddressIssue] = useState<AddressIssue | null>(null);
+    const [saved, setSaved] = useState<Record<string, SavedAbi>>(() => loadSavedAbis(networkId));
+    const [editing, setEditing] = useState(false);
+    const [abiText, setAbiText] = useState('');
+    const [abiError, setAbiError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setSaved(loadSavedAbis(networkId));
+    }, [networkId]);
+
+    useEffect(() => {
+        setInputAddr(contract ?? '');
+        setAddressIssue(contract ? validateAddress(contract, network, 'contract') : null);
+        setEditing(false);
+        setAbiText('');
+        setAbiError(null);
+    }, [contract, network]);
+
+    const openContract = (e: React.FormEvent) => {
+        e.preventDefault();
+        const addr = inputAddr.trim();
+        if (!addr) return;
+
+        const issue = validateAddress(addr, network, 'contract');
+        setAddressIssue(issue);
+        if (!issue) navigate({ view: 'contracts', contract: addr });
+    };
+
+    const saveAbi = (text: string) => {
+        if (!contract) return;
+        try {
+            saveContractAbi(networkId, contract, parseContractAbi(text));
+            setSaved(loadSavedAbis(networkId));
+            setEditing(false);
+            setAbiText('');
+            setAbiError(null);
+        } catch (err) {
+            setAbiError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const removeAbi = (address: string) => {
+        removeContractAbi(networkId, address);
+        setSaved(loadSavedAbis(networkId));
+    };
+
+    const savedEntries = Object.entries(saved).sort(([, a], [, b]) => b.savedAt - a.savedAt);
+    const current = contract && !addressIssue ? (saved[contract] ?? null) : null;
+    const functions = current ? abiFunctions(current.abi) : [];
+    const reads = functions.filter((fn) => fn.constant);
+    const writes = functions.filter((fn) => !fn.constant);
+
+    return (
+        <div className="contract-console panel">
+            <div className="panel-header">
+                <h2 className="panel-title">
+                    <span className="panel-icon">{'\uD83D\uDCDC'}</span>
+                    Contract Console
+                </h2>
+                <p className="panel-desc">
+                    Call any contract from its ABI: views are simulated, writes are signed by your
+                    wallet
+                </p>
+            </div>
+
+            <form className="search-form" onSubmit={openContract}>
+                <input
+                    type="text"
+                    className="search-input"
+                    placeholder="Contract address (bc1p... or 0x...)"
+                    value={inputAddr}
+                    onChange={(e) => setInputAddr(e.target.value)}
+                />
+                <button type="submit" className="btn btn-primary">
+                    Open
+                </button>
+            </form>
+
+            {addressIssue && <AddressIssueCard issue={addressIssue} />}
+
+            {savedEntries.length > 0 && (
+                <details className="token-list-settings" open={!contract}>
+                    <summary>Saved ABIs: {savedEntries.length}</summary>
+                    <ul className="token-list-sources">
+                        {savedEntries.map(([address, entry]) => (
+                            <li key={address} className="token-list-source">
+                                <button
+                                    className="card-link-btn mono"
+                                    onClick={() =>
+                                        navigate({ view: 'contracts', contract: address })
+                                    }
+                                    title={address}
+                                >
+                                    {shortenHash(address)}
+                                </button>
+                                <span className="muted-note">
+                                    {abiFunctions(entry.abi).length} methods &middot; saved{' '}
+                                    {new Date(entry.savedAt).toLocaleDateString()}
+                                </span>
+                                <button
+                                    className="remove-btn"
+                                    onClick={() => removeAbi(address)}
+                                    title="Forget ABI"
+                                >
+                                    &#x2715;
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+
+            {contract && !addressIssue && (
+                <div className="console-contract">
+                    <div className="sub-panel-header">
+                        <h3 className="sub-panel-title mono" title={contract}>
+                            {shortenHash(contract, 14, 8)}
+                        </h3>
+                        {current && !editing && (
+                            <button
+                                className="btn btn-outline btn-sm"
+                                onClick={() => setEditing(true)}
+                            >
+                                Replace ABI
+                            </button>
+                        )}
+                    </div>
+
+                    {(!current || editing) && (
+                        <div className="console-abi-editor">
+                            <textarea
+                                className="search-input console-abi-input"
+                                placeholder='Paste the ABI JSON, e.g. [{"name":"getValue","type":"function","constant":true,"inputs":[],"outputs":[{"name":"value","type":"UINT256"}]}]'
+                                value={abiText}
+                                onChange={(e) => setAbiText(e.target.value)}
+                                rows={8}
+                                spellCheck={false}
+                            />
+                            <div className="console-abi-actions">
+                                <button
+                                    className="btn btn-primary btn-sm"
+                                    onClick={() => saveAbi(abiText)}
+                                    disabled={!abiText.trim()}
+                                >
+                                    Save ABI
+                                </button>
+                                <label className="btn btn-outline btn-sm token-list-file">
+                                    Upload JSON
+                                    <input
+                                        type="file"
+                                        accept="application/json,.json"
+                                        hidden
+                                        onChange={(e) => {
+                                            const file = e.target.files?.[0];
+                                            e.target.value = '';
+                                            if (!file) return;
+                                            void file.text().then((text) => {
+                                                setAbiText(text);
+                                                saveAbi(text);
+                                            });
+                                        }}
+                                    />
+                                </label>
+                                {editing && (
+                                    <button
+                                        className="btn btn-outline btn-sm"
+                                        onClick={() => {
+                                            setEditing(false);
+                                            setAbiError(null);
+                                        }}
+                                    >
+                                        Cancel
+                                    </button>
+                                )}
+                            </div>
+                            {abiError && (
+                                <div className="error-card">
+                                    <p>Invalid ABI: {abiError}</p>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {current && !editing && (
+                        <>
+                            <h4 className="console-section-title">Read ({reads.length})</h4>
+                            {reads.length === 0 && <p className="muted-note">No view methods.</p>}
+                            {reads.map((fn) => (
+                                <ContractMethodForm
+                                    key={`${contract}:${fn.name}`}
+                                    contractAddress={contract}
+                                    abi={current.abi}
+                                    fn={fn}
+                                />
+                            ))}
+
+                            <h4 className="console-section-title">Write ({writes.length})</h4>
+                            {writes.length === 0 && (
+                                <p className="muted-note">No state-changing methods.</p>
+                            )}
+                            {writes.map((fn) => (
+                                <ContractMethodForm
+                                    key={`${contract}:${fn.name}`}
+                                    contractAddress={contract}
+                                    abi={current.abi}
+                                    fn={fn}
+                                />
+                            ))}
+                        </>
+                    )}
+                </div>
+            )}
+
+            {!contract && savedEntries.length === 0 && (
+                <div className="empty-state">
+                    <span className="empty-icon">{'\uD83D\uDCDC'}</span>
+                    <h3>No Contract Selected</h3>
+                    <p>Open a contract address above, then paste or upload its ABI.</p>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,304 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { BitcoinInterfaceAbi, CallResult, FunctionBaseData } from 'opnet';
+import { useWalletConnect } from '@btc-vision/walletconnect';
+import { useOPNet } from '../providers/OPNetProvider';
+import { formatAbiValue, isTextCallable, parseAbiArgument } from '../services/abiArgs';
+import { CallPayment, callContractMethod, paymentOutputs } from '../services/contractConsole';
+import { validateAddress } from '../utils/address';
+import { parseTokenAmount } from '../utils/amount';
+import { walletTransactionParams } from '../utils/transaction';
+
+type CallStep = 'idle' | 'calling' | 'called' | 'sending' | 'sent';
+
+interface ContractMethodFormProps {
+    contractAddress: string;
+    abi: BitcoinInterfaceAbi;
+    fn: FunctionBaseData;
+}
+
+function typeList(values: FunctionBaseData['inputs']): string {
+    return (values ?? []).map((v) => String(v.type).toLowerCase()).join(', ');
+}
+
+/**
+ * Collapsible form for one method of an ABI.
+ * View methods are simulated and their decoded outputs shown; state-changing
+ * methods are simulated first, then handed to the connected wallet to sign
+ * and broadcast. Payable methods also take an amount of satoshis and the
+ * address it is paid to, sent as an extra output of the interaction. The form
+ * is cleared when the network changes, so a simulation is never sent elsewhere.
+ *
+ * @param contractAddress - Contract address
+ * @param abi - Full contract ABI
+ * @param fn - Method to call
+ */
+export function ContractMethodForm({ contractAddress, abi, fn }: ContractMethodFormProps) {
+    const [argInputs, setArgInputs] = useState<string[]>([]);
+    const [satsInput, setSatsInput] = useState('');
+    const [payToInput, setPayToInput] = useState('');
+    const [step, setStep] = useState<CallStep>('idle');
+    const [result, setResult] = useState<CallResult | null>(null);
+    const [payment, setPayment] = useState<CallPayment | null>(null);
+    const [txId, setTxId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const { provider, network, networkId, isConnected } = useOPNet();
+    const { address: walletAddressObj, walletAddress } = useWalletConnect();
+    const networkRef = useRef(networkId);
+
+    useEffect(() => {
+        networkRef.current = networkId;
+        setArgInputs([]);
+        setSatsInput('');
+        setPayToInput('');
+        setResult(null);
+        setPayment(null);
+        setTxId(null);
+        setError(null);
+        setStep('idle');
+    }, [networkId]);
+
+    const inputs = fn.inputs ?? [];
+    const outputs = fn.outputs ?? [];
+    const isView = fn.constant === true;
+    const callable = isTextCallable(fn);
+    const actionLabel = isView ? 'Query' : 'Simulate';
+    const busyLabel = isView ? 'Querying...' : 'Simulating...';
+
+    const resetResult = () => {
+        setResult(null);
+        setPayment(null);
+        setTxId(null);
+        setError(null);
+        setStep('idle');
+    };
+
+    const handleCall = useCallback(
+        async (e: React.FormEvent) => {
+            e.preventDefault();
+            if (!provider || !isConnected) return;
+            if (!isView && !walletAddressObj) {
+                setError('Connect a wallet to simulate state-changing calls');
+                return;
+            }
+
+            setError(null);
+            setResult(null);
+            setPayment(null);
+            setTxId(null);
+            setStep('calling');
+            try {
+                const ctx = { provider, network, networkId };
+                const args = await Promise.all(
+                    (fn.inputs ?? []).map((input, i) =>
+                        parseAbiArgument(ctx, String(input.type), argInputs[i] ?? ''),
+                    ),
+                );
+
+                let callPayment: CallPayment | null = null;
+                if (fn.payable && satsInput.trim() !== '') {
+                    const sats = parseTokenAmount(satsInput, 0);
+                    const to = payToInput.trim();
+                    const issue = validateAddress(to, network, 'account');
+                    if (issue) {
+                        throw new Error(`Payment address: ${issue.error}`);
+                    }
+                    if (sats > 0n) callPayment = { to, sats };
+                }
+
+                const call = await callContractMethod(
+                    ctx,
+                    contractAddress,
+                    abi,
+                    fn.name,
+                    args,
+                    walletAddressObj ?? undefined,
+                    callPayment,
+                );
+                // The network changed while simulating; the result belongs to the old one
+                if (networkRef.current !== networkId) return;
+                setResult(call);
+                setPayment(callPayment);
+                setStep('called');
+            } catch (err) {
+                if (networkRef.current !== networkId) return;
+                const message = err instanceof Error ? err.message : String(err);
+                setError(`${isView ? 'Call' : 'Simulation'} failed: ${message}`);
+                setStep('idle');
+            }
+        },
+        [
+            provider,
+            isConnected,
+            isView,
+            walletAddressObj,
+            network,
+            networkId,
+            fn,
+            argInputs,
+            satsInput,
+            payToInput,
+            contractAddress,
+            abi,
+        ],
+    );
+
+    const handleSend = useCallback(async () => {
+        if (!result || !walletAddress) return;
+
+        setError(null);
+        setStep('sending');
+        try {
+            const params = walletTransactionParams(walletAddress, network);
+            const receipt = await result.sendTransaction(
+                payment
+                    ? {
+                          ...params,
+                          maximumAllowedSatToSpend: params.maximumAllowedSatToSpend + payment.sats,
+                          extraOutputs: paymentOutputs(payment),
+                      }
+                    : params,
+            );
+            setTxId(receipt.transactionId);
+            setStep('sent');
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            setError(`Transaction failed: ${message}`);
+            setStep('called');
+        }
+    }, [result, payment, walletAddress, network]);
+
+    const busy = step === 'calling' || step === 'sending';
+    const decoded = result?.properties as Record<string, unknown> | undefined;
+
+    return (
+        <details className="console-method">
+            <summary>
+                <span className="console-method-name">{fn.name}</span>
+                <span className="muted-note">
+                    ({typeList(fn.inputs)}){outputs.length > 0 && ` → (${typeList(outputs)})`}
+                </span>
+                {fn.payable && <span className="console-method-tag">payable</span>}
+            </summary>
+
+            {!callable ? (
+                <p className="muted-note">
+                    Arguments of type {typeList(inputs)} cannot be entered in the console.
+                </p>
+            ) : (
+                <form className="send-form" onSubmit={(e) => void handleCall(e)}>
+                    {inputs.map((input, i) => (
+                        <input
+                            key={`${input.name}-${i}`}
+                            type="text"
+                            className="search-input"
+                            placeholder={`${input.name} (${String(input.type).toLowerCase()})`}
+                            value={argInputs[i] ?? ''}
+                            onChange={(e) => {
+                                const next = [...argInputs];
+                                next[i] = e.target.value;
+                                setArgInputs(next);
+                                resetResult();
+                            }}
+                            disabled={busy}
+                        />
+                    ))}
+                    {fn.payable && (
+                        <>
+                            <input
+                                type="text"
+                                inputMode="numeric"
+                                className="search-input"
+                                placeholder="BTC to send, in satoshis (optional)"
+                                value={satsInput}
+                                onChange={(e) => {
+                                    setSatsInput(e.target.value);
+                                    resetResult();
+                                }}
+                                disabled={busy}
+                            />
+                            {satsInput.trim() !== '' && (
+                                <input
+                                    type="text"
+                                    className="search-input"
+                                    placeholder="Pay to address (bc1p..., bc1q...)"
+                                    value={payToInput}
+                                    onChange={(e) => {
+                                        setPayToInput(e.target.value);
+                                        resetResult();
+                                    }}
+                                    disabled={busy}
+                                />
+                            )}
+                        </>
+                    )}
+                    <button
+                        type="submit"
+                        className="btn btn-outline btn-sm"
+                        disabled={busy || !isConnected}
+                    >
+                        {step === 'calling' ? busyLabel : actionLabel}
+                    </button>
+                </form>
+            )}
+
+            {result && decoded && outputs.length > 0 && (
+                <div className="console-outputs">
+                    {outputs.map((output) => (
+                        <div key={output.name} className="console-output">
+                            <span className="stat-label">{output.name}</span>
+                            <span className="mono">{formatAbiValue(decoded[output.name])}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {result && !isView && (
+                <div className="send-simulation">
+                    <div className="block-detail-item">
+                        <span className="detail-label">Estimated Gas</span>
+                        <span className="detail-value">
+                            {(result.estimatedGas ?? 0n).toLocaleString()}
+                        </span>
+                    </div>
+                    <div className="block-detail-item">
+                        <span className="detail-label">Gas Fee</span>
+                        <span className="detail-value">
+                            {result.estimatedSatGas.toLocaleString()} sats
+                        </span>
+                    </div>
+                    {payment && (
+                        <div className="block-detail-item">
+                            <span className="detail-label">Payment</span>
+                            <span className="detail-value" title={payment.to}>
+                                {payment.sats.toLocaleString()} sats
+                            </span>
+                        </div>
+                    )}
+                    {step !== 'sent' && (
+                        <button
+                            className="btn btn-primary"
+                            onClick={() => void handleSend()}
+                            disabled={busy}
+                        >
+                            {step === 'sending' ? 'Waiting for wallet...' : 'Sign & Send'}
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {txId && (
+                <div className="info-card send-result">
+                    <span className="detail-label">Transaction Sent</span>
+                    <span className="detail-value mono">{txId}</span>
+                </div>
+            )}
+
+            {error && (
+                <div className="error-card">
+                    <p>{error}</p>
+                </div>
+            )}
+        </details>
+    );
+}
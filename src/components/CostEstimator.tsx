@@ -0,0 +1,211 @@
+import { useState, useMemo } from 'react';
+import { BlockGasParameters, CallResult, OP_20_ABI } from 'opnet';
+import { useWalletConnect } from '@btc-vision/walletconnect';
+import { useOPNet } from '../providers/OPNetProvider';
+import { parseAbiArgument, textCallableFunctions } from '../services/abiArgs';
+import { CostOperation, estimateCost, simulateOperation } from '../services/costEstimator';
+import { AddressIssue, validateAddress } from '../utils/address';
+import { formatBtc } from '../utils/amount';
+import { AddressIssueCard } from './AddressIssueCard';
+
+type OperationKind = CostOperation['kind'];
+
+interface CostEstimatorProps {
+    gas: BlockGasParameters;
+}
+
+const OPERATION_LABELS: Record<OperationKind, string> = {
+    transfer: 'OP20 transfer',
+    approve: 'OP20 approve',
+    custom: 'Custom call',
+};
+
+const CUSTOM_METHODS = textCallableFunctions(OP_20_ABI, true);
+
+/**
+ * Transaction cost calculator.
+ * Prices an OP20 transfer, approval or custom call in gas, satoshis and BTC at each
+ * Bitcoin fee tier. When a token contract is given the operation is simulated so
+ * the gas figure is real; otherwise the block's base gas is priced.
+ *
+ * @param gas - Current gas parameters from `gasParameters()`
+ */
+export function CostEstimator({ gas }: CostEstimatorProps) {
+    const { provider, network, networkId, isConnected } = useOPNet();
+    const { address: walletAddressObj } = useWalletConnect();
+    const [operation, setOperation] = useState<OperationKind>('transfer');
+    const [contract, setContract] = useState('');
+    const [method, setMethod] = useState(CUSTOM_METHODS[0]?.name ?? '');
+    const [argInputs, setArgInputs] = useState<string[]>([]);
+    const [simulation, setSimulation] = useState<CallResult | null>(null);
+    const [simulating, setSimulating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [addressIssue, setAddressIssue] = useState<AddressIssue | null>(null);
+
+    const methodAbi = CUSTOM_METHODS.find((f) => f.name === method);
+    const estimate = useMemo(() => estimateCost(gas, simulation), [gas, simulation]);
+
+    const resetSimulation = () => {
+        setSimulation(null);
+        setError(null);
+        setAddressIssue(null);
+    };
+
+    const handleSimulate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const address = contract.trim();
+        if (!provider || !address) return;
+
+        resetSimulation();
+        const issue = validateAddress(address, network, 'contract');
+        if (issue) {
+            setAddressIssue(issue);
+            return;
+        }
+
+        setSimulating(true);
+        try {
+            const ctx = { provider, network, networkId };
+            let op: CostOperation;
+            if (operation === 'custom') {
+                const inputs = methodAbi?.inputs ?? [];
+                const args = await Promise.all(
+                    inputs.map((input, i) =>
+                        parseAbiArgument(ctx, String(input.type), argInputs[i] ?? ''),
+                    ),
+                );
+                op = { kind: 'custom', method, args };
+            } else {
+                op = { kind: operation };
+            }
+
+            const result = await simulateOperation(ctx, address, walletAddressObj ?? undefined, op);
+            if (result.revert) {
+                throw new Error(`Execution Reverted: ${result.revert}`);
+            }
+            setSimulation(result);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            setError(`Simulation failed, showing minimum cost: ${message}`);
+        } finally {
+            setSimulating(false);
+        }
+    };
+
+    return (
+        <div className="cost-estimator">
+            <div className="sub-panel-header">
+                <h3 className="sub-panel-title">What Will This Cost?</h3>
+                <span className="muted-note">base gas {gas.baseGas.toLocaleString()}</span>
+            </div>
+
+            <form className="cost-form" onSubmit={(e) => void handleSimulate(e)}>
+                <div className="cost-form-row">
+                    <select
+                        className="network-select"
+                        value={operation}
+                        onChange={(e) => {
+                            setOperation(e.target.value as OperationKind);
+                            resetSimulation();
+                        }}
+                    >
+                        {(Object.keys(OPERATION_LABELS) as OperationKind[]).map((kind) => (
+                            <option key={kind} value={kind}>
+                                {OPERATION_LABELS[kind]}
+                            </option>
+                        ))}
+                    </select>
+                    {operation === 'custom' && (
+                        <select
+                            className="network-select"
+                            value={method}
+                            onChange={(e) => {
+                                setMethod(e.target.value);
+                                setArgInputs([]);
+                                resetSimulation();
+                            }}
+                        >
+                            {CUSTOM_METHODS.map((f) => (
+                                <option key={f.name} value={f.name}>
+                                    {f.name}
+                                </option>
+                            ))}
+                        </select>
+                    )}
+                </div>
+
+                {operation === 'custom' &&
+                    (methodAbi?.inputs ?? []).map((input, i) => (
+                        <input
+                            key={`${method}-${input.name}`}
+                            type="text"
+                            className="search-input"
+                            placeholder={`${input.name} (${String(input.type).toLowerCase()})`}
+                            value={argInputs[i] ?? ''}
+                            onChange={(e) => {
+                                const next = [...argInputs];
+                                next[i] = e.target.value;
+                                setArgInputs(next);
+                            }}
+                            disabled={simulating}
+                        />
+                    ))}
+
+                <div className="cost-form-row">
+                    <input
+                        type="text"
+                        className="search-input"
+                        placeholder="Token contract to simulate against (optional)"
+                        value={contract}
+                        onChange={(e) => {
+                            setContract(e.target.value);
+                            resetSimulation();
+                        }}
+                        disabled={simulating}
+                    />
+                    <button
+                        type="submit"
+                        className="btn btn-outline"
+                        disabled={simulating || !isConnected || !contract.trim()}
+                    >
+                        {simulating ? 'Simulating...' : 'Simulate'}
+                    </button>
+                </div>
+            </form>
+
+            {addressIssue && <AddressIssueCard issue={addressIssue} />}
+            {error && <p className="approval-error">{error}</p>}
+
+            <p className="muted-note">
+                {estimate.simulated
+                    ? `Simulated: ${estimate.gasUsed?.toLocaleString() ?? '?'} gas, ~${estimate.vbytes} vB`
+                    : `Not simulated: base gas fee and a typical ~${estimate.vbytes} vB interaction`}
+                {!walletAddressObj &&
+                    operation !== 'custom' &&
+                    ' — connect a wallet to simulate from your own balance'}
+            </p>
+
+            <div className="cost-table">
+                <div className="cost-row cost-head">
+                    <span>Tier</span>
+                    <span>Gas fee</span>
+                    <span>Network fee</span>
+                    <span>Total</span>
+                </div>
+                {estimate.tiers.map((tier) => (
+                    <div key={tier.tier} className="cost-row">
+                        <span className={`fee-label cost-tier ${tier.tier}`}>
+                            {tier.tier} · {tier.feeRate} sat/vB
+                        </span>
+                        <span>{tier.gasSats.toLocaleString()} sats</span>
+                        <span>{tier.networkSats.toLocaleString()} sats</span>
+                        <span className="cost-total" title={formatBtc(tier.totalSats)}>
+                            {tier.totalSats.toLocaleString()} sats
+                            <span className="cost-btc">{formatBtc(tier.totalSats)}</span>
+                        </span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,184 @@
+import { useState, useEffect } from 'react';
+import { loadGasSamples, GasSample } from '../services/gasHistory';
+import { ChartPoint, ChartSeries, LineChart } from './LineChart';
+
+type HistoryWindow = '1h' | '24h' | '7d';
+
+interface GasHistoryProps {
+    networkId: string;
+    /** Most recently recorded sample, appended without reloading from storage. */
+    latest: GasSample | null;
+}
+
+const WINDOWS: Record<HistoryWindow, number> = {
+    '1h': 60 * 60 * 1000,
+    '24h': 24 * 60 * 60 * 1000,
+    '7d': 7 * 24 * 60 * 60 * 1000,
+};
+
+/** Upper bound on points drawn per line; longer windows are averaged into buckets. */
+const MAX_POINTS = 240;
+
+/**
+ * Averages samples into at most `MAX_POINTS` time buckets for one metric.
+ *
+ * @param samples - Samples in chronological order
+ * @param from - Window start in milliseconds
+ * @param to - Window end in milliseconds
+ * @param value - Extracts the plotted value from a sample
+ * @returns Chart points, one per non-empty bucket
+ */
+function bucketize(
+    samples: GasSample[],
+    from: number,
+    to: number,
+    value: (sample: GasSample) => number,
+): ChartPoint[] {
+    if (samples.length <= MAX_POINTS) {
+        return samples.map((s) => ({ x: s.timestamp, y: value(s) }));
+    }
+
+    const width = (to - from) / MAX_POINTS;
+    const sums = new Map<number, { x: number; y: number; n: number }>();
+    for (const sample of samples) {
+        const bucket = Math.min(MAX_POINTS - 1, Math.floor((sample.timestamp - from) / width));
+        const entry = sums.get(bucket) ?? { x: 0, y: 0, n: 0 };
+        entry.x += sample.timestamp;
+        entry.y += value(sample);
+        entry.n += 1;
+        sums.set(bucket, entry);
+    }
+    return [...sums.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, e]) => ({ x: e.x / e.n, y: e.y / e.n }));
+}
+
+/**
+ * Gas utilization of a sample as a percentage of the target gas limit.
+ */
+function utilization(sample: GasSample): number {
+    return sample.targetGasLimit > 0n
+        ? Number((sample.gasUsed * 10000n) / sample.targetGasLimit) / 100
+        : 0;
+}
+
+const formatInteger = (value: number) => Math.round(value).toLocaleString();
+
+/**
+ * Gas and fee history charts for the active network.
+ * Reads the persisted samples for the selected window from IndexedDB and
+ * keeps appending new samples as the overview records them.
+ *
+ * @param networkId - Network whose history is shown
+ * @param latest - Newest recorded sample
+ */
+export function GasHistory({ networkId, latest }: GasHistoryProps) {
+    const [range, setRange] = useState<HistoryWindow>('1h');
+    const [samples, setSamples] = useState<GasSample[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        let cancelled = false;
+        const since = Date.now() - WINDOWS[range];
+        setError(null);
+
+        loadGasSamples(networkId, since)
+            .then((loaded) => {
+                if (cancelled) return;
+                setSamples(loaded);
+                setNow(Date.now());
+            })
+            .catch((err: unknown) => {
+                if (cancelled) return;
+                const message = err instanceof Error ? err.message : String(err);
+                setError(`Gas history unavailable: ${message}`);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [networkId, range]);
+
+    useEffect(() => {
+        if (!latest || latest.networkId !== networkId) return;
+        const cutoff = latest.timestamp - WINDOWS[range];
+        setSamples((prev) =>
+            prev.some((s) => s.timestamp === latest.timestamp)
+                ? prev
+                : [...prev.filter((s) => s.timestamp >= cutoff), latest],
+        );
+        setNow(latest.timestamp);
+    }, [latest, networkId, range]);
+
+    const from = now - WINDOWS[range];
+    const points = (value: (sample: GasSample) => number) => bucketize(samples, from, now, value);
+
+    const gasSeries: ChartSeries[] = [
+        { label: 'Base gas', color: '#f7931a', points: points((s) => Number(s.baseGas)) },
+        { label: 'EMA', color: '#9b59ff', points: points((s) => Number(s.ema)) },
+    ];
+    const gasPerSatSeries: ChartSeries[] = [
+        { label: 'Gas / sat', color: '#4d9fff', points: points((s) => Number(s.gasPerSat)) },
+    ];
+    const utilizationSeries: ChartSeries[] = [
+        { label: 'Used / target', color: '#00d68f', points: points(utilization) },
+    ];
+    const feeSeries: ChartSeries[] = [
+        { label: 'Low', color: '#00d68f', points: points((s) => s.feeLow) },
+        { label: 'Medium', color: '#f7931a', points: points((s) => s.feeMedium) },
+        { label: 'High', color: '#ff4d6a', points: points((s) => s.feeHigh) },
+    ];
+
+    return (
+        <div className="gas-history">
+            <div className="sub-panel-header">
+                <h3 className="sub-panel-title">Gas &amp; Fee History</h3>
+                <div className="sub-tabs">
+                    {(Object.keys(WINDOWS) as HistoryWindow[]).map((w) => (
+                        <button
+                            key={w}
+                            className={`sub-tab-btn ${range === w ? 'active' : ''}`}
+                            onClick={() => setRange(w)}
+                        >
+                            {w}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {error && (
+                <div className="error-card">
+                    <p>{error}</p>
+                </div>
+            )}
+
+            <div className="gas-history-grid">
+                <LineChart
+                    title="Base Gas"
+                    series={gasSeries}
+                    formatValue={formatInteger}
+                    xDomain={[from, now]}
+                />
+                <LineChart
+                    title="Gas per Sat"
+                    series={gasPerSatSeries}
+                    formatValue={formatInteger}
+                    xDomain={[from, now]}
+                />
+                <LineChart
+                    title="Block Utilization"
+                    series={utilizationSeries}
+                    formatValue={(v) => `${v.toFixed(1)}%`}
+                    xDomain={[from, now]}
+                />
+                <LineChart
+                    title="BTC Fees (sat/vB)"
+                    series={feeSeries}
+                    formatValue={(v) => v.toFixed(v < 10 ? 1 : 0)}
+                    xDomain={[from, now]}
+                />
+            </div>
+        </div>
+    );
+}
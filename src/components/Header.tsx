@@ -1,6 +1,15 @@
-import { useOPNet, OPNetNetworkId } from '../providers/OPNetProvider';
+import { useState } from 'react';
+import { useOPNet } from '../providers/OPNetProvider';
+import { ConnectionStatus } from '../services/rpcConnection';
+import { TabId } from '../providers/RouterProvider';
+import { NetworkManager } from './NetworkManager';
 
-type TabId = 'dashboard' | 'portfolio' | 'explorer';
+const STATUS_LABELS: Record<ConnectionStatus, string> = {
+    connecting: 'Connecting',
+    connected: 'Connected',
+    degraded: 'Degraded',
+    offline: 'Offline',
+};
 
 interface HeaderProps {
     activeTab: TabId;
@@ -14,16 +23,19 @@ interface HeaderProps {
  * @param onTabChange - Callback when tab changes
  */
 export function Header({ activeTab, onTabChange }: HeaderProps) {
-    const { networkId, switchNetwork, isConnected: rpcConnected } = useOPNet();
+    const { networkId, networks, switchNetwork, status, error } = useOPNet();
+    const [managingNetworks, setManagingNetworks] = useState(false);
 
     const handleNetworkChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-        switchNetwork(e.target.value as OPNetNetworkId);
+        switchNetwork(e.target.value);
     };
 
     const tabs: { id: TabId; label: string; icon: string }[] = [
         { id: 'dashboard', label: 'Dashboard', icon: '\u26A1' },
         { id: 'portfolio', label: 'Portfolio', icon: '\uD83D\uDCBC' },
+        { id: 'nfts', label: 'NFTs', icon: '\uD83D\uDDBC' },
         { id: 'explorer', label: 'Explorer', icon: '\uD83D\uDD0D' },
+        { id: 'contracts', label: 'Contracts', icon: '\uD83D\uDCDC' },
     ];
 
     return (
@@ -58,22 +70,39 @@ export function Header({ activeTab, onTabChange }: HeaderProps) {
             <div className="header-controls">
                 <div className="network-selector">
                     <div
-                        className={`status-dot ${rpcConnected ? 'connected' : 'disconnected'}`}
+                        className={`status-dot ${status}`}
+                        title={
+                            error
+                                ? `${STATUS_LABELS[status]}: ${error.message}`
+                                : STATUS_LABELS[status]
+                        }
                     />
                     <select
                         value={networkId}
                         onChange={handleNetworkChange}
                         className="network-select"
                     >
-                        <option value="mainnet">Mainnet</option>
-                        <option value="regtest">Regtest</option>
+                        {networks.map((entry) => (
+                            <option key={entry.id} value={entry.id}>
+                                {entry.label}
+                            </option>
+                        ))}
                     </select>
+                    <button
+                        className="network-manage-btn"
+                        onClick={() => setManagingNetworks(true)}
+                        title="Manage networks"
+                    >
+                        &#x2699;
+                    </button>
                 </div>
                 <div className="live-badge">
                     <span className="live-dot" />
                     LIVE
                 </div>
             </div>
+
+            {managingNetworks && <NetworkManager onClose={() => setManagingNetworks(false)} />}
         </header>
     );
 }
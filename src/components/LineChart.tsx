@@ -0,0 +1,121 @@
+/**
+ * A point on a line chart. `x` is usually a timestamp.
+ */
+export interface ChartPoint {
+    x: number;
+    y: number;
+}
+
+/**
+ * One line on a chart.
+ */
+export interface ChartSeries {
+    label: string;
+    color: string;
+    points: ChartPoint[];
+}
+
+interface LineChartProps {
+    title: string;
+    series: ChartSeries[];
+    formatValue: (value: number) => string;
+    /** Fixed x-axis domain; defaults to the extent of the data. */
+    xDomain?: [number, number];
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const PADDING = 8;
+
+/**
+ * Minimal SVG line chart with a shared y-axis and a legend showing each
+ * series' latest value.
+ *
+ * @param title - Chart heading
+ * @param series - Lines to draw
+ * @param formatValue - Formats axis and legend values
+ * @param xDomain - Optional fixed x-axis range
+ */
+export function LineChart({ title, series, formatValue, xDomain }: LineChartProps) {
+    const all = series.flatMap((s) => s.points);
+    const xs = all.map((p) => p.x);
+    const ys = all.map((p) => p.y);
+
+    const [xMin, xMax] = xDomain ?? [Math.min(...xs), Math.max(...xs)];
+    let yMin = Math.min(...ys);
+    let yMax = Math.max(...ys);
+    if (yMin === yMax) {
+        yMin -= 1;
+        yMax += 1;
+    }
+
+    const scaleX = (x: number) =>
+        xMax === xMin ? WIDTH / 2 : PADDING + ((x - xMin) / (xMax - xMin)) * (WIDTH - 2 * PADDING);
+    const scaleY = (y: number) =>
+        HEIGHT - PADDING - ((y - yMin) / (yMax - yMin)) * (HEIGHT - 2 * PADDING);
+
+    return (
+        <div className="line-chart">
+            <div className="line-chart-header">
+                <span className="line-chart-title">{title}</span>
+                <div className="line-chart-legend">
+                    {series.map((s) => {
+                        const latest = s.points[s.points.length - 1];
+                        return (
+                            <span key={s.label} className="line-chart-legend-item">
+                                <span className="legend-color" style={{ background: s.color }} />
+                                {s.label}
+                                {latest && (
+                                    <span className="line-chart-latest">
+                                        {formatValue(latest.y)}
+                                    </span>
+                                )}
+                            </span>
+                        );
+                    })}
+                </div>
+            </div>
+
+            {all.length === 0 ? (
+                <p className="muted-note line-chart-empty">No samples in this window yet</p>
+            ) : (
+                <div className="line-chart-body">
+                    <div className="line-chart-axis">
+                        <span>{formatValue(yMax)}</span>
+                        <span>{formatValue(yMin)}</span>
+                    </div>
+                    <svg
+                        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                        preserveAspectRatio="none"
+                        className="line-chart-svg"
+                    >
+                        {[0.25, 0.5, 0.75].map((f) => (
+                            <line
+                                key={f}
+                                x1={0}
+                                x2={WIDTH}
+                                y1={HEIGHT * f}
+                                y2={HEIGHT * f}
+                                stroke="rgba(40,40,70,0.6)"
+                                strokeDasharray="4 4"
+                            />
+                        ))}
+                        {series.map((s) => (
+                            <polyline
+                                key={s.label}
+                                fill="none"
+                                stroke={s.color}
+                                strokeWidth="2"
+                                vectorEffect="non-scaling-stroke"
+                                strokeLinejoin="round"
+                                points={s.points
+                                    .map((p) => `${scaleX(p.x)},${scaleY(p.y)}`)
+                                    .join(' ')}
+                            />
+                        ))}
+                    </svg>
+                </div>
+            )}
+        </div>
+    );
+}
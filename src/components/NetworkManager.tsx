@@ -0,0 +1,261 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import {
+    useOPNet,
+    checkRpcHealth,
+    NetworkPresets,
+    NetworkPreset,
+    OPNetNetworkConfig,
+} from '../providers/OPNetProvider';
+
+interface NetworkManagerProps {
+    onClose: () => void;
+}
+
+interface NetworkForm {
+    label: string;
+    url: string;
+    /** Fallback URLs, one per line. */
+    fallbackUrls: string;
+    preset: NetworkPreset;
+}
+
+const EMPTY_FORM: NetworkForm = {
+    label: '',
+    url: '',
+    fallbackUrls: '',
+    preset: 'regtest',
+};
+
+/**
+ * Derives a URL-safe network id from a label, avoiding ids already in use.
+ *
+ * @param label - Display label entered by the user
+ * @param taken - Ids that are already assigned
+ * @returns A unique id
+ */
+function networkIdFromLabel(label: string, taken: string[]): string {
+    const base =
+        label
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-|-$/g, '') || 'network';
+
+    let id = base;
+    for (let i = 2; taken.includes(id); i++) {
+        id = `${base}-${i}`;
+    }
+    return id;
+}
+
+/**
+ * Modal for adding, editing and removing user-defined OPNet networks.
+ * Every URL of an entry, fallbacks included, is health-checked before it is
+ * saved, which also confirms the node is on the selected Bitcoin network.
+ * Rendered into `document.body` so the header's backdrop filter does not clip it.
+ *
+ * @param onClose - Callback to dismiss the modal
+ */
+export function NetworkManager({ onClose }: NetworkManagerProps) {
+    const { networks, customNetworks, saveNetwork, removeNetwork } = useOPNet();
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [form, setForm] = useState(EMPTY_FORM);
+    const [checking, setChecking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const startEdit = (entry: OPNetNetworkConfig) => {
+        setEditingId(entry.id);
+        setForm({
+            label: entry.label,
+            url: entry.url,
+            fallbackUrls: (entry.fallbackUrls ?? []).join('\n'),
+            preset: entry.preset,
+        });
+        setError(null);
+    };
+
+    const resetForm = () => {
+        setEditingId(null);
+        setForm(EMPTY_FORM);
+        setError(null);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const label = form.label.trim();
+        const url = form.url.trim();
+        const fallbackUrls = form.fallbackUrls
+            .split('\n')
+            .map((line) => line.trim())
+            .filter((line) => line && line !== url);
+        if (!label || !url) return;
+
+        for (const candidate of [url, ...fallbackUrls]) {
+            try {
+                new URL(candidate);
+            } catch {
+                setError(`Enter a valid RPC URL (https://...): ${candidate}`);
+                return;
+            }
+        }
+
+        setChecking(true);
+        setError(null);
+        try {
+            for (const candidate of [url, ...fallbackUrls]) {
+                try {
+                    await checkRpcHealth(candidate, form.preset);
+                } catch (err) {
+                    const message = err instanceof Error ? err.message : String(err);
+                    throw new Error(`${candidate}: ${message}`);
+                }
+            }
+
+            const id =
+                editingId ??
+                networkIdFromLabel(
+                    label,
+                    networks.map((n) => n.id),
+                );
+            saveNetwork({
+                id,
+                label,
+                url,
+                ...(fallbackUrls.length > 0 && { fallbackUrls }),
+                preset: form.preset,
+            });
+            resetForm();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            setError(`Health check failed: ${message}`);
+        } finally {
+            setChecking(false);
+        }
+    };
+
+    return createPortal(
+        <div className="modal-backdrop" onClick={onClose}>
+            <div className="modal-panel panel" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h2 className="panel-title">
+                        <span className="panel-icon">&#x1F310;</span>
+                        Networks
+                    </h2>
+                    <button className="remove-btn" onClick={onClose} title="Close">
+                        &#x2715;
+                    </button>
+                </div>
+
+                <div className="network-list">
+                    {networks.map((entry) => {
+                        const custom = customNetworks.some((n) => n.id === entry.id);
+                        return (
+                            <div key={entry.id} className="network-row">
+                                <div className="network-row-info">
+                                    <span className="network-row-label">{entry.label}</span>
+                                    <span className="network-row-url">{entry.url}</span>
+                                    {entry.fallbackUrls && entry.fallbackUrls.length > 0 && (
+                                        <span className="network-row-url">
+                                            + {entry.fallbackUrls.length} fallback
+                                            {entry.fallbackUrls.length !== 1 ? 's' : ''}
+                                        </span>
+                                    )}
+                                </div>
+                                <span className="network-row-preset">{entry.preset}</span>
+                                {custom ? (
+                                    <div className="network-row-actions">
+                                        <button
+                                            className="btn btn-outline btn-sm"
+                                            onClick={() => startEdit(entry)}
+                                        >
+                                            Edit
+                                        </button>
+                                        <button
+                                            className="remove-btn"
+                                            onClick={() => removeNetwork(entry.id)}
+                                            title="Remove network"
+                                        >
+                                            &#x2715;
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <span className="network-row-builtin">built-in</span>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <form className="network-form" onSubmit={(e) => void handleSave(e)}>
+                    <h3 className="sub-panel-title">
+                        {editingId ? 'Edit Network' : 'Add Network'}
+                    </h3>
+                    <input
+                        type="text"
+                        className="search-input"
+                        placeholder="Label (e.g. Team Regtest Node)"
+                        value={form.label}
+                        onChange={(e) => setForm({ ...form, label: e.target.value })}
+                        disabled={checking}
+                    />
+                    <input
+                        type="text"
+                        className="search-input"
+                        placeholder="RPC URL (https://...)"
+                        value={form.url}
+                        onChange={(e) => setForm({ ...form, url: e.target.value })}
+                        disabled={checking}
+                    />
+                    <textarea
+                        className="search-input network-fallback-input"
+                        placeholder="Fallback RPC URLs, one per line (optional)"
+                        rows={2}
+                        value={form.fallbackUrls}
+                        onChange={(e) => setForm({ ...form, fallbackUrls: e.target.value })}
+                        disabled={checking}
+                    />
+                    <div className="network-form-row">
+                        <select
+                            className="network-select network-preset-select"
+                            value={form.preset}
+                            onChange={(e) =>
+                                setForm({ ...form, preset: e.target.value as NetworkPreset })
+                            }
+                            disabled={checking}
+                        >
+                            {Object.keys(NetworkPresets).map((preset) => (
+                                <option key={preset} value={preset}>
+                                    {preset}
+                                </option>
+                            ))}
+                        </select>
+                        {editingId && (
+                            <button
+                                type="button"
+                                className="btn btn-outline"
+                                onClick={resetForm}
+                                disabled={checking}
+                            >
+                                Cancel
+                            </button>
+                        )}
+                        <button
+                            type="submit"
+                            className="btn btn-primary"
+                            disabled={checking || !form.label.trim() || !form.url.trim()}
+                        >
+                            {checking ? 'Checking...' : 'Save'}
+                        </button>
+                    </div>
+                </form>
+
+                {error && (
+                    <div className="error-card">
+                        <p>{error}</p>
+                    </div>
+                )}
+            </div>
+        </div>,
+        document.body,
+    );
+}
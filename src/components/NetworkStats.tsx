@@ -1,22 +1,14 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { Block, BlockGasParameters } from 'opnet';
 import { useOPNet } from '../providers/OPNetProvider';
-
-interface GasData {
-    blockNumber: bigint;
-    gasUsed: bigint;
-    targetGasLimit: bigint;
-    baseGas: bigint;
-    gasPerSat: bigint;
-    ema: bigint;
-    bitcoin: {
-        conservative: number;
-        recommended: {
-            low: number;
-            medium: number;
-            high: number;
-        };
-    };
-}
+import { useBlockSubscription } from '../hooks/useBlockSubscription';
+import { useRouter } from '../providers/RouterProvider';
+import { recordGasSample, GasSample } from '../services/gasHistory';
+import { BlockHead } from '../services/blockFeed';
+import { connectBlocks, getReorgs, ReorgEvent, trackBlocks } from '../services/chainTracker';
+import { timeAgo } from '../utils/format';
+import { GasHistory } from './GasHistory';
+import { CostEstimator } from './CostEstimator';
 
 interface BlockData {
     height: bigint;
@@ -27,118 +19,167 @@ interface BlockData {
     size: number;
 }
 
+/** Number of blocks kept in the recent blocks feed. */
+const RECENT_BLOCK_COUNT = 6;
+
+/** Number of reorg events listed under the feed. */
+const MAX_REORGS_SHOWN = 3;
+
 /**
- * Formats a bigint to a compact human-readable string.
+ * Picks the fields shown in the feed from a block.
  *
- * @param value - The bigint value to format
- * @returns Formatted string with commas
+ * @param block - Block returned by the RPC
+ * @returns Display data for the block
  */
-function formatBigInt(value: bigint): string {
-    return value.toLocaleString();
+function toBlockData(block: Block): BlockData {
+    return {
+        height: BigInt(block.height),
+        hash: block.hash,
+        time: block.time,
+        txCount: block.txCount,
+        gasUsed: block.gasUsed,
+        size: block.size,
+    };
 }
 
 /**
- * Formats a Unix timestamp to a relative "time ago" string.
+ * Formats a bigint to a compact human-readable string.
  *
- * @param unixTimestamp - Unix timestamp in seconds
- * @returns Human-readable relative time string
+ * @param value - The bigint value to format
+ * @returns Formatted string with commas
  */
-function timeAgo(unixTimestamp: number): string {
-    const seconds = Math.floor(Date.now() / 1000) - unixTimestamp;
-    if (seconds < 60) return `${seconds}s ago`;
-    if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
-    return `${Math.floor(seconds / 3600)}h ago`;
+function formatBigInt(value: bigint): string {
+    return value.toLocaleString();
 }
 
 /**
  * Network statistics panel showing live blockchain data.
- * Auto-refreshes block height, gas parameters, and fee estimates.
+ * Refreshes gas parameters and fee estimates whenever the block feed announces
+ * a new tip, fetching only the blocks the feed has not shown yet. Every block is
+ * checked against the recently seen chain; reorgs are listed and the replaced
+ * blocks stay in the feed, struck through.
+ * Each gas sample is persisted per network and charted over time.
+ * Blocks in the feed open the block detail view.
  */
 export function NetworkStats() {
-    const { provider, isConnected, networkId } = useOPNet();
+    const { provider, isConnected, status, networkId, reportRpcFailure } = useOPNet();
+    const { navigate } = useRouter();
     const [blockHeight, setBlockHeight] = useState<bigint | null>(null);
-    const [gasData, setGasData] = useState<GasData | null>(null);
+    const [gasData, setGasData] = useState<BlockGasParameters | null>(null);
     const [latestBlock, setLatestBlock] = useState<BlockData | null>(null);
     const [recentBlocks, setRecentBlocks] = useState<BlockData[]>([]);
     const [lastUpdate, setLastUpdate] = useState<number>(0);
     const [pulseBlock, setPulseBlock] = useState(false);
-    const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+    const [latestSample, setLatestSample] = useState<GasSample | null>(null);
+    const [refreshError, setRefreshError] = useState<string | null>(null);
+    const [reorgs, setReorgs] = useState<ReorgEvent[]>(() => getReorgs(networkId));
+    const recentRef = useRef<BlockData[]>([]);
+    const generationRef = useRef(0);
+    const pulseTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+    useEffect(() => {
+        generationRef.current += 1;
+        recentRef.current = [];
+        setBlockHeight(null);
+        setGasData(null);
+        setLatestBlock(null);
+        setRecentBlocks([]);
+        setLastUpdate(0);
+        setRefreshError(null);
+        setReorgs(getReorgs(networkId));
+    }, [networkId]);
 
-    const fetchData = useCallback(async () => {
-        if (!provider || !isConnected) return;
+    useEffect(() => () => clearTimeout(pulseTimerRef.current), []);
 
-        try {
-            const [height, gas] = await Promise.all([
-                provider.getBlockNumber(),
-                provider.gasParameters(),
-            ]);
+    const handleNewBlock = async (head: BlockHead) => {
+        if (!provider) return;
 
-            const heightChanged = blockHeight !== null && height !== blockHeight;
-            setBlockHeight(height);
-            setGasData(gas as unknown as GasData);
-            setLastUpdate(Date.now());
+        const { height } = head;
+        const generation = generationRef.current;
+        const newest = recentRef.current[0]?.height ?? -1n;
+        const oldestWanted = height - BigInt(RECENT_BLOCK_COUNT - 1);
+        let from = newest + 1n > oldestWanted ? newest + 1n : oldestWanted;
 
-            if (heightChanged) {
-                setPulseBlock(true);
-                setTimeout(() => setPulseBlock(false), 1000);
+        // A tip we already show with another hash, or a lower tip, may be a reorg
+        if (height <= newest) {
+            const shown = recentRef.current.find((b) => b.height === height);
+            if (height < newest || (head.hash !== null && shown?.hash !== head.hash)) {
+                from = height;
             }
+        }
 
-            const block = await provider.getBlock(height);
-            const blockData: BlockData = {
-                height: BigInt(block.height),
-                hash: block.hash,
-                time: block.time,
-                txCount: block.txCount,
-                gasUsed: block.gasUsed,
-                size: block.size,
-            };
-            setLatestBlock(blockData);
+        const heights: bigint[] = [];
+        for (let h = height; h >= from && h >= 0n; h--) {
+            heights.push(h);
+        }
 
-            const blockNumbers: bigint[] = [];
-            for (let i = 0; i < 6; i++) {
-                const num = height - BigInt(i);
-                if (num >= 0n) {
-                    blockNumbers.push(num);
-                }
-            }
+        try {
+            const [gas, blocks] = await Promise.all([
+                provider.gasParameters(),
+                heights.length > 0 ? provider.getBlocks(heights) : Promise.resolve([]),
+            ]);
+            const connected = await connectBlocks(provider, networkId, blocks);
+            if (generationRef.current !== generation) return;
 
-            if (blockNumbers.length > 0) {
-                const blocks = await provider.getBlocks(blockNumbers);
-                setRecentBlocks(
-                    blocks.map((b) => ({
-                        height: BigInt(b.height),
-                        hash: b.hash,
-                        time: b.time,
-                        txCount: b.txCount,
-                        gasUsed: b.gasUsed,
-                        size: b.size,
-                    })),
-                );
+            const reorg = trackBlocks(networkId, connected);
+            if (reorg) {
+                setReorgs(getReorgs(networkId));
             }
-        } catch {
-            // Silently retry on next interval
-        }
-    }, [provider, isConnected, blockHeight]);
 
-    useEffect(() => {
-        void fetchData();
+            // Another head may have landed while this one was loading
+            const previous = recentRef.current;
+            const fetched = connected.map(toBlockData);
+            const merged = [
+                ...fetched,
+                ...previous.filter(
+                    (b) =>
+                        !fetched.some((f) => f.height === b.height) &&
+                        !reorg?.orphaned.some((o) => o.hash === b.hash),
+                ),
+            ]
+                .sort((a, b) => (a.height > b.height ? -1 : 1))
+                .slice(0, RECENT_BLOCK_COUNT);
+            recentRef.current = merged;
+
+            setBlockHeight(merged[0]?.height ?? height);
+            setGasData(gas);
+            setRecentBlocks(merged);
+            setLatestBlock(merged[0] ?? null);
+            setLastUpdate(Date.now());
+            setRefreshError(null);
 
-        intervalRef.current = setInterval(() => {
-            void fetchData();
-        }, 10000);
+            recordGasSample(networkId, gas)
+                .then((sample) => {
+                    if (sample) setLatestSample(sample);
+                })
+                .catch(() => {
+                    // History is best-effort; IndexedDB may be unavailable
+                });
 
-        return () => {
-            if (intervalRef.current) {
-                clearInterval(intervalRef.current);
+            if (previous.length > 0 && fetched.length > 0) {
+                setPulseBlock(true);
+                clearTimeout(pulseTimerRef.current);
+                pulseTimerRef.current = setTimeout(() => setPulseBlock(false), 1000);
             }
-        };
-    }, [fetchData]);
+        } catch (err) {
+            if (generationRef.current !== generation) return;
+            const message = err instanceof Error ? err.message : String(err);
+            setRefreshError(`Failed to load block #${height.toString()}: ${message}`);
+            reportRpcFailure();
+        }
+    };
+
+    useBlockSubscription((head) => void handleNewBlock(head));
 
     if (!isConnected) {
         return (
             <div className="stats-panel loading-panel">
                 <div className="loading-spinner" />
-                <p className="loading-text">Connecting to OPNet {networkId}...</p>
+                <p className="loading-text">
+                    {status === 'offline'
+                        ? `OPNet ${networkId} is unreachable`
+                        : `Connecting to OPNet ${networkId}...`}
+                </p>
             </div>
         );
     }
@@ -157,15 +198,19 @@ export function NetworkStats() {
                 )}
             </div>
 
+            {refreshError && (
+                <div className="error-card stats-error">
+                    <p>{refreshError}</p>
+                </div>
+            )}
+
             <div className="stats-grid-main">
                 <div className={`stat-card-lg ${pulseBlock ? 'pulse' : ''}`}>
                     <span className="stat-label">Block Height</span>
                     <span className="stat-value-lg">
                         {blockHeight !== null ? `#${formatBigInt(blockHeight)}` : '---'}
                     </span>
-                    {latestBlock && (
-                        <span className="stat-sub">{timeAgo(latestBlock.time)}</span>
-                    )}
+                    {latestBlock && <span className="stat-sub">{timeAgo(latestBlock.time)}</span>}
                 </div>
 
                 <div className="stat-card-lg">
@@ -213,9 +258,19 @@ export function NetworkStats() {
                 </div>
             </div>
 
+            {gasData && <CostEstimator gas={gasData} />}
+
             {latestBlock && (
                 <div className="latest-block-detail">
-                    <h3 className="sub-panel-title">Latest Block</h3>
+                    <div className="sub-panel-header">
+                        <h3 className="sub-panel-title">Latest Block</h3>
+                        <button
+                            className="card-link-btn"
+                            onClick={() => navigate({ view: 'block', height: latestBlock.height })}
+                        >
+                            View details &#x2192;
+                        </button>
+                    </div>
                     <div className="block-detail-grid">
                         <div className="block-detail-item">
                             <span className="detail-label">Hash</span>
@@ -247,18 +302,55 @@ export function NetworkStats() {
                 <div className="recent-blocks">
                     <h3 className="sub-panel-title">Recent Blocks</h3>
                     <div className="blocks-feed">
-                        {recentBlocks.map((block) => (
-                            <div key={block.hash} className="block-chip">
+                        {recentBlocks.flatMap((block) => [
+                            <div
+                                key={block.hash}
+                                className="block-chip"
+                                role="button"
+                                tabIndex={0}
+                                onClick={() => navigate({ view: 'block', height: block.height })}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') {
+                                        navigate({ view: 'block', height: block.height });
+                                    }
+                                }}
+                            >
                                 <span className="block-chip-height">
                                     #{block.height.toString()}
                                 </span>
-                                <span className="block-chip-txs">
-                                    {block.txCount} txs
-                                </span>
+                                <span className="block-chip-txs">{block.txCount} txs</span>
                                 <span className="block-chip-time">{timeAgo(block.time)}</span>
-                            </div>
-                        ))}
+                            </div>,
+                            ...reorgs
+                                .flatMap((reorg) => reorg.orphaned)
+                                .filter((link) => link.height === block.height)
+                                .map((link) => (
+                                    <div
+                                        key={`orphaned-${link.hash}`}
+                                        className="block-chip orphaned"
+                                        title={`Orphaned block ${link.hash}`}
+                                    >
+                                        <span className="block-chip-height">
+                                            #{link.height.toString()}
+                                        </span>
+                                        <span className="block-chip-txs">
+                                            {link.hash.slice(0, 8)}...
+                                        </span>
+                                        <span className="block-chip-time">orphaned</span>
+                                    </div>
+                                )),
+                        ])}
                     </div>
+                    {reorgs.length > 0 && (
+                        <ul className="reorg-list">
+                            {reorgs.slice(0, MAX_REORGS_SHOWN).map((reorg) => (
+                                <li key={`${reorg.detectedAt}-${reorg.forkHeight}`}>
+                                    Reorg at #{reorg.forkHeight.toString()} · depth {reorg.depth} ·{' '}
+                                    {timeAgo(Math.floor(reorg.detectedAt / 1000))}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
                 </div>
             )}
 
@@ -279,6 +371,8 @@ export function NetworkStats() {
                     </div>
                 </div>
             )}
+
+            <GasHistory networkId={networkId} latest={latestSample} />
         </div>
     );
 }
@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react';
+import { useOPNet } from '../providers/OPNetProvider';
+import { useNftService } from '../hooks/useNftService';
+import { CollectionInfo } from '../services/nftService';
+import { shortenHash } from '../utils/format';
+import { TokenLogo } from './TokenLogo';
+import { NftMetadataView } from './NftMetadataView';
+
+interface NftCollectionProps {
+    contractAddress: string;
+}
+
+/**
+ * Result of looking up a single token of the collection.
+ */
+interface TokenLookup {
+    tokenId: bigint;
+    owner: string | null;
+    ownerError: string | null;
+    uri: string | null;
+    uriError: string | null;
+}
+
+function errorMessage(result: PromiseRejectedResult): string {
+    const err: unknown = result.reason;
+    return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Explorer view of an OP721 collection: name, symbol and supply, plus a
+ * lookup of any token's owner and URI metadata.
+ *
+ * @param contractAddress - OP721 contract address
+ */
+export function NftCollection({ contractAddress }: NftCollectionProps) {
+    const { isConnected } = useOPNet();
+    const nftService = useNftService();
+    const [info, setInfo] = useState<CollectionInfo | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [tokenIdInput, setTokenIdInput] = useState('');
+    const [lookup, setLookup] = useState<TokenLookup | null>(null);
+    const [lookingUp, setLookingUp] = useState(false);
+
+    useEffect(() => {
+        if (!nftService || !isConnected) return;
+
+        let cancelled = false;
+        setError(null);
+        nftService.getCollectionInfo(contractAddress).then(
+            (result) => {
+                if (!cancelled) setInfo(result);
+            },
+            (err: unknown) => {
+                if (cancelled) return;
+                const message = err instanceof Error ? err.message : String(err);
+                setError(`Failed to load collection: ${message}`);
+            },
+        );
+
+        return () => {
+            cancelled = true;
+        };
+    }, [nftService, isConnected, contractAddress]);
+
+    const handleLookup = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const raw = tokenIdInput.trim();
+        if (!nftService || !/^\d+$/.test(raw)) {
+            setLookup(null);
+            setError('Token id must be a non-negative integer');
+            return;
+        }
+
+        const tokenId = BigInt(raw);
+        setError(null);
+        setLookingUp(true);
+
+        const [owner, uri] = await Promise.allSettled([
+            nftService.getOwnerOf(contractAddress, tokenId),
+            nftService.getTokenUri(contractAddress, tokenId),
+        ]);
+
+        setLookup({
+            tokenId,
+            owner: owner.status === 'fulfilled' ? owner.value.toHex() : null,
+            ownerError: owner.status === 'rejected' ? errorMessage(owner) : null,
+            uri: uri.status === 'fulfilled' ? uri.value : null,
+            uriError: uri.status === 'rejected' ? errorMessage(uri) : null,
+        });
+        setLookingUp(false);
+    };
+
+    if (!info) {
+        return error ? (
+            <div className="error-card">
+                <p>{error}</p>
+            </div>
+        ) : (
+            <p className="rpc-status">Loading collection...</p>
+        );
+    }
+
+    return (
+        <div className="token-details nft-collection">
+            <div className="token-hero">
+                <div className="token-hero-left">
+                    <div className="token-identity">
+                        <TokenLogo
+                            symbol={info.symbol}
+                            logoURI={info.icon}
+                            className="token-symbol-badge"
+                            symbolLength={4}
+                        />
+                        <div>
+                            <h3 className="token-name">
+                                {info.name} <span className="contract-type-badge">OP721</span>
+                            </h3>
+                            <span className="token-address-mini" title={contractAddress}>
+                                {contractAddress.slice(0, 14)}...{contractAddress.slice(-6)}
+                            </span>
+                        </div>
+                    </div>
+
+                    {info.description && <p className="nft-description">{info.description}</p>}
+                    {info.website && /^https?:\/\//.test(info.website) && (
+                        <a
+                            href={info.website}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="card-link-btn"
+                        >
+                            {info.website}
+                        </a>
+                    )}
+
+                    <div className="token-stats-grid">
+                        <div className="token-stat">
+                            <span className="stat-label">Symbol</span>
+                            <span className="token-stat-value">{info.symbol}</span>
+                        </div>
+                        <div className="token-stat">
+                            <span className="stat-label">Minted</span>
+                            <span className="token-stat-value">
+                                {info.totalSupply.toLocaleString()}
+                            </span>
+                        </div>
+                        <div className="token-stat">
+                            <span className="stat-label">Max Supply</span>
+                            <span className="token-stat-value">
+                                {info.maxSupply.toLocaleString()}
+                            </span>
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            <form className="search-form nft-lookup-form" onSubmit={(e) => void handleLookup(e)}>
+                <input
+                    type="text"
+                    inputMode="numeric"
+                    className="search-input"
+                    placeholder="Token id"
+                    value={tokenIdInput}
+                    onChange={(e) => setTokenIdInput(e.target.value)}
+                />
+                <button type="submit" className="btn btn-primary" disabled={lookingUp}>
+                    {lookingUp ? 'Looking up...' : 'Look up'}
+                </button>
+            </form>
+
+            {error && (
+                <div className="error-card">
+                    <p>{error}</p>
+                </div>
+            )}
+
+            {lookup && (
+                <div className="nft-lookup">
+                    <div className="nft-lookup-fields">
+                        <span className="stat-label">Token</span>
+                        <span className="mono">#{lookup.tokenId.toString()}</span>
+                        <span className="stat-label">Owner</span>
+                        {lookup.owner ? (
+                            <span className="mono" title={lookup.owner}>
+                                {shortenHash(lookup.owner)}
+                            </span>
+                        ) : (
+                            <span className="nft-lookup-error">{lookup.ownerError}</span>
+                        )}
+                        <span className="stat-label">Token URI</span>
+                        {lookup.uri !== null ? (
+                            <span className="mono nft-uri" title={lookup.uri}>
+                                {shortenHash(lookup.uri, 32, 12)}
+                            </span>
+                        ) : (
+                            <span className="nft-lookup-error">{lookup.uriError}</span>
+                        )}
+                    </div>
+                    {lookup.uri && (
+                        <NftMetadataView
+                            uri={lookup.uri}
+                            fallbackName={`${info.name} #${lookup.tokenId.toString()}`}
+                        />
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
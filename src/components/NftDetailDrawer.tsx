@@ -0,0 +1,73 @@
+import { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { shortenHash } from '../utils/format';
+import { NftMetadataView } from './NftMetadataView';
+
+interface NftDetailDrawerProps {
+    collectionName: string;
+    collectionAddress: string;
+    tokenId: bigint;
+    uri: string | null;
+    onClose: () => void;
+}
+
+/**
+ * Side drawer with the full metadata of one NFT.
+ *
+ * @param collectionName - Name of the collection
+ * @param collectionAddress - Collection contract address
+ * @param tokenId - Token id
+ * @param uri - Token URI, null if the contract returned none
+ * @param onClose - Called when the drawer is dismissed
+ */
+export function NftDetailDrawer({
+    collectionName,
+    collectionAddress,
+    tokenId,
+    uri,
+    onClose,
+}: NftDetailDrawerProps) {
+    useEffect(() => {
+        const handleKey = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKey);
+        return () => window.removeEventListener('keydown', handleKey);
+    }, [onClose]);
+
+    const title = `${collectionName} #${tokenId.toString()}`;
+
+    return createPortal(
+        <div className="modal-backdrop drawer-backdrop" onClick={onClose}>
+            <aside
+                className="drawer-panel panel"
+                role="dialog"
+                aria-label={title}
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="modal-header">
+                    <h2 className="panel-title">{title}</h2>
+                    <button className="remove-btn" onClick={onClose} title="Close">
+                        &#x2715;
+                    </button>
+                </div>
+
+                <NftMetadataView uri={uri} fallbackName={title} />
+
+                <div className="nft-lookup-fields drawer-fields">
+                    <span className="stat-label">Collection</span>
+                    <span className="mono" title={collectionAddress}>
+                        {shortenHash(collectionAddress)}
+                    </span>
+                    <span className="stat-label">Token ID</span>
+                    <span className="mono">{tokenId.toString()}</span>
+                    <span className="stat-label">Token URI</span>
+                    <span className="mono nft-uri" title={uri ?? undefined}>
+                        {uri ? shortenHash(uri, 32, 12) : 'none'}
+                    </span>
+                </div>
+            </aside>
+        </div>,
+        document.body,
+    );
+}
@@ -0,0 +1,430 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useWalletConnect } from '@btc-vision/walletconnect';
+import { useOPNet } from '../providers/OPNetProvider';
+import { useTokenService } from '../hooks/useTokenService';
+import { useNftService } from '../hooks/useNftService';
+import { useNftMetadata } from '../hooks/useNftMetadata';
+import { OwnedNft, OwnedNfts } from '../services/nftService';
+import { AddressIssue, validateAddress } from '../utils/address';
+import { loadStored, saveStored, storageKey } from '../utils/storage';
+import { AddressIssueCard } from './AddressIssueCard';
+import { NftDetailDrawer } from './NftDetailDrawer';
+import { TokenLogo } from './TokenLogo';
+
+/**
+ * OP721 collection tracked by the user. Name, symbol and icon are kept so the
+ * gallery can be labeled while the RPC is unreachable.
+ */
+interface TrackedCollection {
+    address: string;
+    name: string;
+    symbol: string;
+    icon: string;
+}
+
+/** Holdings as saved in localStorage; bigints are stored as decimal strings. */
+interface StoredHoldings {
+    balance: string;
+    tokens: { tokenId: string; uri: string | null }[];
+}
+
+/**
+ * Holdings shown for a collection. `stale` marks a saved snapshot used because
+ * the chain could not be read.
+ */
+interface CollectionHoldings extends OwnedNfts {
+    stale: boolean;
+}
+
+interface SelectedNft {
+    collection: TrackedCollection;
+    token: OwnedNft;
+}
+
+function toStored(holdings: OwnedNfts): StoredHoldings {
+    return {
+        balance: holdings.balance.toString(),
+        tokens: holdings.tokens.map((t) => ({ tokenId: t.tokenId.toString(), uri: t.uri })),
+    };
+}
+
+function fromStored(stored: StoredHoldings): OwnedNfts {
+    return {
+        balance: BigInt(stored.balance),
+        tokens: stored.tokens.map((t) => ({ tokenId: BigInt(t.tokenId), uri: t.uri })),
+        failed: 0,
+    };
+}
+
+/**
+ * Grid card of one NFT with its metadata image, or a placeholder when the
+ * metadata cannot be resolved.
+ *
+ * @param collection - Collection the token belongs to
+ * @param token - Owned token
+ * @param onOpen - Called when the card is clicked
+ */
+function NftCard({
+    collection,
+    token,
+    onOpen,
+}: {
+    collection: TrackedCollection;
+    token: OwnedNft;
+    onOpen: () => void;
+}) {
+    const { metadata, error } = useNftMetadata(token.uri);
+    const [failedImage, setFailedImage] = useState<string | null>(null);
+    const fallbackName = `${collection.symbol} #${token.tokenId.toString()}`;
+    const image = metadata?.image && metadata.image !== failedImage ? metadata.image : null;
+
+    return (
+        <button className="nft-card" onClick={onOpen}>
+            <div className="nft-card-image">
+                {image ? (
+                    <img
+                        src={image}
+                        alt={metadata?.name ?? fallbackName}
+                        loading="lazy"
+                        onError={() => setFailedImage(image)}
+                    />
+                ) : (
+                    <span className="nft-image-placeholder">
+                        {metadata || error || token.uri === null
+                            ? `#${token.tokenId.toString()}`
+                            : 'Loading...'}
+                    </span>
+                )}
+            </div>
+            <div className="nft-card-body">
+                <span className="nft-card-name">{metadata?.name ?? fallbackName}</span>
+                {metadata && metadata.attributes.length > 0 && (
+                    <span className="muted-note">
+                        {metadata.attributes.length} trait
+                        {metadata.attributes.length !== 1 ? 's' : ''}
+                    </span>
+                )}
+                {(error || token.uri === null) && (
+                    <span className="muted-note">Metadata unavailable</span>
+                )}
+            </div>
+        </button>
+    );
+}
+
+/**
+ * NFT gallery for the connected wallet.
+ * Lists the wallet's tokens in each tracked OP721 collection as a grid of
+ * metadata images, with a detail drawer per item. Tracked collections are
+ * persisted per network; the last holdings read per wallet are kept so the
+ * gallery still renders when the RPC or metadata hosts are unreachable.
+ */
+export function NftGallery() {
+    const { network, networkId, isConnected } = useOPNet();
+    const tokenService = useTokenService();
+    const nftService = useNftService();
+    const { address: walletAddressObj, walletAddress, openConnectModal } = useWalletConnect();
+
+    const collectionsKey = storageKey('nft-collections', networkId);
+    const holdingsKey = walletAddress ? storageKey('nft-holdings', networkId, walletAddress) : null;
+
+    const [collections, setCollections] = useState<TrackedCollection[]>(() =>
+        loadStored<TrackedCollection[]>(collectionsKey, []),
+    );
+    const [holdings, setHoldings] = useState<Record<string, CollectionHoldings>>({});
+    const [loadErrors, setLoadErrors] = useState<Record<string, string>>({});
+    const [loading, setLoading] = useState(false);
+    const [refreshCount, setRefreshCount] = useState(0);
+    const [inputAddr, setInputAddr] = useState('');
+    const [adding, setAdding] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [addressIssue, setAddressIssue] = useState<AddressIssue | null>(null);
+    const [selected, setSelected] = useState<SelectedNft | null>(null);
+
+    useEffect(() => {
+        setCollections(loadStored<TrackedCollection[]>(collectionsKey, []));
+        setError(null);
+        setAddressIssue(null);
+        setSelected(null);
+    }, [collectionsKey]);
+
+    useEffect(() => {
+        setHoldings({});
+        setLoadErrors({});
+        if (!holdingsKey || !walletAddressObj || collections.length === 0) return;
+
+        const saved = loadStored<Record<string, StoredHoldings>>(holdingsKey, {});
+        const fromSnapshot = (address: string): CollectionHoldings | null => {
+            const snapshot = saved[address];
+            return snapshot ? { ...fromStored(snapshot), stale: true } : null;
+        };
+
+        if (!nftService || !isConnected) {
+            const offline: Record<string, CollectionHoldings> = {};
+            for (const c of collections) {
+                const snapshot = fromSnapshot(c.address);
+                if (snapshot) offline[c.address] = snapshot;
+            }
+            setHoldings(offline);
+            return;
+        }
+
+        let cancelled = false;
+        setLoading(true);
+
+        void Promise.allSettled(
+            collections.map((c) => nftService.getOwnedTokens(c.address, walletAddressObj)),
+        ).then((results) => {
+            if (cancelled) return;
+
+            const next: Record<string, CollectionHoldings> = {};
+            const errors: Record<string, string> = {};
+            const toSave: Record<string, StoredHoldings> = { ...saved };
+
+            results.forEach((result, i) => {
+                const collection = collections[i];
+                if (!collection) return;
+
+                if (result.status === 'fulfilled') {
+                    next[collection.address] = { ...result.value, stale: false };
+                    toSave[collection.address] = toStored(result.value);
+                } else {
+                    const err: unknown = result.reason;
+                    errors[collection.address] = err instanceof Error ? err.message : String(err);
+                    const snapshot = fromSnapshot(collection.address);
+                    if (snapshot) next[collection.address] = snapshot;
+                }
+            });
+
+            saveStored(holdingsKey, toSave);
+            setHoldings(next);
+            setLoadErrors(errors);
+            setLoading(false);
+        });
+
+        return () => {
+            cancelled = true;
+            setLoading(false);
+        };
+    }, [holdingsKey, walletAddressObj, collections, nftService, isConnected, refreshCount]);
+
+    const addCollection = useCallback(
+        async (e: React.FormEvent) => {
+            e.preventDefault();
+            const addr = inputAddr.trim();
+            if (!addr || !tokenService || !nftService || !isConnected) return;
+
+            const issue = validateAddress(addr, network, 'contract');
+            setAddressIssue(issue);
+            if (issue) return;
+
+            const stored = loadStored<TrackedCollection[]>(collectionsKey, []);
+            if (stored.some((c) => c.address === addr)) {
+                setError('Collection already tracked');
+                return;
+            }
+
+            setAdding(true);
+            setError(null);
+
+            try {
+                const type = await tokenService.getContractType(addr);
+                if (type !== 'op721') {
+                    setError(
+                        type === 'op20'
+                            ? 'This is an OP20 token; add it in the Portfolio tab instead'
+                            : 'Not an OP721 collection: the contract is not a recognized standard',
+                    );
+                    return;
+                }
+
+                const info = await nftService.getCollectionInfo(addr);
+                const next = [
+                    ...stored,
+                    { address: addr, name: info.name, symbol: info.symbol, icon: info.icon },
+                ];
+                saveStored(collectionsKey, next);
+                setCollections(next);
+                setInputAddr('');
+            } catch (err) {
+                const msg = err instanceof Error ? err.message : String(err);
+                setError(`Failed to load collection: ${msg}`);
+            } finally {
+                setAdding(false);
+            }
+        },
+        [inputAddr, tokenService, nftService, isConnected, network, collectionsKey],
+    );
+
+    const removeCollection = (address: string) => {
+        const next = collections.filter((c) => c.address !== address);
+        saveStored(collectionsKey, next);
+        setCollections(next);
+        if (selected?.collection.address === address) {
+            setSelected(null);
+        }
+    };
+
+    const closeDrawer = useCallback(() => setSelected(null), []);
+
+    const ownedCount = Object.values(holdings).reduce((sum, h) => sum + h.balance, 0n);
+
+    return (
+        <div className="nft-gallery panel">
+            <div className="panel-header">
+                <h2 className="panel-title">
+                    <span className="panel-icon">{'\uD83D\uDDBC'}</span>
+                    NFT Gallery
+                </h2>
+                <p className="panel-desc">OP721 tokens held by your wallet</p>
+            </div>
+
+            {walletAddress ? (
+                <div className="portfolio-wallet-bar">
+                    <div className="status-dot connected" />
+                    <span className="portfolio-addr" title={walletAddress}>
+                        {walletAddress.slice(0, 12)}...{walletAddress.slice(-6)}
+                    </span>
+                    <span className="portfolio-count">
+                        {ownedCount.toLocaleString()} NFT{ownedCount !== 1n ? 's' : ''} in{' '}
+                        {collections.length} collection{collections.length !== 1 ? 's' : ''}
+                    </span>
+                    <button
+                        className="btn btn-outline btn-sm"
+                        onClick={() => setRefreshCount((n) => n + 1)}
+                        disabled={loading || !isConnected}
+                    >
+                        {loading ? 'Loading...' : 'Refresh'}
+                    </button>
+                </div>
+            ) : (
+                <div className="portfolio-connect">
+                    <h3 className="connect-title">Connect Your Wallet</h3>
+                    <p className="connect-desc">
+                        Connect your OP_WALLET to see the NFTs you hold in your tracked collections.
+                    </p>
+                    <button
+                        className="btn btn-primary btn-lg"
+                        onClick={() => void openConnectModal()}
+                    >
+                        Connect Wallet
+                    </button>
+                </div>
+            )}
+
+            <form className="portfolio-add-form" onSubmit={(e) => void addCollection(e)}>
+                <input
+                    type="text"
+                    className="search-input"
+                    placeholder="Track OP721 collection by contract address (bc1p...)"
+                    value={inputAddr}
+                    onChange={(e) => setInputAddr(e.target.value)}
+                    disabled={adding}
+                />
+                <button type="submit" className="btn btn-primary" disabled={adding || !isConnected}>
+                    {adding ? 'Adding...' : 'Track'}
+                </button>
+            </form>
+
+            {addressIssue && <AddressIssueCard issue={addressIssue} />}
+
+            {error && (
+                <div className="error-card">
+                    <p>{error}</p>
+                </div>
+            )}
+
+            {collections.length === 0 && (
+                <div className="empty-state">
+                    <span className="empty-icon">{'\uD83D\uDDBC'}</span>
+                    <h3>No Collections Tracked</h3>
+                    <p>Add OP721 collection addresses above to browse the NFTs you own.</p>
+                </div>
+            )}
+
+            {collections.map((collection) => {
+                const held = holdings[collection.address];
+                const loadError = loadErrors[collection.address];
+                return (
+                    <section key={collection.address} className="nft-collection-section">
+                        <div className="nft-collection-header">
+                            <TokenLogo
+                                symbol={collection.symbol}
+                                logoURI={collection.icon}
+                                className="portfolio-badge nft-collection-badge"
+                                symbolLength={3}
+                            />
+                            <div>
+                                <span className="portfolio-token-name">{collection.name}</span>
+                                <span className="portfolio-token-symbol">{collection.symbol}</span>
+                            </div>
+                            {held && (
+                                <span className="portfolio-count">
+                                    {held.balance.toLocaleString()} owned
+                                    {held.tokens.length < Number(held.balance) &&
+                                        `, showing ${held.tokens.length}`}
+                                </span>
+                            )}
+                            <button
+                                className="remove-btn"
+                                onClick={() => removeCollection(collection.address)}
+                                title="Stop tracking collection"
+                            >
+                                &#x2715;
+                            </button>
+                        </div>
+
+                        {held?.stale && (
+                            <p className="muted-note nft-stale-note">
+                                Showing holdings saved earlier
+                                {loadError ? `: ${loadError}` : ' while offline'}
+                            </p>
+                        )}
+                        {held && held.failed > 0 && (
+                            <p className="muted-note nft-stale-note">
+                                {held.failed} token{held.failed !== 1 ? 's' : ''} could not be read
+                                and {held.failed !== 1 ? 'are' : 'is'} not shown
+                            </p>
+                        )}
+                        {loadError && !held && (
+                            <div className="error-card">
+                                <p>Failed to load holdings: {loadError}</p>
+                            </div>
+                        )}
+                        {walletAddress && !held && !loadError && (
+                            <p className="muted-note">
+                                {loading ? 'Loading holdings...' : 'Holdings not loaded yet'}
+                            </p>
+                        )}
+                        {held && held.tokens.length === 0 && (
+                            <p className="muted-note">You hold no tokens in this collection.</p>
+                        )}
+
+                        {held && held.tokens.length > 0 && (
+                            <div className="nft-grid">
+                                {held.tokens.map((token) => (
+                                    <NftCard
+                                        key={token.tokenId.toString()}
+                                        collection={collection}
+                                        token={token}
+                                        onOpen={() => setSelected({ collection, token })}
+                                    />
+                                ))}
+                            </div>
+                        )}
+                    </section>
+                );
+            })}
+
+            {selected && (
+                <NftDetailDrawer
+                    collectionName={selected.collection.name}
+                    collectionAddress={selected.collection.address}
+                    tokenId={selected.token.tokenId}
+                    uri={selected.token.uri}
+                    onClose={closeDrawer}
+                />
+            )}
+        </div>
+    );
+}
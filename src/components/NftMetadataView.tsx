@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { useNftMetadata } from '../hooks/useNftMetadata';
+
+/**
+ * Loads and renders the metadata document behind a token URI: image, name,
+ * description and attributes.
+ *
+ * @param uri - Token URI read from the contract, null if it returned none
+ * @param fallbackName - Title used when the metadata has no name
+ */
+export function NftMetadataView({
+    uri,
+    fallbackName,
+}: {
+    uri: string | null;
+    fallbackName: string;
+}) {
+    const { metadata, error } = useNftMetadata(uri);
+    const [failedImage, setFailedImage] = useState<string | null>(null);
+
+    if (uri === null || error) {
+        return (
+            <div className="nft-metadata">
+                <p className="muted-note">
+                    Metadata unavailable: {error ?? 'the contract returned no token URI'}
+                </p>
+            </div>
+        );
+    }
+
+    if (!metadata) {
+        return (
+            <div className="nft-metadata">
+                <p className="muted-note">Loading metadata...</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="nft-metadata">
+            <div className="nft-image">
+                {metadata.image && metadata.image !== failedImage ? (
+                    <img
+                        src={metadata.image}
+                        alt={metadata.name ?? fallbackName}
+                        loading="lazy"
+                        onError={() => setFailedImage(metadata.image)}
+                    />
+                ) : (
+                    <span className="nft-image-placeholder">No image</span>
+                )}
+            </div>
+            <div className="nft-metadata-body">
+                <h4 className="nft-name">{metadata.name ?? fallbackName}</h4>
+                {metadata.description && <p className="nft-description">{metadata.description}</p>}
+                {metadata.attributes.length > 0 && (
+                    <div className="nft-attributes">
+                        {metadata.attributes.map((attr, i) => (
+                            <div key={`${attr.trait}-${i}`} className="nft-attribute">
+                                <span className="stat-label">{attr.trait}</span>
+                                <span className="nft-attribute-value">{attr.value}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,43 +1,64 @@
-import { useState, useCallback } from 'react';
-import { getContract, IOP20Contract, OP_20_ABI } from 'opnet';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useWalletConnect } from '@btc-vision/walletconnect';
 import { useOPNet } from '../providers/OPNetProvider';
-
-interface PortfolioToken {
-    address: string;
-    name: string;
-    symbol: string;
-    decimals: number;
-    totalSupply: bigint;
+import { useTokenService } from '../hooks/useTokenService';
+import { usePriceSources } from '../hooks/usePriceSources';
+import { useTokenLists } from '../hooks/useTokenLists';
+import { useWatchlist } from '../hooks/useWatchlist';
+import { TokenInfo } from '../services/tokenService';
+import { compareWithList } from '../services/tokenList';
+import {
+    percentChange,
+    TokenPrice,
+    TokenValuation,
+    valueHolding,
+    valueInSats,
+} from '../services/priceSources';
+import {
+    buildPortfolioExport,
+    parseWatchlist,
+    portfolioToCsv,
+    portfolioToJson,
+} from '../services/portfolioExport';
+import { BTC_DECIMALS, formatBtc, formatTokenAmount, FormatAmountOptions } from '../utils/amount';
+import { AddressIssue, validateAddress } from '../utils/address';
+import { downloadFile } from '../utils/download';
+import { loadStored, saveStored, storageKey } from '../utils/storage';
+import { AllowanceManager } from './AllowanceManager';
+import { WatchedAddresses } from './WatchedAddresses';
+import { PriceSourceSettings } from './PriceSourceSettings';
+import { TokenLogo } from './TokenLogo';
+import { TokenSearchInput } from './TokenSearchInput';
+import { TokenListSettings } from './TokenListSettings';
+import { AddressIssueCard } from './AddressIssueCard';
+
+interface PortfolioToken extends TokenInfo {
     balance: bigint;
     supplyShare: number;
 }
 
+/**
+ * A tracked token that could not be loaded, kept so it can be retried or removed.
+ */
+interface UnresolvedToken {
+    address: string;
+    error: string;
+}
+
+/** Storage scope for the token list when no wallet is connected. */
+const WATCH_ONLY_SCOPE = 'watch-only';
+
+/** Display precision for balances in the portfolio overview. */
+const BALANCE_FORMAT: FormatAmountOptions = { maxFractionDigits: 4 };
+
+/** Minimum time between re-pricing holdings as new blocks arrive. */
+const VALUATION_REFRESH_MS = 5 * 60_000;
+
 const CHART_COLORS = [
     '#f7931a', '#00d68f', '#4d9fff', '#9b59ff',
     '#ff4d6a', '#ffcc00', '#00cccc', '#ff8c42',
 ];
 
-/**
- * Formats a bigint token amount to a human-readable string.
- *
- * @param amount - The raw token amount as bigint
- * @param decimals - Number of decimal places
- * @returns Formatted string representation
- */
-function formatTokenAmount(amount: bigint, decimals: number): string {
-    const divisor = 10n ** BigInt(decimals);
-    const whole = amount / divisor;
-    const remainder = amount % divisor;
-    const remainderStr = remainder.toString().padStart(decimals, '0');
-    const trimmed = remainderStr.replace(/0+$/, '').slice(0, 4);
-
-    if (trimmed.length === 0) {
-        return whole.toLocaleString();
-    }
-    return `${whole.toLocaleString()}.${trimmed}`;
-}
-
 /**
  * Calculates what percentage of total supply a balance represents.
  *
@@ -50,6 +71,86 @@ function calcSupplyShare(balance: bigint, totalSupply: bigint): number {
     return Number((balance * 10000n) / totalSupply) / 100;
 }
 
+/**
+ * Formats the price of one whole token in satoshis.
+ *
+ * @param price - Token price
+ * @param decimals - Token decimals
+ * @returns Price string, e.g. "12.5 sats"
+ */
+function formatUnitPrice(price: TokenPrice, decimals: number): string {
+    // Scaled by 10^8 so prices below one satoshi keep their digits
+    const scaled = valueInSats(10n ** BigInt(decimals + BTC_DECIMALS), price);
+    return `${formatTokenAmount(scaled, BTC_DECIMALS, { maxFractionDigits: 4 })} sats`;
+}
+
+/**
+ * Renders a 24h change as a signed percentage.
+ *
+ * @param change - Change in percent, or null when unknown
+ */
+function ValueChange({ change }: { change: number | null }) {
+    if (change === null) {
+        return <span className="value-change">24h n/a</span>;
+    }
+    return (
+        <span className={`value-change ${change >= 0 ? 'up' : 'down'}`}>
+            {change >= 0 ? '+' : ''}
+            {change.toFixed(2)}% 24h
+        </span>
+    );
+}
+
+/**
+ * Price and holding value of a portfolio token, or an "unpriced" marker.
+ *
+ * @param valuation - Valuation of the holding, undefined while loading
+ * @param decimals - Token decimals
+ * @param showValue - Whether a balance is known, so the holding value can be shown
+ */
+function TokenValue({
+    valuation,
+    decimals,
+    showValue,
+}: {
+    valuation: TokenValuation | undefined;
+    decimals: number;
+    showValue: boolean;
+}) {
+    if (!valuation) return null;
+
+    if (!valuation.priced) {
+        return (
+            <span className="unpriced-badge" title={valuation.reason}>
+                Unpriced
+            </span>
+        );
+    }
+
+    return (
+        <>
+            <span className="stat-label">Price</span>
+            <span className="portfolio-price-value" title={`via ${valuation.source}`}>
+                {formatUnitPrice(valuation.price, decimals)}
+            </span>
+            {showValue && (
+                <>
+                    <span className="stat-label">Value</span>
+                    <span
+                        className="portfolio-value-value"
+                        title={`${valuation.valueSats.toLocaleString()} sats`}
+                    >
+                        {formatBtc(valuation.valueSats)}
+                    </span>
+                    <ValueChange
+                        change={percentChange(valuation.valueSats, valuation.valueSats24h)}
+                    />
+                </>
+            )}
+        </>
+    );
+}
+
 /**
  * SVG donut chart segment data.
  */
@@ -63,8 +164,9 @@ interface DonutSegment {
  * Renders an SVG donut chart from portfolio data.
  *
  * @param segments - Chart segments with color, percentage, and label
+ * @param tokenCount - Number of tracked tokens shown in the center, priced or not
  */
-function DonutChart({ segments }: { segments: DonutSegment[] }) {
+function DonutChart({ segments, tokenCount }: { segments: DonutSegment[]; tokenCount: number }) {
     const radius = 70;
     const circumference = 2 * Math.PI * radius;
     let accumulatedOffset = 0;
@@ -111,7 +213,7 @@ function DonutChart({ segments }: { segments: DonutSegment[] }) {
                 fontSize="22"
                 fontWeight="700"
             >
-                {segments.length}
+                {tokenCount}
             </text>
             <text
                 x="100"
@@ -192,24 +294,151 @@ function SupplyGauge({
  * Portfolio component.
  * Lets users add multiple token addresses, fetches all balances,
  * and displays a visual portfolio overview with charts and gauges.
+ * Tokens can be added by name or symbol from the loaded token lists, which also
+ * supply logos; list entries that disagree with the chain are flagged.
+ * Holdings are valued in BTC through the configured price sources; the donut is
+ * weighted by value and tokens without a price are marked unpriced. Prices are
+ * refreshed as blocks arrive, at most once every few minutes.
+ * Tracked addresses are persisted per network and wallet and restored on mount;
+ * tokens that fail to load stay listed so they can be retried or removed.
+ * The portfolio can be exported as CSV or JSON, and JSON watchlists imported back.
+ * Works without a wallet in watch-only mode, tracking labeled addresses instead.
  */
 export function Portfolio() {
     const [tokens, setTokens] = useState<PortfolioToken[]>([]);
+    const [unresolved, setUnresolved] = useState<UnresolvedToken[]>([]);
+    const [retrying, setRetrying] = useState<string | null>(null);
     const [inputAddr, setInputAddr] = useState('');
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
-
-    const { provider, network, isConnected } = useOPNet();
+    const [addressIssue, setAddressIssue] = useState<AddressIssue | null>(null);
+    const [approvalsFor, setApprovalsFor] = useState<string | null>(null);
+
+    const [valuations, setValuations] = useState<Record<string, TokenValuation>>({});
+    const [pricingTip, setPricingTip] = useState<bigint | null>(null);
+    const pricedRef = useRef<{ networkId: string; at: number } | null>(null);
+    const [importing, setImporting] = useState(false);
+    const [importNotice, setImportNotice] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const { network, networkId, isConnected, blockHead } = useOPNet();
+    const tokenService = useTokenService();
+    const { sources, config: priceConfig, saveConfig: savePriceConfig } = usePriceSources();
+    const tokenLists = useTokenLists();
+    const { watched, add: addWatched, remove: removeWatched } = useWatchlist();
+    const tip = blockHead?.height ?? null;
     const { address: walletAddressObj, walletAddress, openConnectModal } = useWalletConnect();
     const walletConnected = walletAddress !== null;
 
+    const storedKey = storageKey('portfolio', networkId, walletAddress ?? WATCH_ONLY_SCOPE);
+
+    const fetchToken = useCallback(
+        async (addr: string): Promise<PortfolioToken> => {
+            if (!tokenService) {
+                throw new Error('Not connected to OPNet RPC');
+            }
+
+            const info = await tokenService.getTokenInfo(addr);
+
+            let balance = 0n;
+            if (walletAddressObj) {
+                try {
+                    balance = await tokenService.getBalance(addr, walletAddressObj);
+                } catch {
+                    // Wallet may not hold this token
+                }
+            }
+
+            return {
+                ...info,
+                balance,
+                supplyShare: calcSupplyShare(balance, info.totalSupply),
+            };
+        },
+        [tokenService, walletAddressObj],
+    );
+
+    useEffect(() => {
+        setTokens([]);
+        setUnresolved([]);
+        setError(null);
+        setAddressIssue(null);
+        setApprovalsFor(null);
+        setImportNotice(null);
+        if (!isConnected) return;
+
+        const stored = loadStored<string[]>(storedKey, []);
+        if (stored.length === 0) return;
+
+        let cancelled = false;
+        setLoading(true);
+
+        void Promise.allSettled(stored.map((addr) => fetchToken(addr))).then((results) => {
+            if (cancelled) return;
+
+            const restored: PortfolioToken[] = [];
+            const failed: UnresolvedToken[] = [];
+            results.forEach((result, i) => {
+                if (result.status === 'fulfilled') {
+                    restored.push(result.value);
+                } else {
+                    const reason: unknown = result.reason;
+                    failed.push({
+                        address: stored[i] ?? '',
+                        error: reason instanceof Error ? reason.message : String(reason),
+                    });
+                }
+            });
+            setTokens(restored);
+            setUnresolved(failed);
+            setLoading(false);
+        });
+
+        return () => {
+            cancelled = true;
+            setLoading(false);
+        };
+    }, [storedKey, isConnected, fetchToken]);
+
+    const retryToken = useCallback(
+        async (address: string) => {
+            setRetrying(address);
+            try {
+                const token = await fetchToken(address);
+                setTokens((prev) => [...prev, token]);
+                setUnresolved((prev) => prev.filter((u) => u.address !== address));
+            } catch (err) {
+                const msg = err instanceof Error ? err.message : String(err);
+                setUnresolved((prev) =>
+                    prev.map((u) => (u.address === address ? { address, error: msg } : u)),
+                );
+            } finally {
+                setRetrying(null);
+            }
+        },
+        [fetchToken],
+    );
+
     const addToken = useCallback(
         async (e: React.FormEvent) => {
             e.preventDefault();
             const addr = inputAddr.trim();
-            if (!addr || !provider || !isConnected) return;
+            if (!addr || !tokenService || !isConnected) return;
 
-            if (tokens.some((t) => t.address === addr)) {
+            const issue = validateAddress(addr, network, 'contract');
+            setAddressIssue(issue);
+            if (issue) return;
+
+            // Adding a token that failed to restore just tries loading it again
+            if (unresolved.some((u) => u.address === addr)) {
+                setError(null);
+                setInputAddr('');
+                await retryToken(addr);
+                return;
+            }
+
+            const stored = loadStored<string[]>(storedKey, []);
+            if (stored.includes(addr) || tokens.some((t) => t.address === addr)) {
                 setError('Token already added');
                 return;
             }
@@ -218,42 +447,9 @@ export function Portfolio() {
             setError(null);
 
             try {
-                const contract = getContract<IOP20Contract>(
-                    addr,
-                    OP_20_ABI,
-                    provider,
-                    network,
-                );
-
-                const [nameRes, symbolRes, decimalsRes, supplyRes] = await Promise.all([
-                    contract.name(),
-                    contract.symbol(),
-                    contract.decimals(),
-                    contract.totalSupply(),
-                ]);
-
-                let balance = 0n;
-                if (walletConnected && walletAddressObj) {
-                    try {
-                        const balRes = await contract.balanceOf(walletAddressObj);
-                        balance = balRes.properties.balance;
-                    } catch {
-                        // Wallet may not hold this token
-                    }
-                }
-
-                const totalSupply = supplyRes.properties.totalSupply;
-                const token: PortfolioToken = {
-                    address: addr,
-                    name: nameRes.properties.name,
-                    symbol: symbolRes.properties.symbol,
-                    decimals: decimalsRes.properties.decimals,
-                    totalSupply,
-                    balance,
-                    supplyShare: calcSupplyShare(balance, totalSupply),
-                };
-
+                const token = await fetchToken(addr);
                 setTokens((prev) => [...prev, token]);
+                saveStored(storedKey, [...stored, addr]);
                 setInputAddr('');
             } catch (err) {
                 const msg = err instanceof Error ? err.message : String(err);
@@ -262,18 +458,182 @@ export function Portfolio() {
                 setLoading(false);
             }
         },
-        [inputAddr, provider, network, isConnected, walletConnected, walletAddressObj, tokens],
+        [
+            inputAddr,
+            tokenService,
+            isConnected,
+            network,
+            storedKey,
+            tokens,
+            unresolved,
+            retryToken,
+            fetchToken,
+        ],
     );
 
     const removeToken = (address: string) => {
         setTokens((prev) => prev.filter((t) => t.address !== address));
+        setUnresolved((prev) => prev.filter((u) => u.address !== address));
+        saveStored(
+            storedKey,
+            loadStored<string[]>(storedKey, []).filter((a) => a !== address),
+        );
+        if (approvalsFor === address) {
+            setApprovalsFor(null);
+        }
+    };
+
+    const exportPortfolio = (format: 'csv' | 'json') => {
+        const data = buildPortfolioExport(
+            { networkId, blockHeight: tip, wallet: walletAddress },
+            tokens.map((t) => ({
+                ...t,
+                balance: walletConnected ? t.balance : null,
+                supplyShare: walletConnected ? t.supplyShare : null,
+                valuation: walletConnected ? (valuations[t.address] ?? null) : null,
+            })),
+            watched,
+        );
+        const filename = `portfolio-${networkId}-${tip ?? 'unknown'}.${format}`;
+        if (format === 'csv') {
+            downloadFile(filename, portfolioToCsv(data), 'text/csv');
+        } else {
+            downloadFile(filename, portfolioToJson(data), 'application/json');
+        }
     };
 
-    const donutSegments: DonutSegment[] = tokens.map((t, i) => ({
-        color: CHART_COLORS[i % CHART_COLORS.length] ?? '#888',
-        percentage: tokens.length > 0 ? 100 / tokens.length : 0,
-        label: t.symbol,
-    }));
+    const importWatchlist = useCallback(
+        async (file: File) => {
+            if (!isConnected) return;
+
+            setImporting(true);
+            setError(null);
+            setImportNotice(null);
+
+            try {
+                const imported = parseWatchlist(await file.text(), networkId, network);
+
+                const stored = loadStored<string[]>(storedKey, []);
+                const fresh = imported.tokens.filter(
+                    (addr) => !stored.includes(addr) && !tokens.some((t) => t.address === addr),
+                );
+
+                const results = await Promise.allSettled(fresh.map((addr) => fetchToken(addr)));
+                const added: PortfolioToken[] = [];
+                for (const result of results) {
+                    if (result.status === 'fulfilled') {
+                        added.push(result.value);
+                    }
+                }
+                if (added.length > 0) {
+                    setTokens((prev) => [...prev, ...added]);
+                    saveStored(storedKey, [...stored, ...added.map((t) => t.address)]);
+                }
+
+                const newWatched = addWatched(imported.watchlist);
+
+                const failed = fresh.length - added.length;
+                const skipped = imported.tokens.length - fresh.length;
+                const parts = [
+                    `Imported ${added.length} token${added.length !== 1 ? 's' : ''}`,
+                    `${newWatched.length} watched address${newWatched.length !== 1 ? 'es' : ''}`,
+                ];
+                if (skipped > 0) parts.push(`${skipped} already tracked`);
+                if (failed > 0) parts.push(`${failed} failed to load`);
+                if (imported.invalid.length > 0) {
+                    parts.push(
+                        `${imported.invalid.length} invalid: ${imported.invalid.join(', ')}`,
+                    );
+                }
+                setImportNotice(parts.join(', '));
+            } catch (err) {
+                const msg = err instanceof Error ? err.message : String(err);
+                setError(`Import failed: ${msg}`);
+            } finally {
+                setImporting(false);
+            }
+        },
+        [isConnected, networkId, network, storedKey, tokens, fetchToken, addWatched],
+    );
+
+    useEffect(() => {
+        if (tip === null) {
+            setPricingTip(null);
+            return;
+        }
+
+        const advance = () => {
+            pricedRef.current = { networkId, at: Date.now() };
+            setPricingTip(tip);
+        };
+        const last = pricedRef.current;
+        const wait =
+            last && last.networkId === networkId ? last.at + VALUATION_REFRESH_MS - Date.now() : 0;
+        if (wait <= 0) {
+            advance();
+            return;
+        }
+
+        const timer = setTimeout(advance, wait);
+        return () => clearTimeout(timer);
+    }, [tip, networkId]);
+
+    useEffect(() => {
+        if (pricingTip === null || tokens.length === 0) {
+            setValuations({});
+            return;
+        }
+
+        let cancelled = false;
+        void Promise.all(
+            tokens.map(async (t) => {
+                const valuation = await valueHolding(sources, t.address, t.balance, pricingTip);
+                return [t.address, valuation] as const;
+            }),
+        ).then((entries) => {
+            if (!cancelled) setValuations(Object.fromEntries(entries));
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [tokens, sources, pricingTip]);
+
+    const approvalsToken = tokens.find((t) => t.address === approvalsFor);
+
+    const priced = tokens.flatMap((t) => {
+        const valuation = valuations[t.address];
+        return valuation?.priced ? [{ token: t, valuation }] : [];
+    });
+    const unpricedCount = tokens.filter((t) => valuations[t.address]?.priced === false).length;
+    const totalValue = priced.reduce((sum, p) => sum + p.valuation.valueSats, 0n);
+    const comparable = priced.filter((p) => p.valuation.valueSats24h !== null);
+    const totalChange = percentChange(
+        comparable.reduce((sum, p) => sum + p.valuation.valueSats, 0n),
+        comparable.length > 0
+            ? comparable.reduce((sum, p) => sum + (p.valuation.valueSats24h ?? 0n), 0n)
+            : null,
+    );
+
+    const walletBalances = useMemo(
+        () =>
+            walletConnected
+                ? Object.fromEntries(tokens.map((t) => [t.address, t.balance]))
+                : null,
+        [walletConnected, tokens],
+    );
+
+    const donutSegments: DonutSegment[] = tokens.flatMap((t, i) => {
+        const valuation = valuations[t.address];
+        if (!valuation?.priced || totalValue === 0n) return [];
+        return [
+            {
+                color: CHART_COLORS[i % CHART_COLORS.length] ?? '#888',
+                percentage: Number((valuation.valueSats * 10000n) / totalValue) / 100,
+                label: t.symbol,
+            },
+        ];
+    });
 
     return (
         <div className="portfolio-panel panel">
@@ -284,23 +644,25 @@ export function Portfolio() {
                 </h2>
             </div>
 
-            {!walletConnected && (
-                <div className="portfolio-connect">
-                    <div className="connect-visual">
-                        <div className="connect-rings">
-                            <div className="ring ring-1" />
-                            <div className="ring ring-2" />
-                            <div className="ring ring-3" />
-                            <span className="connect-icon">&#x20BF;</span>
-                        </div>
-                    </div>
-                    <h3 className="connect-title">Connect Your Wallet</h3>
-                    <p className="connect-desc">
-                        Connect your OP_WALLET to view your token balances, track your portfolio,
-                        and see your share of each token&apos;s supply.
-                    </p>
+            {walletConnected ? (
+                <div className="portfolio-wallet-bar">
+                    <div className="status-dot connected" />
+                    <span className="portfolio-addr" title={walletAddress}>
+                        {walletAddress.slice(0, 12)}...{walletAddress.slice(-6)}
+                    </span>
+                    <span className="portfolio-count">
+                        {tokens.length} token{tokens.length !== 1 ? 's' : ''} tracked
+                    </span>
+                </div>
+            ) : (
+                <div className="portfolio-wallet-bar watch-only">
+                    <div className="status-dot disconnected" />
+                    <span className="portfolio-addr">Watch-only mode</span>
+                    <span className="portfolio-count">
+                        {tokens.length} token{tokens.length !== 1 ? 's' : ''} tracked
+                    </span>
                     <button
-                        className="btn btn-primary btn-lg"
+                        className="btn btn-outline btn-sm"
                         onClick={() => void openConnectModal()}
                     >
                         Connect Wallet
@@ -308,162 +670,335 @@ export function Portfolio() {
                 </div>
             )}
 
-            {walletConnected && (
-                <>
-                    <div className="portfolio-wallet-bar">
-                        <div className="status-dot connected" />
-                        <span className="portfolio-addr" title={walletAddress}>
-                            {walletAddress.slice(0, 12)}...{walletAddress.slice(-6)}
-                        </span>
-                        <span className="portfolio-count">
-                            {tokens.length} token{tokens.length !== 1 ? 's' : ''} tracked
-                        </span>
-                    </div>
+            <form className="portfolio-add-form" onSubmit={(e) => void addToken(e)}>
+                <TokenSearchInput
+                    value={inputAddr}
+                    onChange={setInputAddr}
+                    search={tokenLists.search}
+                    placeholder="Add token by name, symbol or contract address (bc1p...)"
+                    disabled={loading}
+                />
+                <button
+                    type="submit"
+                    className="btn btn-primary"
+                    disabled={loading || !isConnected}
+                >
+                    {loading ? 'Adding...' : 'Add'}
+                </button>
+            </form>
+
+            <div className="portfolio-toolbar">
+                <button
+                    className="btn btn-outline btn-sm"
+                    onClick={() => exportPortfolio('csv')}
+                    disabled={tokens.length === 0}
+                >
+                    Export CSV
+                </button>
+                <button
+                    className="btn btn-outline btn-sm"
+                    onClick={() => exportPortfolio('json')}
+                    disabled={tokens.length === 0}
+                >
+                    Export JSON
+                </button>
+                <button
+                    className="btn btn-outline btn-sm"
+                    onClick={() => importInputRef.current?.click()}
+                    disabled={importing || !isConnected}
+                >
+                    {importing ? 'Importing...' : 'Import JSON'}
+                </button>
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    hidden
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) void importWatchlist(file);
+                    }}
+                />
+            </div>
 
-                    <form
-                        className="portfolio-add-form"
-                        onSubmit={(e) => void addToken(e)}
-                    >
-                        <input
-                            type="text"
-                            className="search-input"
-                            placeholder="Add token by contract address (bc1p...)"
-                            value={inputAddr}
-                            onChange={(e) => setInputAddr(e.target.value)}
-                            disabled={loading}
-                        />
-                        <button
-                            type="submit"
-                            className="btn btn-primary"
-                            disabled={loading || !isConnected}
-                        >
-                            {loading ? 'Adding...' : 'Add'}
-                        </button>
-                    </form>
-
-                    {error && (
-                        <div className="error-card">
-                            <p>{error}</p>
+            {addressIssue && <AddressIssueCard issue={addressIssue} />}
+
+            {error && (
+                <div className="error-card">
+                    <p>{error}</p>
+                </div>
+            )}
+
+            {importNotice && (
+                <div className="info-card">
+                    <p>{importNotice}</p>
+                </div>
+            )}
+
+            {unresolved.length > 0 && (
+                <div className="portfolio-unresolved">
+                    <span className="stat-label">
+                        {unresolved.length} tracked token{unresolved.length !== 1 ? 's' : ''}{' '}
+                        failed to load
+                    </span>
+                    {unresolved.map((u) => (
+                        <div key={u.address} className="portfolio-unresolved-row">
+                            <span className="mono" title={u.address}>
+                                {u.address.slice(0, 10)}...{u.address.slice(-4)}
+                            </span>
+                            <span className="portfolio-unresolved-error">{u.error}</span>
+                            <button
+                                className="card-link-btn"
+                                onClick={() => void retryToken(u.address)}
+                                disabled={retrying !== null || !isConnected}
+                            >
+                                {retrying === u.address ? 'Retrying...' : 'Retry'}
+                            </button>
+                            <button
+                                className="remove-btn"
+                                onClick={() => removeToken(u.address)}
+                                title="Remove token"
+                            >
+                                &#x2715;
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <PriceSourceSettings key={networkId} config={priceConfig} onSave={savePriceConfig} />
+            <TokenListSettings
+                lists={tokenLists.lists}
+                refreshErrors={tokenLists.refreshErrors}
+                onAddUrl={tokenLists.addUrl}
+                onAddFile={tokenLists.addFile}
+                onRemove={tokenLists.removeList}
+            />
+
+            {tokens.length > 0 && (
+                <div className="portfolio-overview">
+                    {walletConnected && (
+                        <div className="portfolio-value-bar">
+                            <span className="stat-label">Portfolio Value</span>
+                            <span className="portfolio-value-total">{formatBtc(totalValue)}</span>
+                            <span className="portfolio-value-sats">
+                                {totalValue.toLocaleString()} sats
+                            </span>
+                            <ValueChange change={totalChange} />
+                            {unpricedCount > 0 && (
+                                <span className="unpriced-badge">{unpricedCount} unpriced</span>
+                            )}
                         </div>
                     )}
 
-                    {tokens.length > 0 && (
-                        <div className="portfolio-overview">
-                            <div className="portfolio-chart-section">
-                                <DonutChart segments={donutSegments} />
-                                <div className="chart-legend">
-                                    {tokens.map((t, i) => (
-                                        <div key={t.address} className="legend-item">
-                                            <span
-                                                className="legend-color"
+                    <div className="portfolio-chart-section">
+                        <DonutChart segments={donutSegments} tokenCount={tokens.length} />
+                        <div className="chart-legend">
+                            {tokens.map((t, i) => (
+                                <div key={t.address} className="legend-item">
+                                    <span
+                                        className="legend-color"
+                                        style={{
+                                            background:
+                                                CHART_COLORS[i % CHART_COLORS.length],
+                                        }}
+                                    />
+                                    <span className="legend-symbol">{t.symbol}</span>
+                                    {valuations[t.address]?.priced === false && (
+                                        <span className="unpriced-badge">unpriced</span>
+                                    )}
+                                    {walletConnected && (
+                                        <span className="legend-balance">
+                                            {formatTokenAmount(
+                                                t.balance,
+                                                t.decimals,
+                                                BALANCE_FORMAT,
+                                            )}
+                                        </span>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="portfolio-grid">
+                        {tokens.map((token, i) => {
+                            const listEntry = tokenLists.findToken(token.address);
+                            const mismatches = listEntry ? compareWithList(listEntry, token) : [];
+                            return (
+                                <div key={token.address} className="portfolio-card">
+                                    <div className="portfolio-card-header">
+                                        <div className="portfolio-token-info">
+                                            <TokenLogo
+                                                symbol={token.symbol}
+                                                logoURI={listEntry?.logoURI}
+                                                className="portfolio-badge"
+                                                symbolLength={3}
                                                 style={{
                                                     background:
-                                                        CHART_COLORS[i % CHART_COLORS.length],
+                                                        CHART_COLORS[
+                                                            i % CHART_COLORS.length
+                                                        ],
                                                 }}
                                             />
-                                            <span className="legend-symbol">{t.symbol}</span>
-                                            <span className="legend-balance">
-                                                {formatTokenAmount(t.balance, t.decimals)}
-                                            </span>
-                                        </div>
-                                    ))}
-                                </div>
-                            </div>
-
-                            <div className="portfolio-grid">
-                                {tokens.map((token, i) => (
-                                    <div key={token.address} className="portfolio-card">
-                                        <div className="portfolio-card-header">
-                                            <div className="portfolio-token-info">
-                                                <span
-                                                    className="portfolio-badge"
-                                                    style={{
-                                                        background:
-                                                            CHART_COLORS[
-                                                                i % CHART_COLORS.length
-                                                            ],
-                                                    }}
-                                                >
-                                                    {token.symbol.slice(0, 3)}
+                                            <div>
+                                                <span className="portfolio-token-name">
+                                                    {token.name}
                                                 </span>
-                                                <div>
-                                                    <span className="portfolio-token-name">
-                                                        {token.name}
-                                                    </span>
-                                                    <span className="portfolio-token-symbol">
-                                                        {token.symbol}
+                                                <span className="portfolio-token-symbol">
+                                                    {token.symbol}
+                                                </span>
+                                                {mismatches.length > 0 && (
+                                                    <span
+                                                        className="list-mismatch-badge"
+                                                        title={`Differs from token list: ${mismatches.join('; ')}`}
+                                                    >
+                                                        List mismatch
                                                     </span>
-                                                </div>
+                                                )}
                                             </div>
-                                            <button
-                                                className="remove-btn"
-                                                onClick={() => removeToken(token.address)}
-                                                title="Remove token"
-                                            >
-                                                &#x2715;
-                                            </button>
                                         </div>
+                                        <button
+                                            className="remove-btn"
+                                            onClick={() => removeToken(token.address)}
+                                            title="Remove token"
+                                        >
+                                            &#x2715;
+                                        </button>
+                                    </div>
 
-                                        <div className="portfolio-card-body">
-                                            <div className="portfolio-balance-section">
-                                                <span className="stat-label">Your Balance</span>
-                                                <span className="portfolio-balance-value">
-                                                    {formatTokenAmount(
-                                                        token.balance,
-                                                        token.decimals,
-                                                    )}
-                                                </span>
-                                                <span className="stat-label">Total Supply</span>
-                                                <span className="portfolio-supply-value">
-                                                    {formatTokenAmount(
-                                                        token.totalSupply,
-                                                        token.decimals,
-                                                    )}
-                                                </span>
-                                            </div>
+                                    <div className="portfolio-card-body">
+                                        <div className="portfolio-balance-section">
+                                            {walletConnected && (
+                                                <>
+                                                    <span className="stat-label">Your Balance</span>
+                                                    <span className="portfolio-balance-value">
+                                                        {formatTokenAmount(
+                                                            token.balance,
+                                                            token.decimals,
+                                                            BALANCE_FORMAT,
+                                                        )}
+                                                    </span>
+                                                </>
+                                            )}
+                                            <span className="stat-label">Total Supply</span>
+                                            <span
+                                                className="portfolio-supply-value"
+                                                title={formatTokenAmount(
+                                                    token.totalSupply,
+                                                    token.decimals,
+                                                )}
+                                            >
+                                                {formatTokenAmount(
+                                                    token.totalSupply,
+                                                    token.decimals,
+                                                    { compact: true },
+                                                )}
+                                            </span>
+                                            <TokenValue
+                                                valuation={valuations[token.address]}
+                                                decimals={token.decimals}
+                                                showValue={walletConnected}
+                                            />
+                                        </div>
+                                        {walletConnected && (
                                             <div className="portfolio-gauge-section">
                                                 <SupplyGauge
                                                     percentage={token.supplyShare}
                                                     color={
-                                                        CHART_COLORS[
-                                                            i % CHART_COLORS.length
-                                                        ] ?? '#888'
+                                                        CHART_COLORS[i % CHART_COLORS.length] ??
+                                                        '#888'
                                                     }
                                                     size={80}
                                                 />
-                                                <span className="gauge-label">
-                                                    Supply Share
-                                                </span>
+                                                <span className="gauge-label">Supply Share</span>
                                             </div>
-                                        </div>
+                                        )}
+                                    </div>
 
-                                        <div className="portfolio-card-footer">
-                                            <span
-                                                className="portfolio-addr-mini"
-                                                title={token.address}
+                                    <div className="portfolio-card-footer">
+                                        <span
+                                            className="portfolio-addr-mini"
+                                            title={token.address}
+                                        >
+                                            {token.address.slice(0, 10)}...
+                                            {token.address.slice(-4)}
+                                        </span>
+                                        {walletConnected && (
+                                            <button
+                                                className={`card-link-btn ${approvalsFor === token.address ? 'active' : ''}`}
+                                                onClick={() =>
+                                                    setApprovalsFor(
+                                                        approvalsFor === token.address
+                                                            ? null
+                                                            : token.address,
+                                                    )
+                                                }
                                             >
-                                                {token.address.slice(0, 10)}...
-                                                {token.address.slice(-4)}
-                                            </span>
-                                        </div>
+                                                Approvals
+                                            </button>
+                                        )}
                                     </div>
-                                ))}
-                            </div>
-                        </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    {approvalsToken && (
+                        <AllowanceManager
+                            key={approvalsToken.address}
+                            contractAddress={approvalsToken.address}
+                            symbol={approvalsToken.symbol}
+                            decimals={approvalsToken.decimals}
+                        />
                     )}
+                </div>
+            )}
 
-                    {tokens.length === 0 && !loading && (
-                        <div className="empty-state">
-                            <span className="empty-icon">{'\uD83D\uDCBC'}</span>
-                            <h3>No Tokens Tracked</h3>
-                            <p>
-                                Add OP20 token contract addresses above to track your holdings
-                                and see your share of each token&apos;s supply.
-                            </p>
+            {tokens.length === 0 && unresolved.length === 0 && !loading && walletConnected && (
+                <div className="empty-state">
+                    <span className="empty-icon">{'\uD83D\uDCBC'}</span>
+                    <h3>No Tokens Tracked</h3>
+                    <p>
+                        Add OP20 token contract addresses above to track your holdings
+                        and see your share of each token&apos;s supply.
+                    </p>
+                </div>
+            )}
+
+            {tokens.length === 0 && !loading && !walletConnected && (
+                <div className="portfolio-connect">
+                    <div className="connect-visual">
+                        <div className="connect-rings">
+                            <div className="ring ring-1" />
+                            <div className="ring ring-2" />
+                            <div className="ring ring-3" />
+                            <span className="connect-icon">&#x20BF;</span>
                         </div>
-                    )}
-                </>
+                    </div>
+                    <h3 className="connect-title">Connect Your Wallet</h3>
+                    <p className="connect-desc">
+                        Connect your OP_WALLET to view your token balances and see your share of
+                        each token&apos;s supply, or add tokens above and watch any address
+                        without connecting.
+                    </p>
+                    <button
+                        className="btn btn-primary btn-lg"
+                        onClick={() => void openConnectModal()}
+                    >
+                        Connect Wallet
+                    </button>
+                </div>
             )}
+
+            <WatchedAddresses
+                tokens={tokens}
+                walletBalances={walletBalances}
+                watched={watched}
+                onAdd={addWatched}
+                onRemove={removeWatched}
+            />
         </div>
     );
 }
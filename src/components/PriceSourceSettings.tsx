@@ -0,0 +1,49 @@
+import { useState } from 'react';
+import { PriceSourceConfig } from '../hooks/usePriceSources';
+
+interface PriceSourceSettingsProps {
+    config: PriceSourceConfig;
+    onSave: (config: PriceSourceConfig) => void;
+}
+
+/**
+ * Collapsible form for the contracts portfolio prices are read from.
+ *
+ * @param config - Current settings
+ * @param onSave - Called with the new settings
+ */
+export function PriceSourceSettings({ config, onSave }: PriceSourceSettingsProps) {
+    const [nativeSwap, setNativeSwap] = useState(config.nativeSwap ?? '');
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave({ nativeSwap: nativeSwap.trim() || null });
+    };
+
+    return (
+        <details className="price-source-settings">
+            <summary>
+                Price source:{' '}
+                {config.nativeSwap
+                    ? `NativeSwap ${config.nativeSwap.slice(0, 10)}...`
+                    : 'none (all tokens unpriced)'}
+            </summary>
+            <form className="price-source-form" onSubmit={handleSave}>
+                <input
+                    type="text"
+                    className="search-input"
+                    placeholder="NativeSwap contract address on this network"
+                    value={nativeSwap}
+                    onChange={(e) => setNativeSwap(e.target.value)}
+                />
+                <button type="submit" className="btn btn-outline">
+                    Save
+                </button>
+            </form>
+            <p className="muted-note">
+                Tokens are priced at the ratio of their BTC pool reserves. The 24h change compares
+                against the reserves 144 blocks ago.
+            </p>
+        </details>
+    );
+}
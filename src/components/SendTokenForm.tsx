@@ -0,0 +1,248 @@
+import { useState, useCallback, useEffect } from 'react';
+import { getContract, IOP20Contract, OP_20_ABI, Transfer } from 'opnet';
+import { Address } from '@btc-vision/transaction';
+import { useWalletConnect } from '@btc-vision/walletconnect';
+import { useOPNet } from '../providers/OPNetProvider';
+import { invalidateTokenState } from '../services/tokenService';
+import { parseTokenAmount } from '../utils/amount';
+import { AddressIssue, validateAddress } from '../utils/address';
+import { walletTransactionParams } from '../utils/transaction';
+import { AddressIssueCard } from './AddressIssueCard';
+
+type SendStep = 'idle' | 'simulating' | 'simulated' | 'sending' | 'sent';
+
+interface SendTokenFormProps {
+    contractAddress: string;
+    symbol: string;
+    decimals: number;
+    balance: bigint;
+    onSent?: () => void;
+}
+
+/**
+ * Send form for OP20 tokens.
+ * Simulates the transfer first to surface gas and revert reasons,
+ * then hands the transaction to the connected wallet to sign and broadcast.
+ * Amounts sent from this form are held back from the balance until the
+ * parent passes a new one, since the node only counts them once confirmed.
+ *
+ * @param contractAddress - OP20 contract address
+ * @param symbol - Token symbol
+ * @param decimals - Token decimals
+ * @param balance - Sender's current balance
+ * @param onSent - Called after a transfer is broadcast, to refetch the balance
+ */
+export function SendTokenForm({
+    contractAddress,
+    symbol,
+    decimals,
+    balance,
+    onSent,
+}: SendTokenFormProps) {
+    const [recipient, setRecipient] = useState('');
+    const [amountInput, setAmountInput] = useState('');
+    const [step, setStep] = useState<SendStep>('idle');
+    const [simulation, setSimulation] = useState<Transfer | null>(null);
+    const [simulatedAmount, setSimulatedAmount] = useState(0n);
+    const [txId, setTxId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [addressIssue, setAddressIssue] = useState<AddressIssue | null>(null);
+    const [pendingSent, setPendingSent] = useState(0n);
+
+    const { provider, network, networkId, isConnected } = useOPNet();
+    const { address: walletAddressObj, walletAddress } = useWalletConnect();
+
+    useEffect(() => {
+        setPendingSent(0n);
+    }, [balance]);
+
+    const resetSimulation = () => {
+        setSimulation(null);
+        setTxId(null);
+        setError(null);
+        setAddressIssue(null);
+        setStep('idle');
+    };
+
+    const handleSimulate = useCallback(
+        async (e: React.FormEvent) => {
+            e.preventDefault();
+            if (!provider || !isConnected || !walletAddressObj) return;
+
+            setError(null);
+            setSimulation(null);
+            setTxId(null);
+
+            const issue = validateAddress(recipient, network, 'account');
+            setAddressIssue(issue);
+            if (issue) return;
+
+            let amount: bigint;
+            try {
+                amount = parseTokenAmount(amountInput, decimals);
+            } catch (err) {
+                setError(err instanceof Error ? err.message : String(err));
+                return;
+            }
+
+            if (amount === 0n) {
+                setError('Amount must be greater than zero');
+                return;
+            }
+
+            if (amount > balance - pendingSent) {
+                setError('Amount exceeds your balance');
+                return;
+            }
+
+            setStep('simulating');
+            try {
+                const to: Address | undefined = await provider.getPublicKeyInfo(
+                    recipient.trim(),
+                    false,
+                );
+                if (!to) {
+                    throw new Error('Recipient address could not be resolved');
+                }
+
+                const contract = getContract<IOP20Contract>(
+                    contractAddress,
+                    OP_20_ABI,
+                    provider,
+                    network,
+                    walletAddressObj,
+                );
+
+                const result = await contract.transfer(to, amount);
+                if (result.revert) {
+                    throw new Error(`Execution Reverted: ${result.revert}`);
+                }
+
+                setSimulation(result);
+                setSimulatedAmount(amount);
+                setStep('simulated');
+            } catch (err) {
+                const message = err instanceof Error ? err.message : String(err);
+                setError(`Simulation failed: ${message}`);
+                setStep('idle');
+            }
+        },
+        [
+            provider,
+            isConnected,
+            walletAddressObj,
+            amountInput,
+            decimals,
+            balance,
+            pendingSent,
+            recipient,
+            contractAddress,
+            network,
+        ],
+    );
+
+    const handleSend = useCallback(async () => {
+        if (!simulation || !walletAddress) return;
+
+        setError(null);
+        setStep('sending');
+        try {
+            const receipt = await simulation.sendTransaction(
+                walletTransactionParams(walletAddress, network),
+            );
+            setTxId(receipt.transactionId);
+            setStep('sent');
+            setPendingSent((sent) => sent + simulatedAmount);
+            invalidateTokenState(networkId, contractAddress);
+            onSent?.();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            setError(`Transaction failed: ${message}`);
+            setStep('simulated');
+        }
+    }, [simulation, simulatedAmount, walletAddress, network, networkId, contractAddress, onSent]);
+
+    const busy = step === 'simulating' || step === 'sending';
+
+    return (
+        <div className="send-card">
+            <h3 className="sub-panel-title">Send {symbol}</h3>
+
+            <form className="send-form" onSubmit={(e) => void handleSimulate(e)}>
+                <input
+                    type="text"
+                    className="search-input"
+                    placeholder="Recipient address (bc1p... or 0x...)"
+                    value={recipient}
+                    onChange={(e) => {
+                        setRecipient(e.target.value);
+                        resetSimulation();
+                    }}
+                    disabled={busy}
+                />
+                <div className="send-amount-row">
+                    <input
+                        type="text"
+                        inputMode="decimal"
+                        className="search-input"
+                        placeholder={`Amount (${symbol})`}
+                        value={amountInput}
+                        onChange={(e) => {
+                            setAmountInput(e.target.value);
+                            resetSimulation();
+                        }}
+                        disabled={busy}
+                    />
+                    <button
+                        type="submit"
+                        className="btn btn-outline"
+                        disabled={busy || !isConnected || !recipient.trim() || !amountInput}
+                    >
+                        {step === 'simulating' ? 'Simulating...' : 'Simulate'}
+                    </button>
+                </div>
+            </form>
+
+            {simulation && (
+                <div className="send-simulation">
+                    <div className="block-detail-item">
+                        <span className="detail-label">Estimated Gas</span>
+                        <span className="detail-value">
+                            {(simulation.estimatedGas ?? 0n).toLocaleString()}
+                        </span>
+                    </div>
+                    <div className="block-detail-item">
+                        <span className="detail-label">Gas Fee</span>
+                        <span className="detail-value">
+                            {simulation.estimatedSatGas.toLocaleString()} sats
+                        </span>
+                    </div>
+                    {step !== 'sent' && (
+                        <button
+                            className="btn btn-primary"
+                            onClick={() => void handleSend()}
+                            disabled={busy}
+                        >
+                            {step === 'sending' ? 'Waiting for wallet...' : 'Sign & Send'}
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {txId && (
+                <div className="info-card send-result">
+                    <span className="detail-label">Transaction Sent</span>
+                    <span className="detail-value mono">{txId}</span>
+                </div>
+            )}
+
+            {addressIssue && <AddressIssueCard issue={addressIssue} />}
+
+            {error && (
+                <div className="error-card">
+                    <p>{error}</p>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,35 +1,34 @@
-import { useState, useCallback, useRef } from 'react';
-import { getContract, IOP20Contract, OP_20_ABI } from 'opnet';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useWalletConnect } from '@btc-vision/walletconnect';
 
 import { useOPNet } from '../providers/OPNetProvider';
+import { useRouter } from '../providers/RouterProvider';
+import { useTokenService } from '../hooks/useTokenService';
+import { useTokenLists } from '../hooks/useTokenLists';
+import { TokenInfo } from '../services/tokenService';
+import { compareWithList } from '../services/tokenList';
+import { ContractType } from '../services/contractProbe';
+import { formatTokenAmount } from '../utils/amount';
+import { AddressIssue, validateAddress } from '../utils/address';
+import { SendTokenForm } from './SendTokenForm';
+import { BatchTransfer } from './BatchTransfer';
+import { AllowanceManager } from './AllowanceManager';
+import { TokenTransfers } from './TokenTransfers';
+import { TokenHolders } from './TokenHolders';
+import { TokenLogo } from './TokenLogo';
+import { TokenSearchInput } from './TokenSearchInput';
+import { TokenListSettings } from './TokenListSettings';
+import { AddressIssueCard } from './AddressIssueCard';
+import { NftCollection } from './NftCollection';
+import { isTransactionHash } from './TransactionView';
 
-interface TokenData {
-    name: string;
-    symbol: string;
-    decimals: number;
-    totalSupply: bigint;
-}
+type DetailTab = 'overview' | 'transfers' | 'holders';
 
-/**
- * Formats a bigint token amount to a human-readable string using decimals.
- *
- * @param amount - The raw token amount as bigint
- * @param decimals - Number of decimal places
- * @returns Formatted string representation
- */
-function formatTokenAmount(amount: bigint, decimals: number): string {
-    const divisor = 10n ** BigInt(decimals);
-    const whole = amount / divisor;
-    const remainder = amount % divisor;
-    const remainderStr = remainder.toString().padStart(decimals, '0');
-    const trimmed = remainderStr.replace(/0+$/, '').slice(0, 6);
-
-    if (trimmed.length === 0) {
-        return whole.toLocaleString();
-    }
-    return `${whole.toLocaleString()}.${trimmed}`;
-}
+const DETAIL_TABS: { id: DetailTab; label: string }[] = [
+    { id: 'overview', label: 'Overview' },
+    { id: 'transfers', label: 'Transfers' },
+    { id: 'holders', label: 'Holders' },
+];
 
 /**
  * SVG supply visualization showing ownership share.
@@ -116,28 +115,46 @@ function SupplyVisualization({
 
 /**
  * Token Explorer component with enhanced visuals.
- * Fetches OP20 token data, displays stats and supply visualization.
+ * Probes the contract for its standard: OP20 tokens get stats and a supply
+ * visualization, OP721 collections a collection view, and anything else is
+ * reported as not a recognized standard.
+ * The explored contract is taken from the URL so lookups can be deep-linked.
+ * Addresses are validated against the active network before any RPC call.
+ * Results of a lookup that was superseded, or started on another network, are dropped.
+ * Tokens can be searched by name or symbol through the loaded token lists, which
+ * also provide logos; list entries that disagree with the chain are flagged.
  */
 export function TokenExplorer() {
     const [contractAddress, setContractAddress] = useState('');
-    const [tokenData, setTokenData] = useState<TokenData | null>(null);
+    const [contractType, setContractType] = useState<ContractType | null>(null);
+    const [tokenData, setTokenData] = useState<TokenInfo | null>(null);
     const [activeAddress, setActiveAddress] = useState('');
     const [userBalance, setUserBalance] = useState<bigint | null>(null);
     const [fetchError, setFetchError] = useState<string | null>(null);
+    const [addressIssue, setAddressIssue] = useState<AddressIssue | null>(null);
     const [isFetching, setIsFetching] = useState(false);
-    const contractRef = useRef<IOP20Contract | null>(null);
+    const [detailTab, setDetailTab] = useState<DetailTab>('overview');
 
-    const { provider, network, isConnected: rpcConnected } = useOPNet();
+    const { network, isConnected: rpcConnected } = useOPNet();
+    const tokenService = useTokenService();
+    const tokenLists = useTokenLists();
+    const { route, navigate } = useRouter();
+    const routeContract = route.view === 'explorer' ? route.contract : null;
     const { address: walletAddressObj, walletAddress } = useWalletConnect();
     const walletConnected = walletAddress !== null;
+    const exploreRef = useRef<AbortController | null>(null);
 
-    const handleExplore = useCallback(
-        async (e: React.FormEvent) => {
-            e.preventDefault();
-            const addr = contractAddress.trim();
-            if (!addr) return;
+    useEffect(() => () => exploreRef.current?.abort(), [tokenService]);
 
-            if (!provider || !rpcConnected) {
+    const exploreToken = useCallback(
+        async (addr: string) => {
+            exploreRef.current?.abort();
+            const controller = new AbortController();
+            exploreRef.current = controller;
+            const { signal } = controller;
+            setIsFetching(false);
+
+            if (!tokenService || !rpcConnected) {
                 setFetchError(
                     'Not connected to OPNet RPC. Please wait or try a different network.',
                 );
@@ -145,53 +162,93 @@ export function TokenExplorer() {
             }
 
             setFetchError(null);
+            setContractType(null);
             setTokenData(null);
             setUserBalance(null);
+
+            const issue = validateAddress(addr, network, 'contract');
+            setAddressIssue(issue);
+            if (issue) {
+                setActiveAddress('');
+                return;
+            }
+
             setIsFetching(true);
             setActiveAddress(addr);
 
             try {
-                const contract = getContract<IOP20Contract>(
-                    addr,
-                    OP_20_ABI,
-                    provider,
-                    network,
-                );
-                contractRef.current = contract;
+                const type = await tokenService.getContractType(addr);
+                if (signal.aborted) return;
+                setContractType(type);
+                if (type !== 'op20') return;
 
-                const [nameResult, symbolResult, decimalsResult, totalSupplyResult] =
-                    await Promise.all([
-                        contract.name(),
-                        contract.symbol(),
-                        contract.decimals(),
-                        contract.totalSupply(),
-                    ]);
-
-                const name = nameResult.properties.name;
-                const symbol = symbolResult.properties.symbol;
-                const decimals = decimalsResult.properties.decimals;
-                const totalSupply = totalSupplyResult.properties.totalSupply;
-
-                setTokenData({ name, symbol, decimals, totalSupply });
+                const info = await tokenService.getTokenInfo(addr);
+                if (signal.aborted) return;
+                setTokenData(info);
 
                 if (walletConnected && walletAddressObj) {
-                    try {
-                        const balanceResult = await contract.balanceOf(walletAddressObj);
-                        setUserBalance(balanceResult.properties.balance);
-                    } catch {
-                        setUserBalance(null);
-                    }
+                    const balance = await tokenService
+                        .getBalance(addr, walletAddressObj)
+                        .catch(() => null);
+                    if (!signal.aborted) setUserBalance(balance);
                 }
             } catch (err) {
+                if (signal.aborted) return;
                 const message = err instanceof Error ? err.message : String(err);
                 setFetchError(`Failed to fetch token: ${message}`);
             } finally {
-                setIsFetching(false);
+                if (exploreRef.current === controller) setIsFetching(false);
             }
         },
-        [contractAddress, provider, network, rpcConnected, walletConnected, walletAddressObj],
+        [tokenService, rpcConnected, network, walletConnected, walletAddressObj],
     );
 
+    useEffect(() => {
+        if (!routeContract) {
+            exploreRef.current?.abort();
+            setIsFetching(false);
+            setContractType(null);
+            setTokenData(null);
+            setFetchError(null);
+            setAddressIssue(null);
+            setActiveAddress('');
+            return;
+        }
+
+        setContractAddress(routeContract);
+        if (rpcConnected) {
+            void exploreToken(routeContract);
+        }
+    }, [routeContract, rpcConnected, exploreToken]);
+
+    const refreshBalance = useCallback(() => {
+        if (!tokenService || !walletAddressObj || !activeAddress) return;
+        const signal = exploreRef.current?.signal;
+        tokenService
+            .getBalance(activeAddress, walletAddressObj)
+            .then((balance) => {
+                if (!signal?.aborted) setUserBalance(balance);
+            })
+            .catch(() => undefined);
+    }, [tokenService, walletAddressObj, activeAddress]);
+
+    const handleExplore = (e: React.FormEvent) => {
+        e.preventDefault();
+        const addr = contractAddress.trim();
+        if (!addr) return;
+
+        if (isTransactionHash(addr)) {
+            navigate({ view: 'tx', hash: addr.toLowerCase() });
+        } else if (addr === routeContract) {
+            void exploreToken(addr);
+        } else {
+            navigate({ view: 'explorer', contract: addr });
+        }
+    };
+
+    const listEntry = tokenData ? tokenLists.findToken(activeAddress) : undefined;
+    const listMismatches = listEntry && tokenData ? compareWithList(listEntry, tokenData) : [];
+
     return (
         <div className="token-explorer panel">
             <div className="panel-header">
@@ -200,17 +257,17 @@ export function TokenExplorer() {
                     Token Explorer
                 </h2>
                 <p className="panel-desc">
-                    Deep-dive into any OP20 token on Bitcoin L1
+                    Deep-dive into any OP20 token or OP721 collection on Bitcoin L1
                 </p>
             </div>
 
-            <form className="search-form" onSubmit={(e) => void handleExplore(e)}>
-                <input
-                    type="text"
-                    className="search-input"
-                    placeholder="Enter OP20 contract address (bc1p...)"
+            <form className="search-form" onSubmit={handleExplore}>
+                <TokenSearchInput
                     value={contractAddress}
-                    onChange={(e) => setContractAddress(e.target.value)}
+                    onChange={setContractAddress}
+                    onSelect={(entry) => navigate({ view: 'explorer', contract: entry.address })}
+                    search={tokenLists.search}
+                    placeholder="Token name, symbol, contract address (bc1p...) or transaction hash"
                 />
                 <button
                     type="submit"
@@ -221,26 +278,62 @@ export function TokenExplorer() {
                 </button>
             </form>
 
+            <TokenListSettings
+                lists={tokenLists.lists}
+                refreshErrors={tokenLists.refreshErrors}
+                onAddUrl={tokenLists.addUrl}
+                onAddFile={tokenLists.addFile}
+                onRemove={tokenLists.removeList}
+            />
+
             {!rpcConnected && (
                 <p className="rpc-status">Connecting to OPNet RPC...</p>
             )}
 
+            {addressIssue && <AddressIssueCard issue={addressIssue} />}
+
             {fetchError && (
                 <div className="error-card">
                     <p>{fetchError}</p>
                 </div>
             )}
 
+            {contractType === 'op721' && (
+                <NftCollection key={activeAddress} contractAddress={activeAddress} />
+            )}
+
+            {contractType === 'unknown' && (
+                <div className="info-card unknown-contract">
+                    <p>
+                        <strong>Not a recognized standard.</strong> The contract at{' '}
+                        <span className="mono">{activeAddress}</span> answers neither OP20 nor
+                        OP721 calls, so there is no token data to show.
+                    </p>
+                    <button
+                        className="btn btn-outline btn-sm"
+                        onClick={() => navigate({ view: 'contracts', contract: activeAddress })}
+                    >
+                        Open in Contract Console
+                    </button>
+                </div>
+            )}
+
             {tokenData && (
                 <div className="token-details">
                     <div className="token-hero">
                         <div className="token-hero-left">
                             <div className="token-identity">
-                                <span className="token-symbol-badge">
-                                    {tokenData.symbol.slice(0, 4)}
-                                </span>
+                                <TokenLogo
+                                    symbol={tokenData.symbol}
+                                    logoURI={listEntry?.logoURI}
+                                    className="token-symbol-badge"
+                                    symbolLength={4}
+                                />
                                 <div>
-                                    <h3 className="token-name">{tokenData.name}</h3>
+                                    <h3 className="token-name">
+                                        {tokenData.name}{' '}
+                                        <span className="contract-type-badge">OP20</span>
+                                    </h3>
                                     <span className="token-address-mini" title={activeAddress}>
                                         {activeAddress.slice(0, 14)}...{activeAddress.slice(-6)}
                                     </span>
@@ -283,7 +376,48 @@ export function TokenExplorer() {
                         )}
                     </div>
 
-                    {walletConnected && userBalance !== null && (
+                    {listMismatches.length > 0 && (
+                        <div className="warning-card">
+                            <p>
+                                On-chain metadata differs from the token list:{' '}
+                                {listMismatches.join('; ')}. Check the address before trusting
+                                this token.
+                            </p>
+                        </div>
+                    )}
+
+                    <div className="sub-tabs">
+                        {DETAIL_TABS.map((tab) => (
+                            <button
+                                key={tab.id}
+                                className={`sub-tab-btn ${detailTab === tab.id ? 'active' : ''}`}
+                                onClick={() => setDetailTab(tab.id)}
+                            >
+                                {tab.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {detailTab === 'transfers' && (
+                        <TokenTransfers
+                            key={activeAddress}
+                            contractAddress={activeAddress}
+                            symbol={tokenData.symbol}
+                            decimals={tokenData.decimals}
+                        />
+                    )}
+
+                    {detailTab === 'holders' && (
+                        <TokenHolders
+                            key={activeAddress}
+                            contractAddress={activeAddress}
+                            symbol={tokenData.symbol}
+                            decimals={tokenData.decimals}
+                            totalSupply={tokenData.totalSupply}
+                        />
+                    )}
+
+                    {detailTab === 'overview' && walletConnected && userBalance !== null && (
                         <div className="balance-card">
                             <div className="balance-card-inner">
                                 <div>
@@ -299,7 +433,33 @@ export function TokenExplorer() {
                         </div>
                     )}
 
-                    {!walletConnected && (
+                    {detailTab === 'overview' && walletConnected && userBalance !== null && (
+                        <SendTokenForm
+                            contractAddress={activeAddress}
+                            symbol={tokenData.symbol}
+                            decimals={tokenData.decimals}
+                            balance={userBalance}
+                            onSent={refreshBalance}
+                        />
+                    )}
+
+                    {detailTab === 'overview' && walletConnected && userBalance !== null && (
+                        <BatchTransfer
+                            contractAddress={activeAddress}
+                            symbol={tokenData.symbol}
+                            decimals={tokenData.decimals}
+                        />
+                    )}
+
+                    {detailTab === 'overview' && walletConnected && (
+                        <AllowanceManager
+                            contractAddress={activeAddress}
+                            symbol={tokenData.symbol}
+                            decimals={tokenData.decimals}
+                        />
+                    )}
+
+                    {detailTab === 'overview' && !walletConnected && (
                         <div className="info-card">
                             <p>Connect your wallet to see your balance and supply share</p>
                         </div>
@@ -307,7 +467,7 @@ export function TokenExplorer() {
                 </div>
             )}
 
-            {!tokenData && !fetchError && !isFetching && (
+            {!contractType && !fetchError && !addressIssue && !isFetching && (
                 <div className="empty-state explorer-empty">
                     <div className="explorer-empty-visual">
                         <div className="empty-rings">
@@ -317,10 +477,10 @@ export function TokenExplorer() {
                             <span className="empty-icon">&#x20BF;</span>
                         </div>
                     </div>
-                    <h3>Explore Any OP20 Token</h3>
+                    <h3>Explore Any Token or Collection</h3>
                     <p>
-                        Paste a token contract address to view on-chain data, total supply,
-                        and your ownership share.
+                        Paste a contract address to view on-chain data: total supply and your
+                        ownership share for OP20 tokens, owners and metadata for OP721 NFTs.
                     </p>
                 </div>
             )}
@@ -0,0 +1,309 @@
+import { useState, useEffect } from 'react';
+import { useOPNet } from '../providers/OPNetProvider';
+import { buildHolderDistribution, HolderDistribution } from '../services/holderAnalytics';
+import { getTransferHistory } from '../services/transferHistory';
+import { formatTokenAmount } from '../utils/amount';
+import { shortenHash } from '../utils/format';
+
+interface TokenHoldersProps {
+    contractAddress: string;
+    symbol: string;
+    decimals: number;
+    totalSupply: bigint;
+}
+
+/** Holder counts offered for the top list. */
+const TOP_COUNTS = [10, 25, 50] as const;
+
+const HOLDER_COLORS = [
+    '#f7931a',
+    '#00d68f',
+    '#4d9fff',
+    '#9b59ff',
+    '#ff4d6a',
+    '#ffcc00',
+    '#00cccc',
+    '#ff8c42',
+    '#c77dff',
+    '#7ae582',
+];
+
+/**
+ * Percentage of total supply held by a balance.
+ *
+ * @param balance - Holder balance
+ * @param totalSupply - Token total supply
+ * @returns Percentage (0-100)
+ */
+function supplyPercent(balance: bigint, totalSupply: bigint): number {
+    return totalSupply > 0n ? Number((balance * 10000n) / totalSupply) / 100 : 0;
+}
+
+/**
+ * Formats a supply percentage with precision that suits its size.
+ *
+ * @param percent - Percentage (0-100)
+ * @returns Display string such as `12.3%` or `<0.01%`
+ */
+function formatPercent(percent: number): string {
+    if (percent > 0 && percent < 0.01) return '<0.01%';
+    return `${percent.toFixed(percent >= 1 ? 1 : 2)}%`;
+}
+
+/**
+ * SVG ring splitting the supply between the top holders and everyone else,
+ * drawn in the style of the explorer's supply visualization.
+ *
+ * @param shares - Supply percentage of each top holder, largest first
+ * @param label - Caption under the ring
+ */
+function DistributionRing({ shares, label }: { shares: number[]; label: string }) {
+    const radius = 56;
+    const circumference = 2 * Math.PI * radius;
+    const topShare = Math.min(
+        shares.reduce((sum, share) => sum + share, 0),
+        100,
+    );
+    let accumulated = 0;
+
+    return (
+        <div className="supply-viz">
+            <svg viewBox="0 0 140 140" className="supply-ring">
+                <circle
+                    cx="70"
+                    cy="70"
+                    r={radius}
+                    fill="none"
+                    stroke="rgba(30,30,53,0.6)"
+                    strokeWidth="8"
+                />
+                {shares.map((share, i) => {
+                    const length = (Math.min(share, 100 - accumulated) / 100) * circumference;
+                    const offset = -(accumulated / 100) * circumference;
+                    accumulated += share;
+                    return (
+                        <circle
+                            key={i}
+                            cx="70"
+                            cy="70"
+                            r={radius}
+                            fill="none"
+                            stroke={HOLDER_COLORS[i % HOLDER_COLORS.length]}
+                            strokeWidth="8"
+                            strokeDasharray={`${length} ${circumference - length}`}
+                            strokeDashoffset={offset}
+                            transform="rotate(-90 70 70)"
+                            className="supply-ring-fill"
+                        />
+                    );
+                })}
+                <text
+                    x="70"
+                    y="64"
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                    fill="#e8e8f0"
+                    fontSize="18"
+                    fontWeight="700"
+                    fontFamily="'SF Mono', monospace"
+                >
+                    {formatPercent(topShare)}
+                </text>
+                <text
+                    x="70"
+                    y="82"
+                    textAnchor="middle"
+                    fill="#7a7a98"
+                    fontSize="9"
+                    fontWeight="600"
+                    letterSpacing="1"
+                >
+                    TOP {shares.length}
+                </text>
+            </svg>
+            <span className="supply-viz-label">{label}</span>
+        </div>
+    );
+}
+
+/**
+ * Holder distribution for an OP20 token.
+ * Reconstructs balances from the Transfer, Mint and Burn events scanned in the
+ * Transfers tab, spot-checks the largest holders with `balanceOf`, and shows the
+ * top holders with Gini and Nakamoto concentration figures.
+ *
+ * @param contractAddress - OP20 contract address
+ * @param symbol - Token symbol
+ * @param decimals - Token decimals
+ * @param totalSupply - Current total supply
+ */
+export function TokenHolders({
+    contractAddress,
+    symbol,
+    decimals,
+    totalSupply,
+}: TokenHoldersProps) {
+    const { provider, network, networkId, isConnected } = useOPNet();
+    const [distribution, setDistribution] = useState<HolderDistribution | null>(null);
+    const [topCount, setTopCount] = useState<number>(TOP_COUNTS[0]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const history = getTransferHistory(networkId, contractAddress);
+    const scannedBlocks = history.ranges.reduce((sum, r) => sum + (r.to - r.from + 1n), 0n);
+
+    useEffect(() => {
+        setDistribution(null);
+        setError(null);
+        if (!provider || !isConnected) return;
+
+        const { transfers } = getTransferHistory(networkId, contractAddress);
+        if (transfers.length === 0) return;
+
+        let cancelled = false;
+        setLoading(true);
+
+        buildHolderDistribution(
+            { provider, network, networkId },
+            contractAddress,
+            transfers,
+            totalSupply,
+        )
+            .then((result) => {
+                if (!cancelled) setDistribution(result);
+            })
+            .catch((err: unknown) => {
+                if (cancelled) return;
+                const message = err instanceof Error ? err.message : String(err);
+                setError(`Failed to analyze holders: ${message}`);
+            })
+            .finally(() => {
+                if (!cancelled) setLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [provider, network, networkId, isConnected, contractAddress, totalSupply]);
+
+    const top = distribution?.holders.slice(0, topCount) ?? [];
+    const shares = top.map((holder) => supplyPercent(holder.balance, totalSupply));
+
+    return (
+        <div className="holders-card">
+            <p className="muted-note">
+                {history.transfers.length === 0
+                    ? `No ${symbol} transfers scanned yet. Scan blocks in the Transfers tab to build the holder list.`
+                    : `Based on ${history.transfers.length.toLocaleString()} events in ${scannedBlocks.toLocaleString()} scanned blocks. Holders who did not move tokens in that range are not listed.`}
+            </p>
+
+            {error && (
+                <div className="error-card">
+                    <p>{error}</p>
+                </div>
+            )}
+
+            {loading && (
+                <div className="loading-panel">
+                    <div className="loading-spinner" />
+                    <p className="loading-text">Checking balances...</p>
+                </div>
+            )}
+
+            {distribution && (
+                <>
+                    <div className="holders-summary">
+                        <DistributionRing shares={shares} label="Held by top holders" />
+                        <div className="token-stats-grid holders-stats">
+                            <div className="token-stat">
+                                <span className="stat-label">Holders Found</span>
+                                <span className="token-stat-value">
+                                    {distribution.holders.length.toLocaleString()}
+                                </span>
+                            </div>
+                            <div className="token-stat">
+                                <span className="stat-label">Gini</span>
+                                <span className="token-stat-value">
+                                    {distribution.gini.toFixed(3)}
+                                </span>
+                            </div>
+                            <div className="token-stat">
+                                <span className="stat-label">Nakamoto</span>
+                                <span
+                                    className="token-stat-value"
+                                    title="Fewest holders controlling more than 50% of supply"
+                                >
+                                    {distribution.nakamoto ??
+                                        `>${distribution.holders.length.toLocaleString()}`}
+                                </span>
+                            </div>
+                            <div className="token-stat">
+                                <span className="stat-label">Spot-Checked</span>
+                                <span className="token-stat-value">
+                                    {distribution.spotChecked}
+                                    {distribution.mismatches > 0 && (
+                                        <span
+                                            className="holders-mismatch"
+                                            title="Reconstructed balance differs from balanceOf, usually because earlier blocks were not scanned"
+                                        >
+                                            {' '}
+                                            ({distribution.mismatches} differ)
+                                        </span>
+                                    )}
+                                </span>
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="holders-toolbar">
+                        <h3 className="sub-panel-title">Top Holders</h3>
+                        <select
+                            className="network-select"
+                            value={topCount}
+                            onChange={(e) => setTopCount(Number(e.target.value))}
+                        >
+                            {TOP_COUNTS.map((count) => (
+                                <option key={count} value={count}>
+                                    Top {count}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="holder-list">
+                        {top.map((holder, i) => (
+                            <div key={holder.hex} className="holder-row">
+                                <span className="holder-rank">{i + 1}</span>
+                                <span
+                                    className="legend-color"
+                                    style={{ background: HOLDER_COLORS[i % HOLDER_COLORS.length] }}
+                                />
+                                <span className="holder-address" title={holder.hex}>
+                                    {shortenHash(holder.hex, 10, 6)}
+                                </span>
+                                <span className="holder-balance">
+                                    {formatTokenAmount(holder.balance, decimals, {
+                                        maxFractionDigits: 2,
+                                    })}{' '}
+                                    {symbol}
+                                    {holder.onChain === null && (
+                                        <span
+                                            className="holders-unverified"
+                                            title="Reconstructed from events, not checked with balanceOf"
+                                        >
+                                            {' '}
+                                            *
+                                        </span>
+                                    )}
+                                </span>
+                                <span className="holder-share">
+                                    {formatPercent(shares[i] ?? 0)}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
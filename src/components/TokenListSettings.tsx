@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { StoredTokenList } from '../hooks/useTokenLists';
+import { DEFAULT_TOKEN_LIST, formatListVersion } from '../services/tokenList';
+
+interface TokenListSettingsProps {
+    lists: StoredTokenList[];
+    refreshErrors: Record<string, string>;
+    onAddUrl: (url: string) => Promise<void>;
+    onAddFile: (file: File) => Promise<void>;
+    onRemove: (source: string) => void;
+}
+
+/**
+ * Collapsible manager for the token lists used for search, logos and
+ * metadata checks.
+ *
+ * @param lists - Lists added by the user
+ * @param refreshErrors - Failed URL refreshes, keyed by URL
+ * @param onAddUrl - Adds a list from a URL
+ * @param onAddFile - Adds a list from a JSON file
+ * @param onRemove - Removes a list by source
+ */
+export function TokenListSettings({
+    lists,
+    refreshErrors,
+    onAddUrl,
+    onAddFile,
+    onRemove,
+}: TokenListSettingsProps) {
+    const [url, setUrl] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const run = async (action: () => Promise<void>) => {
+        setBusy(true);
+        setError(null);
+        try {
+            await action();
+            setUrl('');
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            setError(`Failed to add token list: ${message}`);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleAddUrl = (e: React.FormEvent) => {
+        e.preventDefault();
+        const trimmed = url.trim();
+        if (trimmed) void run(() => onAddUrl(trimmed));
+    };
+
+    return (
+        <details className="token-list-settings">
+            <summary>Token lists: {lists.length + 1} loaded</summary>
+
+            <ul className="token-list-sources">
+                <li className="token-list-source">
+                    <span className="token-list-name">{DEFAULT_TOKEN_LIST.name}</span>
+                    <span className="muted-note">
+                        {formatListVersion(DEFAULT_TOKEN_LIST.version)} &middot; bundled
+                    </span>
+                </li>
+                {lists.map((l) => (
+                    <li key={l.source} className="token-list-source">
+                        <span className="token-list-name">{l.list.name}</span>
+                        <span className="muted-note" title={l.source}>
+                            {formatListVersion(l.list.version)} &middot; {l.list.tokens.length}{' '}
+                            tokens &middot; {l.kind === 'url' ? l.source : `file ${l.source}`}
+                        </span>
+                        {refreshErrors[l.source] && (
+                            <span className="token-list-error" title={refreshErrors[l.source]}>
+                                refresh failed, using saved copy
+                            </span>
+                        )}
+                        <button
+                            className="remove-btn"
+                            onClick={() => onRemove(l.source)}
+                            title="Remove list"
+                        >
+                            &#x2715;
+                        </button>
+                    </li>
+                ))}
+            </ul>
+
+            <form className="price-source-form" onSubmit={handleAddUrl}>
+                <input
+                    type="url"
+                    className="search-input"
+                    placeholder="Token list URL (https://...)"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    disabled={busy}
+                />
+                <button type="submit" className="btn btn-outline" disabled={busy}>
+                    Add
+                </button>
+                <label className="btn btn-outline token-list-file">
+                    Upload
+                    <input
+                        type="file"
+                        accept="application/json,.json"
+                        hidden
+                        disabled={busy}
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            e.target.value = '';
+                            if (file) void run(() => onAddFile(file));
+                        }}
+                    />
+                </label>
+            </form>
+
+            {error && <p className="token-list-error">{error}</p>}
+        </details>
+    );
+}
@@ -0,0 +1,45 @@
+import { useState, CSSProperties } from 'react';
+import { resolveImageUri } from '../utils/uri';
+
+interface TokenLogoProps {
+    symbol: string;
+    logoURI?: string;
+    /** Badge class providing size and shape, e.g. `portfolio-badge`. */
+    className: string;
+    /** Number of symbol characters shown when there is no logo. */
+    symbolLength: number;
+    style?: CSSProperties;
+}
+
+/**
+ * Token badge showing the list logo, falling back to the symbol text when the
+ * token has no logo or the image fails to load.
+ *
+ * @param symbol - Token symbol
+ * @param logoURI - Logo from the token list
+ * @param className - Badge class
+ * @param symbolLength - Characters of the symbol shown in the fallback
+ * @param style - Extra styles, e.g. the fallback background color
+ */
+export function TokenLogo({ symbol, logoURI, className, symbolLength, style }: TokenLogoProps) {
+    const src = resolveImageUri(logoURI);
+    const [failedSrc, setFailedSrc] = useState<string | null>(null);
+
+    if (src && src !== failedSrc) {
+        return (
+            <img
+                className={`${className} token-logo`}
+                src={src}
+                alt={symbol}
+                loading="lazy"
+                onError={() => setFailedSrc(src)}
+            />
+        );
+    }
+
+    return (
+        <span className={className} style={style}>
+            {symbol.slice(0, symbolLength)}
+        </span>
+    );
+}
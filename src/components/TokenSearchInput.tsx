@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { TokenListEntry } from '../services/tokenList';
+import { TokenLogo } from './TokenLogo';
+
+interface TokenSearchInputProps {
+    value: string;
+    onChange: (value: string) => void;
+    /** Called with the list entry the user picked; the input is set to its address. */
+    onSelect?: (entry: TokenListEntry) => void;
+    search: (query: string) => TokenListEntry[];
+    placeholder: string;
+    disabled?: boolean;
+}
+
+/**
+ * Address input that suggests tokens from the loaded token lists by name or
+ * symbol. Raw addresses can still be typed or pasted.
+ *
+ * @param value - Input text
+ * @param onChange - Called on every edit
+ * @param onSelect - Called when a suggestion is picked
+ * @param search - Token list search
+ * @param placeholder - Input placeholder
+ * @param disabled - Disables the input
+ */
+export function TokenSearchInput({
+    value,
+    onChange,
+    onSelect,
+    search,
+    placeholder,
+    disabled,
+}: TokenSearchInputProps) {
+    const [open, setOpen] = useState(false);
+    const [highlighted, setHighlighted] = useState(0);
+
+    const suggestions = open ? search(value) : [];
+
+    const select = (entry: TokenListEntry) => {
+        onChange(entry.address);
+        setOpen(false);
+        onSelect?.(entry);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (suggestions.length === 0) return;
+
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setHighlighted((i) => (i + 1) % suggestions.length);
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setHighlighted((i) => (i - 1 + suggestions.length) % suggestions.length);
+        } else if (e.key === 'Enter') {
+            const entry = suggestions[highlighted];
+            if (entry) {
+                e.preventDefault();
+                select(entry);
+            }
+        } else if (e.key === 'Escape') {
+            setOpen(false);
+        }
+    };
+
+    return (
+        <div className="token-search">
+            <input
+                type="text"
+                className="search-input"
+                placeholder={placeholder}
+                value={value}
+                disabled={disabled}
+                role="combobox"
+                aria-expanded={suggestions.length > 0}
+                aria-autocomplete="list"
+                onChange={(e) => {
+                    onChange(e.target.value);
+                    setOpen(true);
+                    setHighlighted(0);
+                }}
+                onFocus={() => setOpen(true)}
+                onBlur={() => setOpen(false)}
+                onKeyDown={handleKeyDown}
+            />
+            {suggestions.length > 0 && (
+                <ul className="token-suggestions" role="listbox">
+                    {suggestions.map((entry, i) => (
+                        <li
+                            key={entry.address}
+                            role="option"
+                            aria-selected={i === highlighted}
+                            className={`token-suggestion ${i === highlighted ? 'active' : ''}`}
+                            // Keep focus in the input so blur does not close the list first
+                            onMouseDown={(e) => e.preventDefault()}
+                            onMouseEnter={() => setHighlighted(i)}
+                            onClick={() => select(entry)}
+                        >
+                            <TokenLogo
+                                symbol={entry.symbol}
+                                logoURI={entry.logoURI}
+                                className="token-suggestion-logo"
+                                symbolLength={3}
+                            />
+                            <span className="token-suggestion-symbol">{entry.symbol}</span>
+                            <span className="token-suggestion-name">{entry.name}</span>
+                            <span className="token-suggestion-addr">
+                                {entry.address.slice(0, 10)}...{entry.address.slice(-4)}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,231 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useOPNet } from '../providers/OPNetProvider';
+import { useRouter } from '../providers/RouterProvider';
+import {
+    getTransferHistory,
+    scanTransfers,
+    BlockRange,
+    TransferHistory,
+    TransferRecord,
+} from '../services/transferHistory';
+import { formatTokenAmount } from '../utils/amount';
+import { shortenHash } from '../utils/format';
+
+interface TokenTransfersProps {
+    contractAddress: string;
+    symbol: string;
+    decimals: number;
+}
+
+/** Block counts offered for each scan. */
+const PAGE_SIZES = [25, 50, 100, 250] as const;
+
+/**
+ * Renders a transfer party as a shortened hex address.
+ *
+ * @param address - Sender or recipient, null for mints and burns
+ * @param placeholder - Shown when there is no address
+ */
+function Party({ address, placeholder }: { address: TransferRecord['from']; placeholder: string }) {
+    if (!address) return <span className="transfer-party transfer-mint-burn">{placeholder}</span>;
+    const hex = address.toHex();
+    return (
+        <span className="transfer-party" title={hex}>
+            {shortenHash(hex, 8, 6)}
+        </span>
+    );
+}
+
+/**
+ * Transfer history for an OP20 token.
+ * Scans recent blocks for the token's Transfer, Mint and Burn events and lists them newest first,
+ * with "load older" pagination over further block ranges. Scanned ranges are
+ * remembered for the session so revisiting a token resumes where it stopped.
+ *
+ * @param contractAddress - OP20 contract address
+ * @param symbol - Token symbol
+ * @param decimals - Token decimals
+ */
+export function TokenTransfers({ contractAddress, symbol, decimals }: TokenTransfersProps) {
+    const { provider, network, networkId, isConnected } = useOPNet();
+    const { navigate } = useRouter();
+    const [history, setHistory] = useState<TransferHistory>(() =>
+        getTransferHistory(networkId, contractAddress),
+    );
+    const [pageSize, setPageSize] = useState<number>(PAGE_SIZES[1]);
+    const [scanning, setScanning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    const runScan = useCallback(
+        async (range: BlockRange) => {
+            if (!provider) return;
+
+            abortRef.current?.abort();
+            const controller = new AbortController();
+            abortRef.current = controller;
+
+            setScanning(true);
+            setError(null);
+            try {
+                await scanTransfers(
+                    { provider, network, networkId },
+                    contractAddress,
+                    range,
+                    (next) => {
+                        if (!controller.signal.aborted) setHistory(next);
+                    },
+                    controller.signal,
+                );
+            } catch (err) {
+                if (controller.signal.aborted) return;
+                const message = err instanceof Error ? err.message : String(err);
+                setError(`Scan failed: ${message}`);
+            } finally {
+                if (abortRef.current === controller) {
+                    abortRef.current = null;
+                    setScanning(false);
+                }
+            }
+        },
+        [provider, network, networkId, contractAddress],
+    );
+
+    const scanLatest = useCallback(async () => {
+        if (!provider) return;
+        try {
+            const tip = await provider.getBlockNumber();
+            const scanned = getTransferHistory(networkId, contractAddress).ranges;
+            const highest = scanned[scanned.length - 1];
+            const from = highest
+                ? highest.to + 1n
+                : tip - BigInt(pageSize - 1) > 0n
+                  ? tip - BigInt(pageSize - 1)
+                  : 0n;
+            if (from <= tip) {
+                await runScan({ from, to: tip });
+            }
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            setError(`Failed to read chain tip: ${message}`);
+        }
+    }, [provider, networkId, contractAddress, pageSize, runScan]);
+
+    useEffect(() => {
+        setHistory(getTransferHistory(networkId, contractAddress));
+        if (isConnected) {
+            void scanLatest();
+        }
+        return () => abortRef.current?.abort();
+    }, [networkId, contractAddress, isConnected, scanLatest]);
+
+    const lowest = history.ranges[0];
+    const canLoadOlder = !scanning && lowest !== undefined && lowest.from > 0n;
+
+    const loadOlder = () => {
+        if (!lowest) return;
+        const to = lowest.from - 1n;
+        const from = to - BigInt(pageSize - 1) > 0n ? to - BigInt(pageSize - 1) : 0n;
+        void runScan({ from, to });
+    };
+
+    return (
+        <div className="transfers-card">
+            <div className="transfers-toolbar">
+                <span className="muted-note">
+                    {history.ranges.length === 0
+                        ? 'No blocks scanned yet'
+                        : `Scanned ${history.ranges
+                              .map((r) => `#${r.from.toLocaleString()}–#${r.to.toLocaleString()}`)
+                              .join(', ')}`}
+                </span>
+                <select
+                    className="network-select transfers-page-select"
+                    value={pageSize}
+                    onChange={(e) => setPageSize(Number(e.target.value))}
+                    disabled={scanning}
+                    title="Blocks per scan"
+                >
+                    {PAGE_SIZES.map((size) => (
+                        <option key={size} value={size}>
+                            {size} blocks
+                        </option>
+                    ))}
+                </select>
+                <button
+                    className="btn btn-outline btn-sm"
+                    onClick={() => void scanLatest()}
+                    disabled={scanning || !isConnected}
+                >
+                    Refresh
+                </button>
+                {scanning && (
+                    <button
+                        className="btn btn-outline btn-sm"
+                        onClick={() => abortRef.current?.abort()}
+                    >
+                        Stop
+                    </button>
+                )}
+            </div>
+
+            {error && (
+                <div className="error-card">
+                    <p>{error}</p>
+                </div>
+            )}
+
+            {history.skipped.length > 0 && (
+                <p className="muted-note" title={history.skipped[0]?.error}>
+                    {history.skipped.length} event{history.skipped.length !== 1 ? 's' : ''} in the
+                    scanned blocks could not be decoded and{' '}
+                    {history.skipped.length !== 1 ? 'were' : 'was'} skipped.
+                </p>
+            )}
+
+            {history.transfers.length === 0 && !scanning && history.ranges.length > 0 && (
+                <p className="muted-note">No {symbol} transfers in the scanned blocks.</p>
+            )}
+
+            {history.transfers.length > 0 && (
+                <div className="transfer-list">
+                    <div className="transfer-row transfer-head">
+                        <span>Block</span>
+                        <span>From</span>
+                        <span>To</span>
+                        <span className="transfer-amount">Amount</span>
+                    </div>
+                    {history.transfers.map((transfer) => (
+                        <div
+                            key={`${transfer.txId}-${transfer.eventIndex}`}
+                            className="transfer-row"
+                            role="button"
+                            title={transfer.txId}
+                            onClick={() => navigate({ view: 'tx', hash: transfer.txId })}
+                        >
+                            <span className="transfer-block">
+                                #{transfer.blockNumber.toLocaleString()}
+                            </span>
+                            <Party address={transfer.from} placeholder="Mint" />
+                            <Party address={transfer.to} placeholder="Burn" />
+                            <span className="transfer-amount">
+                                {formatTokenAmount(transfer.amount, decimals)} {symbol}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {scanning && (
+                <div className="loading-panel">
+                    <div className="loading-spinner" />
+                    <p className="loading-text">Scanning blocks...</p>
+                </div>
+            )}
+
+            <button className="btn btn-outline" onClick={loadOlder} disabled={!canLoadOlder}>
+                Load older ({pageSize} blocks)
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,302 @@
+import { useState, useEffect } from 'react';
+import { OPNetTransactionTypes, TransactionBase, TransactionReceipt } from 'opnet';
+import { NetEvent } from '@btc-vision/transaction';
+import { useOPNet } from '../providers/OPNetProvider';
+import { useRouter } from '../providers/RouterProvider';
+import { useTokenService } from '../hooks/useTokenService';
+import { decodeOP20Events, DecodedOP20Event, OP20_EVENT_LABELS } from '../services/op20Events';
+import { TokenMetadata } from '../services/tokenService';
+import { formatTokenAmount } from '../utils/amount';
+import { shortenHash } from '../utils/format';
+
+interface ContractEventGroup {
+    contract: string;
+    token: TokenMetadata | null;
+    decoded: DecodedOP20Event[];
+    raw: NetEvent[];
+}
+
+interface TransactionViewProps {
+    hash: string | null;
+}
+
+/**
+ * Checks whether a string looks like a transaction hash: 64 hex characters
+ * without a `0x` prefix, which is how contract addresses in hex form are written.
+ *
+ * @param value - User input
+ * @returns True for a bare 64-character hex string
+ */
+export function isTransactionHash(value: string): boolean {
+    return /^[0-9a-fA-F]{64}$/.test(value.trim());
+}
+
+/**
+ * Renders one decoded OP20 event as a readable sentence.
+ *
+ * @param event - Decoded event
+ * @param token - Metadata of the emitting token
+ */
+function EventRow({ event, token }: { event: DecodedOP20Event; token: TokenMetadata }) {
+    const amount = `${formatTokenAmount(event.amount, token.decimals)} ${token.symbol}`;
+    const party = (label: string, addr: DecodedOP20Event['from']) =>
+        addr && (
+            <span className="tx-event-party">
+                {label}{' '}
+                <span className="mono" title={addr.toHex()}>
+                    {shortenHash(addr.toHex())}
+                </span>
+            </span>
+        );
+
+    return (
+        <div className="tx-event-row">
+            <span className={`tx-event-kind ${event.kind.toLowerCase()}`}>
+                {OP20_EVENT_LABELS[event.kind]}
+            </span>
+            <span className="tx-event-amount">{amount}</span>
+            {party('from', event.from)}
+            {party('to', event.to)}
+            {party('owner', event.owner)}
+            {party('spender', event.spender)}
+        </div>
+    );
+}
+
+/**
+ * Transaction lookup view.
+ * Loads a transaction and its receipt, then decodes OP20 events using
+ * the shared token metadata so amounts show with the right decimals and symbol.
+ * A transaction without a receipt yet is shown as pending, without gas or events.
+ *
+ * @param hash - Transaction hash from the URL, or null to show only the search form
+ */
+export function TransactionView({ hash }: TransactionViewProps) {
+    const { provider, network, networkId, isConnected } = useOPNet();
+    const { navigate } = useRouter();
+    const tokenService = useTokenService();
+    const [input, setInput] = useState(hash ?? '');
+    const [tx, setTx] = useState<TransactionBase<OPNetTransactionTypes> | null>(null);
+    const [receipt, setReceipt] = useState<TransactionReceipt | null>(null);
+    const [groups, setGroups] = useState<ContractEventGroup[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    useEffect(() => {
+        setInput(hash ?? '');
+        setTx(null);
+        setReceipt(null);
+        setGroups([]);
+        setError(null);
+        if (!hash || !provider || !tokenService || !isConnected) return;
+
+        let cancelled = false;
+        setLoading(true);
+
+        const load = async () => {
+            try {
+                const [fetchedTx, fetchedReceipt] = await Promise.all([
+                    provider.getTransaction(hash),
+                    provider.getTransactionReceipt(hash).catch(() => null),
+                ]);
+                if (cancelled) return;
+                setTx(fetchedTx);
+                setReceipt(fetchedReceipt);
+                if (!fetchedReceipt) return;
+
+                const ctx = { provider, network, networkId };
+                const entries = Object.entries(fetchedReceipt.events);
+                const decodedGroups = await Promise.all(
+                    entries.map(async ([contract, events]): Promise<ContractEventGroup> => {
+                        try {
+                            const token = await tokenService.getTokenMetadata(contract);
+                            return {
+                                contract,
+                                token,
+                                decoded: decodeOP20Events(ctx, contract, events),
+                                raw: events,
+                            };
+                        } catch {
+                            return { contract, token: null, decoded: [], raw: events };
+                        }
+                    }),
+                );
+                if (!cancelled) setGroups(decodedGroups);
+            } catch (err) {
+                if (cancelled) return;
+                const message = err instanceof Error ? err.message : String(err);
+                setError(`Failed to load transaction: ${message}`);
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+
+        void load();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [hash, provider, network, networkId, tokenService, isConnected]);
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        const value = input.trim().replace(/^0x/i, '');
+        if (!isTransactionHash(value)) {
+            setError('Enter a 64-character transaction hash');
+            return;
+        }
+        navigate({ view: 'tx', hash: value.toLowerCase() });
+    };
+
+    const contractCalled =
+        tx && 'contractAddress' in tx && typeof tx.contractAddress === 'string'
+            ? tx.contractAddress
+            : null;
+
+    return (
+        <div className="token-explorer panel">
+            <div className="panel-header">
+                <h2 className="panel-title">
+                    <span className="panel-icon">&#x1F9FE;</span>
+                    Transaction Lookup
+                </h2>
+                <p className="panel-desc">Inspect status, gas and decoded OP20 events</p>
+            </div>
+
+            <form className="search-form" onSubmit={handleSearch}>
+                <input
+                    type="text"
+                    className="search-input"
+                    placeholder="Paste a transaction hash"
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                />
+                <button type="submit" className="btn btn-primary" disabled={loading}>
+                    {loading ? 'Loading...' : 'Look Up'}
+                </button>
+            </form>
+
+            {error && (
+                <div className="error-card">
+                    <p>{error}</p>
+                </div>
+            )}
+
+            {tx && (
+                <div className="token-details">
+                    <div className="block-field-list">
+                        <div className="block-field">
+                            <span className="detail-label">Hash</span>
+                            <span className="detail-value mono">{tx.id}</span>
+                        </div>
+                        <div className="block-field">
+                            <span className="detail-label">Status</span>
+                            {receipt ? (
+                                <span
+                                    className={`detail-value tx-status ${receipt.revert ? 'reverted' : 'success'}`}
+                                >
+                                    {receipt.revert ? `Reverted: ${receipt.revert}` : 'Success'}
+                                </span>
+                            ) : (
+                                <span className="detail-value tx-status pending">
+                                    Pending: no receipt yet
+                                </span>
+                            )}
+                        </div>
+                        <div className="block-field">
+                            <span className="detail-label">Type</span>
+                            <span className="detail-value">{tx.OPNetType}</span>
+                        </div>
+                        {tx.blockNumber !== undefined && (
+                            <div className="block-field">
+                                <span className="detail-label">Block</span>
+                                <button
+                                    className="card-link-btn detail-link"
+                                    onClick={() =>
+                                        tx.blockNumber !== undefined &&
+                                        navigate({ view: 'block', height: tx.blockNumber })
+                                    }
+                                >
+                                    #{tx.blockNumber.toLocaleString()}
+                                </button>
+                            </div>
+                        )}
+                        {contractCalled && (
+                            <div className="block-field">
+                                <span className="detail-label">Contract</span>
+                                <span className="detail-value mono">{contractCalled}</span>
+                            </div>
+                        )}
+                        {receipt && (
+                            <div className="block-field">
+                                <span className="detail-label">Gas Used</span>
+                                <span className="detail-value">
+                                    {receipt.gasUsed.toLocaleString()}
+                                </span>
+                            </div>
+                        )}
+                        <div className="block-field">
+                            <span className="detail-label">Priority Fee</span>
+                            <span className="detail-value">
+                                {BigInt(tx.priorityFee).toLocaleString()} sats
+                            </span>
+                        </div>
+                    </div>
+
+                    <div className="block-tx-section">
+                        <h3 className="sub-panel-title">Events</h3>
+                        {!receipt && (
+                            <p className="muted-note">
+                                Events are pending until the transaction is confirmed
+                            </p>
+                        )}
+                        {receipt && groups.length === 0 && (
+                            <p className="muted-note">No events emitted</p>
+                        )}
+                        {groups.map((group) => (
+                            <div key={group.contract} className="tx-event-group">
+                                <div className="tx-event-contract">
+                                    <span className="mono" title={group.contract}>
+                                        {shortenHash(group.contract, 14, 6)}
+                                    </span>
+                                    {group.token ? (
+                                        <span className="tx-event-token">
+                                            {group.token.name} ({group.token.symbol})
+                                        </span>
+                                    ) : (
+                                        <span className="tx-event-token muted-note">
+                                            Not an OP20 token
+                                        </span>
+                                    )}
+                                </div>
+                                {group.token &&
+                                    group.decoded.map((event, i) => (
+                                        <EventRow
+                                            key={`${event.kind}-${i}`}
+                                            event={event}
+                                            token={group.token as TokenMetadata}
+                                        />
+                                    ))}
+                                {group.raw.length > group.decoded.length && (
+                                    <p className="muted-note">
+                                        {group.raw.length - group.decoded.length} undecoded event
+                                        {group.raw.length - group.decoded.length !== 1
+                                            ? 's'
+                                            : ''}:{' '}
+                                        {group.raw
+                                            .map((event) => event.type)
+                                            .filter(
+                                                (type) =>
+                                                    !(type in OP20_EVENT_LABELS) || !group.token,
+                                            )
+                                            .join(', ')}
+                                    </p>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,294 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Address } from '@btc-vision/transaction';
+import { useOPNet } from '../providers/OPNetProvider';
+import { useTokenService } from '../hooks/useTokenService';
+import { WatchedAddress } from '../hooks/useWatchlist';
+import { TokenInfo } from '../services/tokenService';
+import { formatTokenAmount, FormatAmountOptions } from '../utils/amount';
+
+interface WatchedHoldings {
+    balances: Record<string, bigint>;
+    error: string | null;
+}
+
+interface WatchedAddressesProps {
+    tokens: TokenInfo[];
+    walletBalances: Record<string, bigint> | null;
+    watched: WatchedAddress[];
+    onAdd: (entries: WatchedAddress[]) => void;
+    onRemove: (address: string) => void;
+}
+
+const HOLDINGS_FORMAT: FormatAmountOptions = { maxFractionDigits: 4 };
+
+/**
+ * Sums the balances of each token across a set of holdings.
+ *
+ * @param holdings - Per-address holdings
+ * @returns Total raw balance per token address
+ */
+function sumHoldings(holdings: WatchedHoldings[]): Record<string, bigint> {
+    const totals: Record<string, bigint> = {};
+    for (const entry of holdings) {
+        for (const [token, balance] of Object.entries(entry.balances)) {
+            totals[token] = (totals[token] ?? 0n) + balance;
+        }
+    }
+    return totals;
+}
+
+/**
+ * Watch-only addresses section of the portfolio.
+ * Shows each labeled address (treasury, cold storage, multisigs) with its
+ * holdings across the tracked tokens and an aggregated total next to the
+ * connected wallet's balances.
+ *
+ * @param tokens - Tokens tracked in the portfolio
+ * @param walletBalances - Connected wallet balances by token address, or null without a wallet
+ * @param watched - Watched addresses on the active network
+ * @param onAdd - Adds watched addresses
+ * @param onRemove - Stops watching an address
+ */
+export function WatchedAddresses({
+    tokens,
+    walletBalances,
+    watched,
+    onAdd,
+    onRemove,
+}: WatchedAddressesProps) {
+    const { provider, networkId, isConnected } = useOPNet();
+    const tokenService = useTokenService();
+
+    const [holdings, setHoldings] = useState<Record<string, WatchedHoldings>>({});
+    const [labelInput, setLabelInput] = useState('');
+    const [addressInput, setAddressInput] = useState('');
+    const [adding, setAdding] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const resolved = useRef(new Map<string, Address>());
+
+    useEffect(() => {
+        setHoldings({});
+        resolved.current.clear();
+    }, [networkId]);
+
+    const resolveAddress = useCallback(
+        async (address: string): Promise<Address> => {
+            const cached = resolved.current.get(address);
+            if (cached) return cached;
+
+            if (!provider) throw new Error('Not connected to OPNet RPC');
+            const result: Address | undefined = await provider.getPublicKeyInfo(address, false);
+            if (!result) {
+                throw new Error('Address could not be resolved');
+            }
+            resolved.current.set(address, result);
+            return result;
+        },
+        [provider],
+    );
+
+    useEffect(() => {
+        if (!tokenService || !isConnected || watched.length === 0) return;
+
+        let cancelled = false;
+
+        const load = async (entry: WatchedAddress): Promise<WatchedHoldings> => {
+            try {
+                const owner = await resolveAddress(entry.address);
+                const results = await Promise.allSettled(
+                    tokens.map((token) => tokenService.getBalance(token.address, owner)),
+                );
+
+                const balances: Record<string, bigint> = {};
+                let failed = 0;
+                results.forEach((result, i) => {
+                    const token = tokens[i];
+                    if (!token) return;
+                    if (result.status === 'fulfilled') {
+                        balances[token.address] = result.value;
+                    } else {
+                        failed++;
+                    }
+                });
+
+                return {
+                    balances,
+                    error:
+                        failed > 0
+                            ? `Failed to load ${failed} balance${failed !== 1 ? 's' : ''}`
+                            : null,
+                };
+            } catch (err) {
+                const message = err instanceof Error ? err.message : String(err);
+                return { balances: {}, error: message };
+            }
+        };
+
+        void Promise.all(watched.map(load)).then((loaded) => {
+            if (cancelled) return;
+            const next: Record<string, WatchedHoldings> = {};
+            watched.forEach((entry, i) => {
+                const result = loaded[i];
+                if (result) next[entry.address] = result;
+            });
+            setHoldings(next);
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [watched, tokens, tokenService, isConnected, resolveAddress]);
+
+    const addWatched = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const address = addressInput.trim();
+        const label = labelInput.trim() || `Address ${watched.length + 1}`;
+        if (!address) return;
+
+        if (watched.some((w) => w.address === address)) {
+            setError('Address already watched');
+            return;
+        }
+
+        setAdding(true);
+        setError(null);
+        try {
+            await resolveAddress(address);
+            onAdd([{ label, address }]);
+            setLabelInput('');
+            setAddressInput('');
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            setError(`Cannot watch address: ${message}`);
+        } finally {
+            setAdding(false);
+        }
+    };
+
+    const removeWatched = (address: string) => {
+        onRemove(address);
+        setHoldings((prev) => {
+            const next = { ...prev };
+            delete next[address];
+            return next;
+        });
+    };
+
+    const watchedTotals = sumHoldings(Object.values(holdings));
+
+    const renderBalances = (balances: Record<string, bigint> | undefined) =>
+        tokens.map((token) => {
+            const balance = balances?.[token.address];
+            return (
+                <span key={token.address} className="watch-cell">
+                    {balance !== undefined
+                        ? formatTokenAmount(balance, token.decimals, HOLDINGS_FORMAT)
+                        : '---'}
+                </span>
+            );
+        });
+
+    return (
+        <div className="approvals-card watch-card">
+            <h3 className="sub-panel-title">Watched Addresses</h3>
+
+            <form className="search-form watch-form" onSubmit={(e) => void addWatched(e)}>
+                <input
+                    type="text"
+                    className="search-input watch-label-input"
+                    placeholder="Label (e.g. Treasury)"
+                    value={labelInput}
+                    onChange={(e) => setLabelInput(e.target.value)}
+                    disabled={adding}
+                />
+                <input
+                    type="text"
+                    className="search-input"
+                    placeholder="Address to watch (bc1p..., bc1q... or 0x...)"
+                    value={addressInput}
+                    onChange={(e) => setAddressInput(e.target.value)}
+                    disabled={adding}
+                />
+                <button
+                    type="submit"
+                    className="btn btn-outline"
+                    disabled={adding || !isConnected || !addressInput.trim()}
+                >
+                    {adding ? 'Resolving...' : 'Watch'}
+                </button>
+            </form>
+
+            {error && (
+                <div className="error-card">
+                    <p>{error}</p>
+                </div>
+            )}
+
+            {watched.length === 0 && (
+                <p className="muted-note">
+                    No watched addresses. Add a treasury, cold storage or multisig address to track
+                    its holdings without connecting it.
+                </p>
+            )}
+
+            {watched.length > 0 && tokens.length === 0 && (
+                <p className="muted-note">Add tokens above to see watched holdings.</p>
+            )}
+
+            {watched.length > 0 && tokens.length > 0 && (
+                <div className="watch-table">
+                    <div className="watch-row watch-head">
+                        <span className="watch-name">Address</span>
+                        {tokens.map((token) => (
+                            <span key={token.address} className="watch-cell">
+                                {token.symbol}
+                            </span>
+                        ))}
+                        <span className="watch-action" />
+                    </div>
+
+                    {watched.map((entry) => {
+                        const entryHoldings = holdings[entry.address];
+                        return (
+                            <div key={entry.address} className="watch-row">
+                                <span className="watch-name">
+                                    <span className="watch-label">{entry.label}</span>
+                                    <span className="watch-address" title={entry.address}>
+                                        {entry.address.slice(0, 10)}...{entry.address.slice(-6)}
+                                    </span>
+                                    {entryHoldings?.error && (
+                                        <span className="approval-error">
+                                            {entryHoldings.error}
+                                        </span>
+                                    )}
+                                </span>
+                                {renderBalances(entryHoldings?.balances)}
+                                <button
+                                    className="remove-btn watch-action"
+                                    onClick={() => removeWatched(entry.address)}
+                                    title="Stop watching"
+                                >
+                                    &#x2715;
+                                </button>
+                            </div>
+                        );
+                    })}
+
+                    <div className="watch-row watch-total">
+                        <span className="watch-name">Watched Total</span>
+                        {renderBalances(watchedTotals)}
+                        <span className="watch-action" />
+                    </div>
+
+                    {walletBalances && (
+                        <div className="watch-row watch-total">
+                            <span className="watch-name">Connected Wallet</span>
+                            {renderBalances(walletBalances)}
+                            <span className="watch-action" />
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
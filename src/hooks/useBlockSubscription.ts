@@ -0,0 +1,18 @@
+import { useEffect, useRef } from 'react';
+import { useOPNet } from '../providers/OPNetProvider';
+import { BlockHead } from '../services/blockFeed';
+
+/**
+ * Hook calling `onBlock` whenever the active network announces a new chain tip,
+ * and once on mount with the current tip if one is known. The latest callback is
+ * always used, so it does not need to be memoized.
+ *
+ * @param onBlock - Called with each new head
+ */
+export function useBlockSubscription(onBlock: (head: BlockHead) => void): void {
+    const { subscribeBlocks } = useOPNet();
+    const onBlockRef = useRef(onBlock);
+    onBlockRef.current = onBlock;
+
+    useEffect(() => subscribeBlocks((head) => onBlockRef.current(head)), [subscribeBlocks]);
+}
@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { fetchNftMetadata, NftMetadata } from '../services/nftService';
+
+interface NftMetadataState {
+    metadata: NftMetadata | null;
+    error: string | null;
+}
+
+/**
+ * Hook loading the metadata document behind a token URI.
+ *
+ * @param uri - Token URI, or null when the contract returned none
+ * @returns The metadata once loaded, or the reason it could not be resolved
+ */
+export function useNftMetadata(uri: string | null): NftMetadataState {
+    const [state, setState] = useState<NftMetadataState>({ metadata: null, error: null });
+
+    useEffect(() => {
+        setState({ metadata: null, error: null });
+        if (uri === null) return;
+
+        let cancelled = false;
+        fetchNftMetadata(uri).then(
+            (metadata) => {
+                if (!cancelled) setState({ metadata, error: null });
+            },
+            (err: unknown) => {
+                if (cancelled) return;
+                setState({
+                    metadata: null,
+                    error: err instanceof Error ? err.message : String(err),
+                });
+            },
+        );
+
+        return () => {
+            cancelled = true;
+        };
+    }, [uri]);
+
+    return state;
+}
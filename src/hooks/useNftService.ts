@@ -0,0 +1,40 @@
+import { useMemo } from 'react';
+import { Address } from '@btc-vision/transaction';
+import { useOPNet } from '../providers/OPNetProvider';
+import {
+    CollectionInfo,
+    fetchCollectionInfo,
+    fetchOwnedTokens,
+    fetchOwnerOf,
+    fetchTokenUri,
+    OwnedNfts,
+} from '../services/nftService';
+import { TokenServiceContext } from '../services/tokenService';
+
+interface NftService {
+    getCollectionInfo: (address: string) => Promise<CollectionInfo>;
+    getOwnerOf: (address: string, tokenId: bigint) => Promise<Address>;
+    getTokenUri: (address: string, tokenId: bigint) => Promise<string>;
+    getOwnedTokens: (address: string, owner: Address) => Promise<OwnedNfts>;
+}
+
+/**
+ * Hook exposing OP721 collection lookups bound to the active network.
+ *
+ * @returns Collection lookups, or null while the RPC provider is not ready
+ */
+export function useNftService(): NftService | null {
+    const { provider, network, networkId } = useOPNet();
+
+    return useMemo(() => {
+        if (!provider) return null;
+
+        const ctx: TokenServiceContext = { provider, network, networkId };
+        return {
+            getCollectionInfo: (address) => fetchCollectionInfo(ctx, address),
+            getOwnerOf: (address, tokenId) => fetchOwnerOf(ctx, address, tokenId),
+            getTokenUri: (address, tokenId) => fetchTokenUri(ctx, address, tokenId),
+            getOwnedTokens: (address, owner) => fetchOwnedTokens(ctx, address, owner),
+        };
+    }, [provider, network, networkId]);
+}
@@ -0,0 +1,55 @@
+import { useMemo, useState, useEffect } from 'react';
+import { useOPNet } from '../providers/OPNetProvider';
+import { createAmmPriceSource, nativeSwapReserveReader } from '../services/ammPriceSource';
+import { PriceSource } from '../services/priceSources';
+import { loadStored, saveStored, storageKey } from '../utils/storage';
+
+/**
+ * Price source settings for a network.
+ */
+export interface PriceSourceConfig {
+    /** NativeSwap contract whose token/BTC pools are used for prices. */
+    nativeSwap: string | null;
+}
+
+const EMPTY_CONFIG: PriceSourceConfig = { nativeSwap: null };
+
+interface PriceSources {
+    sources: PriceSource[];
+    config: PriceSourceConfig;
+    saveConfig: (config: PriceSourceConfig) => void;
+}
+
+/**
+ * Hook building the price sources configured for the active network.
+ * The configuration is persisted per network.
+ *
+ * @returns Configured sources in order of preference, and the settings behind them
+ */
+export function usePriceSources(): PriceSources {
+    const { provider, network, networkId } = useOPNet();
+    const key = storageKey('price-sources', networkId);
+    const [config, setConfig] = useState<PriceSourceConfig>(() =>
+        loadStored<PriceSourceConfig>(key, EMPTY_CONFIG),
+    );
+
+    useEffect(() => {
+        setConfig(loadStored<PriceSourceConfig>(key, EMPTY_CONFIG));
+    }, [key]);
+
+    const sources = useMemo(() => {
+        if (!provider || !config.nativeSwap) return [];
+
+        const ctx = { provider, network, networkId };
+        return [
+            createAmmPriceSource(nativeSwapReserveReader(ctx, config.nativeSwap), 'NativeSwap'),
+        ];
+    }, [provider, network, networkId, config.nativeSwap]);
+
+    const saveConfig = (next: PriceSourceConfig) => {
+        setConfig(next);
+        saveStored(key, next);
+    };
+
+    return { sources, config, saveConfig };
+}
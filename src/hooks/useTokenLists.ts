@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useOPNet } from '../providers/OPNetProvider';
+import {
+    DEFAULT_TOKEN_LIST,
+    fetchTokenList,
+    findListedToken,
+    indexTokenLists,
+    parseTokenListText,
+    searchTokenList,
+    TokenList,
+    TokenListEntry,
+} from '../services/tokenList';
+import { loadStored, saveStored, storageKey } from '../utils/storage';
+
+/**
+ * Token list added by the user. URL lists keep their last download so they
+ * still work offline; file lists are stored as imported.
+ */
+export interface StoredTokenList {
+    kind: 'url' | 'file';
+    /** List URL, or the imported file name. */
+    source: string;
+    list: TokenList;
+}
+
+interface TokenLists {
+    /** User lists in order of precedence; the bundled list comes after them. */
+    lists: StoredTokenList[];
+    /** Errors from refreshing URL lists, keyed by URL. */
+    refreshErrors: Record<string, string>;
+    findToken: (address: string) => TokenListEntry | undefined;
+    search: (query: string) => TokenListEntry[];
+    addUrl: (url: string) => Promise<void>;
+    addFile: (file: File) => Promise<void>;
+    removeList: (source: string) => void;
+}
+
+const LISTS_KEY = storageKey('token-lists');
+
+/**
+ * Hook loading the bundled token list and the lists added by the user,
+ * scoped to the active network. URL lists are refreshed on mount.
+ *
+ * @returns Lookup and search over the lists, and actions to manage them
+ */
+export function useTokenLists(): TokenLists {
+    const { networkId } = useOPNet();
+    const [lists, setLists] = useState<StoredTokenList[]>(() =>
+        loadStored<StoredTokenList[]>(LISTS_KEY, []),
+    );
+    const [refreshErrors, setRefreshErrors] = useState<Record<string, string>>({});
+
+    const persist = useCallback((update: (prev: StoredTokenList[]) => StoredTokenList[]) => {
+        setLists((prev) => {
+            const next = update(prev);
+            saveStored(LISTS_KEY, next);
+            return next;
+        });
+    }, []);
+
+    useEffect(() => {
+        let cancelled = false;
+        const urls = loadStored<StoredTokenList[]>(LISTS_KEY, [])
+            .filter((l) => l.kind === 'url')
+            .map((l) => l.source);
+
+        for (const url of urls) {
+            fetchTokenList(url).then(
+                (list) => {
+                    if (cancelled) return;
+                    persist((prev) =>
+                        prev.map((l) =>
+                            l.kind === 'url' && l.source === url ? { ...l, list } : l,
+                        ),
+                    );
+                },
+                (err: unknown) => {
+                    if (cancelled) return;
+                    const message = err instanceof Error ? err.message : String(err);
+                    setRefreshErrors((prev) => ({ ...prev, [url]: message }));
+                },
+            );
+        }
+
+        return () => {
+            cancelled = true;
+        };
+    }, [persist]);
+
+    const index = useMemo(
+        () => indexTokenLists([...lists.map((l) => l.list), DEFAULT_TOKEN_LIST], networkId),
+        [lists, networkId],
+    );
+
+    const findToken = useCallback((address: string) => findListedToken(index, address), [index]);
+    const search = useCallback((query: string) => searchTokenList(index, query), [index]);
+
+    const add = useCallback(
+        (entry: StoredTokenList) => {
+            persist((prev) => [...prev.filter((l) => l.source !== entry.source), entry]);
+            setRefreshErrors((prev) => {
+                const next = { ...prev };
+                delete next[entry.source];
+                return next;
+            });
+        },
+        [persist],
+    );
+
+    const addUrl = useCallback(
+        async (url: string) => {
+            const list = await fetchTokenList(url, true);
+            add({ kind: 'url', source: url, list });
+        },
+        [add],
+    );
+
+    const addFile = useCallback(
+        async (file: File) => {
+            const list = parseTokenListText(await file.text());
+            add({ kind: 'file', source: file.name, list });
+        },
+        [add],
+    );
+
+    const removeList = useCallback(
+        (source: string) => persist((prev) => prev.filter((l) => l.source !== source)),
+        [persist],
+    );
+
+    return { lists, refreshErrors, findToken, search, addUrl, addFile, removeList };
+}
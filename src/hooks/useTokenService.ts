@@ -0,0 +1,40 @@
+import { useMemo } from 'react';
+import { Address } from '@btc-vision/transaction';
+import { useOPNet } from '../providers/OPNetProvider';
+import {
+    fetchTokenBalance,
+    fetchTokenInfo,
+    fetchTokenMetadata,
+    TokenInfo,
+    TokenMetadata,
+    TokenServiceContext,
+} from '../services/tokenService';
+import { ContractType, detectContractType } from '../services/contractProbe';
+
+interface TokenService {
+    getContractType: (address: string) => Promise<ContractType>;
+    getTokenMetadata: (address: string) => Promise<TokenMetadata>;
+    getTokenInfo: (address: string) => Promise<TokenInfo>;
+    getBalance: (address: string, owner: Address) => Promise<bigint>;
+}
+
+/**
+ * Hook exposing the shared OP20 token service bound to the active network.
+ *
+ * @returns Cached token lookups, or null while the RPC provider is not ready
+ */
+export function useTokenService(): TokenService | null {
+    const { provider, network, networkId } = useOPNet();
+
+    return useMemo(() => {
+        if (!provider) return null;
+
+        const ctx: TokenServiceContext = { provider, network, networkId };
+        return {
+            getContractType: (address) => detectContractType(ctx, address),
+            getTokenMetadata: (address) => fetchTokenMetadata(ctx, address),
+            getTokenInfo: (address) => fetchTokenInfo(ctx, address),
+            getBalance: (address, owner) => fetchTokenBalance(ctx, address, owner),
+        };
+    }, [provider, network, networkId]);
+}
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useOPNet } from '../providers/OPNetProvider';
+import { loadStored, saveStored, storageKey } from '../utils/storage';
+
+/**
+ * A labeled address tracked without its keys.
+ */
+export interface WatchedAddress {
+    label: string;
+    address: string;
+}
+
+interface Watchlist {
+    watched: WatchedAddress[];
+    /** Adds entries whose address is not watched yet; returns the ones added. */
+    add: (entries: WatchedAddress[]) => WatchedAddress[];
+    remove: (address: string) => void;
+}
+
+/**
+ * Hook holding the watched addresses of the active network.
+ * The list is persisted per network; every component using the hook's result
+ * sees additions made through it without remounting.
+ *
+ * @returns Watched addresses and actions to change them
+ */
+export function useWatchlist(): Watchlist {
+    const { networkId } = useOPNet();
+    const key = storageKey('watchlist', networkId);
+    const [watched, setWatched] = useState<WatchedAddress[]>(() =>
+        loadStored<WatchedAddress[]>(key, []),
+    );
+
+    useEffect(() => {
+        setWatched(loadStored<WatchedAddress[]>(key, []));
+    }, [key]);
+
+    const add = useCallback(
+        (entries: WatchedAddress[]) => {
+            const current = loadStored<WatchedAddress[]>(key, []);
+            const fresh = entries.filter(
+                (entry, i) =>
+                    !current.some((w) => w.address === entry.address) &&
+                    entries.findIndex((e) => e.address === entry.address) === i,
+            );
+            if (fresh.length > 0) {
+                const next = [...current, ...fresh];
+                setWatched(next);
+                saveStored(key, next);
+            }
+            return fresh;
+        },
+        [key],
+    );
+
+    const remove = useCallback(
+        (address: string) => {
+            const next = loadStored<WatchedAddress[]>(key, []).filter((w) => w.address !== address);
+            setWatched(next);
+            saveStored(key, next);
+        },
+        [key],
+    );
+
+    return { watched, add, remove };
+}
@@ -1,6 +1,7 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import { WalletConnectProvider } from '@btc-vision/walletconnect';
+import { RouterProvider } from './providers/RouterProvider';
 import App from './App';
 import './styles/global.css';
 
@@ -12,7 +13,9 @@ if (!rootElement) {
 createRoot(rootElement).render(
     <StrictMode>
         <WalletConnectProvider theme="dark">
-            <App />
+            <RouterProvider defaultNetwork="mainnet">
+                <App />
+            </RouterProvider>
         </WalletConnectProvider>
     </StrictMode>,
 );
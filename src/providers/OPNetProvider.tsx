@@ -1,37 +1,187 @@
-import { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import {
+    createContext,
+    useContext,
+    useState,
+    useEffect,
+    useRef,
+    useCallback,
+    ReactNode,
+} from 'react';
 import { JSONRpcProvider } from 'opnet';
-import { networks, Network } from '@btc-vision/bitcoin';
+import { fromBech32, networks, Network } from '@btc-vision/bitcoin';
+import { loadStored, saveStored, storageKey } from '../utils/storage';
+import { BlockHead, BlockListener, startBlockFeed } from '../services/blockFeed';
+import {
+    ConnectionState,
+    ConnectionStatus,
+    RpcConnection,
+    startRpcConnection,
+} from '../services/rpcConnection';
 
 /**
- * Available OPNet networks with their configurations.
+ * Bitcoin network presets a custom OPNet network can be based on.
  */
-export const OPNetNetworks = {
-    mainnet: {
-        url: 'https://mainnet.opnet.org',
-        network: networks.bitcoin,
-    },
-    regtest: {
-        url: 'https://regtest.opnet.org',
-        network: networks.regtest,
-    },
+export const NetworkPresets = {
+    bitcoin: networks.bitcoin,
+    testnet: networks.testnet,
+    regtest: networks.regtest,
 } as const;
 
-export type OPNetNetworkId = keyof typeof OPNetNetworks;
+export type NetworkPreset = keyof typeof NetworkPresets;
+
+/**
+ * User-editable OPNet network entry.
+ */
+export interface OPNetNetworkConfig {
+    id: string;
+    label: string;
+    url: string;
+    /** Tried in order when the primary URL does not answer. */
+    fallbackUrls?: string[];
+    preset: NetworkPreset;
+}
+
+/**
+ * Built-in OPNet networks. User-defined networks are added alongside these.
+ */
+export const OPNetNetworks: readonly OPNetNetworkConfig[] = [
+    { id: 'mainnet', label: 'Mainnet', url: 'https://mainnet.opnet.org', preset: 'bitcoin' },
+    { id: 'testnet', label: 'Testnet', url: 'https://testnet.opnet.org', preset: 'testnet' },
+    { id: 'regtest', label: 'Regtest', url: 'https://regtest.opnet.org', preset: 'regtest' },
+];
+
+export type OPNetNetworkId = string;
+
+const CUSTOM_NETWORKS_KEY = storageKey('networks');
+
+/**
+ * Lists the built-in networks followed by the user-defined ones saved in this
+ * browser.
+ *
+ * @returns Configured networks
+ */
+export function loadNetworkConfigs(): OPNetNetworkConfig[] {
+    return [...OPNetNetworks, ...loadStored<OPNetNetworkConfig[]>(CUSTOM_NETWORKS_KEY, [])];
+}
+
+/** Time allowed for an RPC health check before the node is considered unreachable. */
+const HEALTH_CHECK_TIMEOUT_MS = 8000;
+
+/**
+ * Reads the node's Bitcoin network from the bech32 prefix of the output
+ * addresses in its tip block, since `btc_chainId` does not tell mainnet,
+ * testnet and regtest apart.
+ *
+ * @param rpcProvider - Provider for the node
+ * @param height - Current block height
+ * @param preset - Network the node is expected to be on
+ * @throws Error if the block pays to addresses of another network
+ */
+async function checkNodeNetwork(
+    rpcProvider: JSONRpcProvider,
+    height: bigint,
+    preset: NetworkPreset,
+): Promise<void> {
+    const block = await rpcProvider.getBlock(height, true);
+    const expected = NetworkPresets[preset].bech32;
+
+    for (const tx of block.transactions) {
+        for (const output of tx.outputs) {
+            const address = output.scriptPubKey.address;
+            if (!address) continue;
+
+            let prefix: string;
+            try {
+                prefix = fromBech32(address).prefix;
+            } catch {
+                continue;
+            }
+            if (prefix === expected) return;
+
+            const actual = (Object.keys(NetworkPresets) as NetworkPreset[]).find(
+                (key) => NetworkPresets[key].bech32 === prefix,
+            );
+            throw new Error(
+                `Node is on ${actual ?? `a network with "${prefix}" addresses`}, not ${preset}`,
+            );
+        }
+    }
+}
+
+/**
+ * Checks that an OPNet RPC endpoint responds on the given network.
+ *
+ * @param url - RPC URL to probe
+ * @param preset - Bitcoin network preset for the endpoint
+ * @returns The node's current block height
+ * @throws Error if the node does not answer in time or is on another network
+ */
+export async function checkRpcHealth(url: string, preset: NetworkPreset): Promise<bigint> {
+    const rpcProvider = new JSONRpcProvider(url, NetworkPresets[preset]);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(
+                () => reject(new Error('RPC did not respond in time')),
+                HEALTH_CHECK_TIMEOUT_MS,
+            );
+        });
+        const check = async () => {
+            const height = await rpcProvider.getBlockNumber();
+            await checkNodeNetwork(rpcProvider, height, preset);
+            return height;
+        };
+        return await Promise.race([check(), timeout]);
+    } finally {
+        clearTimeout(timer);
+        void rpcProvider.close();
+    }
+}
 
 interface OPNetContextType {
     provider: JSONRpcProvider | null;
     network: Network;
     networkId: OPNetNetworkId;
+    networkConfig: OPNetNetworkConfig;
+    networks: OPNetNetworkConfig[];
+    customNetworks: OPNetNetworkConfig[];
+    /** True while the RPC answers, i.e. when `status` is connected or degraded. */
     isConnected: boolean;
+    status: ConnectionStatus;
+    /** Last connection problem; set while degraded or offline. */
     error: Error | null;
+    /** When the next reconnect attempt runs while offline, in milliseconds since epoch. */
+    retryAt: number | null;
+    /** RPC URL currently in use, which may be a fallback. */
+    activeUrl: string | null;
+    retryConnection: () => void;
+    /** Reports a failed RPC call so the connection is health-checked early. */
+    reportRpcFailure: () => void;
+    /** Latest chain tip announced by the block feed. */
+    blockHead: BlockHead | null;
+    /** Registers a new-block listener; it is called with the current head right away. */
+    subscribeBlocks: (listener: BlockListener) => () => void;
     switchNetwork: (networkId: OPNetNetworkId) => void;
+    saveNetwork: (config: OPNetNetworkConfig) => void;
+    removeNetwork: (networkId: OPNetNetworkId) => void;
 }
 
 interface OPNetProviderProps {
     children: ReactNode;
     defaultNetwork?: OPNetNetworkId;
+    networkId?: OPNetNetworkId;
+    onNetworkChange?: (networkId: OPNetNetworkId) => void;
 }
 
+const CONNECTING: ConnectionState = {
+    status: 'connecting',
+    provider: null,
+    url: null,
+    error: null,
+    retryAt: null,
+};
+
 const OPNetContext = createContext<OPNetContextType | undefined>(undefined);
 
 /**
@@ -39,45 +189,111 @@ const OPNetContext = createContext<OPNetContextType | undefined>(undefined);
  *
  * @param children - Child components
  * @param defaultNetwork - Initial network to connect to
+ * @param networkId - Controlled network; when set, switching is delegated to `onNetworkChange`
+ * @param onNetworkChange - Callback when a network switch is requested in controlled mode
  */
-export function OPNetProvider({ children, defaultNetwork = 'mainnet' }: OPNetProviderProps) {
-    const [networkId, setNetworkId] = useState<OPNetNetworkId>(defaultNetwork);
-    const [provider, setProvider] = useState<JSONRpcProvider | null>(null);
-    const [isConnected, setIsConnected] = useState(false);
-    const [error, setError] = useState<Error | null>(null);
-    const providerRef = useRef<JSONRpcProvider | null>(null);
+export function OPNetProvider({
+    children,
+    defaultNetwork = 'mainnet',
+    networkId: controlledNetworkId,
+    onNetworkChange,
+}: OPNetProviderProps) {
+    const [localNetworkId, setLocalNetworkId] = useState<OPNetNetworkId>(defaultNetwork);
+    const [customNetworks, setCustomNetworks] = useState<OPNetNetworkConfig[]>(() =>
+        loadStored<OPNetNetworkConfig[]>(CUSTOM_NETWORKS_KEY, []),
+    );
+    const [connection, setConnection] = useState<ConnectionState>(CONNECTING);
+    const [blockHead, setBlockHead] = useState<BlockHead | null>(null);
+    const connectionRef = useRef<RpcConnection | null>(null);
+    const blockHeadRef = useRef<BlockHead | null>(null);
+    const blockListenersRef = useRef(new Set<BlockListener>());
 
-    const config = OPNetNetworks[networkId];
-    const network = config.network;
+    const allNetworks = [...OPNetNetworks, ...customNetworks];
+    const requestedId = controlledNetworkId ?? localNetworkId;
+    const config =
+        allNetworks.find((n) => n.id === requestedId) ??
+        allNetworks.find((n) => n.id === defaultNetwork) ??
+        OPNetNetworks[0]!;
+    const networkId = config.id;
+    const network = NetworkPresets[config.preset];
+    const rpcUrls = [config.url, ...(config.fallbackUrls ?? [])].join('\n');
+
+    const { provider, status, error, retryAt, url: activeUrl } = connection;
+    const isConnected = status === 'connected' || status === 'degraded';
 
     useEffect(() => {
-        const initProvider = async () => {
-            setError(null);
-            try {
-                const rpcProvider = new JSONRpcProvider(config.url, config.network);
-                providerRef.current = rpcProvider;
-                setProvider(rpcProvider);
-
-                await rpcProvider.getBlockNumber();
-                setIsConnected(true);
-            } catch (err) {
-                const initError = err instanceof Error ? err : new Error(String(err));
-                setError(initError);
-                setIsConnected(false);
-            }
+        setConnection(CONNECTING);
+        blockHeadRef.current = null;
+        setBlockHead(null);
+
+        const rpcConnection = startRpcConnection(rpcUrls.split('\n'), network, setConnection);
+        connectionRef.current = rpcConnection;
+
+        return () => {
+            connectionRef.current = null;
+            rpcConnection.close();
         };
+    }, [rpcUrls, network]);
+
+    useEffect(() => {
+        if (!provider || !activeUrl || !isConnected) return;
+
+        const feed = startBlockFeed(activeUrl, network, provider, (head) => {
+            blockHeadRef.current = head;
+            setBlockHead(head);
+            for (const listener of blockListenersRef.current) {
+                listener(head);
+            }
+        });
+        return () => feed.close();
+    }, [provider, activeUrl, network, isConnected]);
 
-        void initProvider();
+    const retryConnection = useCallback(() => connectionRef.current?.retry(), []);
+    const reportRpcFailure = useCallback(() => connectionRef.current?.reportFailure(), []);
 
+    const subscribeBlocks = useCallback((listener: BlockListener) => {
+        blockListenersRef.current.add(listener);
+        if (blockHeadRef.current) {
+            listener(blockHeadRef.current);
+        }
         return () => {
-            providerRef.current?.close();
+            blockListenersRef.current.delete(listener);
         };
-    }, [config]);
+    }, []);
 
     const switchNetwork = (newNetworkId: OPNetNetworkId) => {
         if (newNetworkId !== networkId) {
-            setIsConnected(false);
-            setNetworkId(newNetworkId);
+            setConnection(CONNECTING);
+            if (onNetworkChange) {
+                onNetworkChange(newNetworkId);
+            } else {
+                setLocalNetworkId(newNetworkId);
+            }
+        }
+    };
+
+    const persistCustomNetworks = (next: OPNetNetworkConfig[]) => {
+        setCustomNetworks(next);
+        saveStored(CUSTOM_NETWORKS_KEY, next);
+    };
+
+    const saveNetwork = (entry: OPNetNetworkConfig) => {
+        if (OPNetNetworks.some((n) => n.id === entry.id)) {
+            throw new Error('Built-in networks cannot be modified');
+        }
+
+        const exists = customNetworks.some((n) => n.id === entry.id);
+        persistCustomNetworks(
+            exists
+                ? customNetworks.map((n) => (n.id === entry.id ? entry : n))
+                : [...customNetworks, entry],
+        );
+    };
+
+    const removeNetwork = (id: OPNetNetworkId) => {
+        persistCustomNetworks(customNetworks.filter((n) => n.id !== id));
+        if (id === networkId) {
+            switchNetwork(defaultNetwork);
         }
     };
 
@@ -85,9 +301,21 @@ export function OPNetProvider({ children, defaultNetwork = 'mainnet' }: OPNetPro
         provider,
         network,
         networkId,
+        networkConfig: config,
+        networks: allNetworks,
+        customNetworks,
         isConnected,
+        status,
         error,
+        retryAt,
+        activeUrl,
+        retryConnection,
+        reportRpcFailure,
+        blockHead,
+        subscribeBlocks,
         switchNetwork,
+        saveNetwork,
+        removeNetwork,
     };
 
     return <OPNetContext.Provider value={value}>{children}</OPNetContext.Provider>;
@@ -0,0 +1,215 @@
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { loadNetworkConfigs, OPNetNetworkId } from './OPNetProvider';
+
+export type TabId = 'dashboard' | 'portfolio' | 'nfts' | 'explorer' | 'contracts';
+
+/**
+ * Application routes parsed from the browser location.
+ */
+export type Route =
+    | { view: 'dashboard' }
+    | { view: 'portfolio' }
+    | { view: 'nfts' }
+    | { view: 'explorer'; contract: string | null }
+    | { view: 'contracts'; contract: string | null }
+    | { view: 'block'; height: bigint }
+    | { view: 'tx'; hash: string | null };
+
+interface RouterContextType {
+    route: Route;
+    networkId: OPNetNetworkId;
+    navigate: (route: Route) => void;
+    setNetwork: (networkId: OPNetNetworkId) => void;
+}
+
+interface RouterProviderProps {
+    children: ReactNode;
+    defaultNetwork?: OPNetNetworkId;
+}
+
+interface Location {
+    route: Route;
+    networkId: OPNetNetworkId;
+}
+
+const RouterContext = createContext<RouterContextType | undefined>(undefined);
+
+/**
+ * Maps a route to the header tab it belongs to.
+ *
+ * @param route - Current route
+ * @returns Tab id to highlight
+ */
+export function routeTab(route: Route): TabId {
+    switch (route.view) {
+        case 'block':
+            return 'dashboard';
+        case 'tx':
+            return 'explorer';
+        default:
+            return route.view;
+    }
+}
+
+/**
+ * Parses a pathname into a route. Unknown or malformed paths fall back to the
+ * dashboard.
+ *
+ * @param pathname - Browser pathname, e.g. `/explorer/bc1p...`, `/block/12345` or `/tx/<hash>`
+ * @returns The matching route
+ */
+function parsePath(pathname: string): Route {
+    let segments: string[];
+    try {
+        segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    } catch {
+        // Malformed percent-encoding, e.g. `/explorer/%E0`
+        return { view: 'dashboard' };
+    }
+    const [section, param] = segments;
+
+    switch (section) {
+        case 'portfolio':
+            return { view: 'portfolio' };
+        case 'nfts':
+            return { view: 'nfts' };
+        case 'explorer':
+            return { view: 'explorer', contract: param ?? null };
+        case 'contracts':
+            return { view: 'contracts', contract: param ?? null };
+        case 'block':
+            return param !== undefined && /^\d+$/.test(param)
+                ? { view: 'block', height: BigInt(param) }
+                : { view: 'dashboard' };
+        case 'tx':
+            return { view: 'tx', hash: param ?? null };
+        default:
+            return { view: 'dashboard' };
+    }
+}
+
+/**
+ * Builds the pathname for a route.
+ *
+ * @param route - Route to format
+ * @returns Pathname starting with `/`
+ */
+function formatPath(route: Route): string {
+    switch (route.view) {
+        case 'portfolio':
+            return '/portfolio';
+        case 'nfts':
+            return '/nfts';
+        case 'explorer':
+            return route.contract ? `/explorer/${encodeURIComponent(route.contract)}` : '/explorer';
+        case 'contracts':
+            return route.contract
+                ? `/contracts/${encodeURIComponent(route.contract)}`
+                : '/contracts';
+        case 'block':
+            return `/block/${route.height.toString()}`;
+        case 'tx':
+            return route.hash ? `/tx/${encodeURIComponent(route.hash)}` : '/tx';
+        default:
+            return '/';
+    }
+}
+
+/**
+ * Builds the URL for a location. The default network is left out of the query.
+ *
+ * @param location - Route and network
+ * @param defaultNetwork - Network used when the URL has no `network` parameter
+ * @returns Pathname with query string
+ */
+function formatUrl(location: Location, defaultNetwork: OPNetNetworkId): string {
+    const search =
+        location.networkId === defaultNetwork
+            ? ''
+            : `?${new URLSearchParams({ network: location.networkId }).toString()}`;
+    return `${formatPath(location.route)}${search}`;
+}
+
+/**
+ * Reads the route and network from `window.location`. A `network` parameter
+ * naming no configured network is replaced by the default, and the URL is
+ * corrected in place so it matches the network actually shown.
+ *
+ * @param defaultNetwork - Network used when the URL has no valid `network` parameter
+ * @returns Parsed location
+ */
+function readLocation(defaultNetwork: OPNetNetworkId): Location {
+    const requested = new URLSearchParams(window.location.search).get('network');
+    const known = requested !== null && loadNetworkConfigs().some((n) => n.id === requested);
+    const location: Location = {
+        route: parsePath(window.location.pathname),
+        networkId: known ? requested : defaultNetwork,
+    };
+
+    if (requested !== null && !known) {
+        window.history.replaceState(null, '', formatUrl(location, defaultNetwork));
+    }
+    return location;
+}
+
+/**
+ * Provider component for URL-based routing.
+ * Keeps the active view and network in sync with the browser history.
+ *
+ * @param children - Child components
+ * @param defaultNetwork - Network used when the URL does not name one
+ */
+export function RouterProvider({ children, defaultNetwork = 'mainnet' }: RouterProviderProps) {
+    const [location, setLocation] = useState<Location>(() => readLocation(defaultNetwork));
+
+    useEffect(() => {
+        const handlePopState = () => setLocation(readLocation(defaultNetwork));
+        window.addEventListener('popstate', handlePopState);
+        return () => window.removeEventListener('popstate', handlePopState);
+    }, [defaultNetwork]);
+
+    const push = useCallback(
+        (next: Location) => {
+            const url = formatUrl(next, defaultNetwork);
+
+            if (url !== `${window.location.pathname}${window.location.search}`) {
+                window.history.pushState(null, '', url);
+            }
+            setLocation(next);
+        },
+        [defaultNetwork],
+    );
+
+    const navigate = useCallback(
+        (route: Route) => push({ route, networkId: location.networkId }),
+        [push, location.networkId],
+    );
+
+    const setNetwork = useCallback(
+        (networkId: OPNetNetworkId) => push({ route: location.route, networkId }),
+        [push, location.route],
+    );
+
+    const value: RouterContextType = {
+        route: location.route,
+        networkId: location.networkId,
+        navigate,
+        setNetwork,
+    };
+
+    return <RouterContext.Provider value={value}>{children}</RouterContext.Provider>;
+}
+
+/**
+ * Hook to access the router context.
+ *
+ * @returns The current route, network and navigation helpers
+ * @throws Error if used outside of RouterProvider
+ */
+export function useRouter(): RouterContextType {
+    const context = useContext(RouterContext);
+    if (context === undefined) {
+        throw new Error('useRouter must be used within a RouterProvider');
+    }
+    return context;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from 'vitest';
+import { networks } from '@btc-vision/bitcoin';
+import { ABIDataTypes } from '@btc-vision/transaction';
+import { parseAbiArgument } from './abiArgs';
+import { TokenServiceContext } from './tokenService';
+
+const getPublicKeyInfo = vi.fn();
+const ctx = {
+    provider: { getPublicKeyInfo },
+    network: networks.regtest,
+    networkId: 'regtest',
+} as unknown as TokenServiceContext;
+
+describe('parseAbiArgument', () => {
+    it('accepts integers at the edges of their type', async () => {
+        expect(await parseAbiArgument(ctx, ABIDataTypes.UINT8, '255')).toBe(255);
+        expect(await parseAbiArgument(ctx, ABIDataTypes.INT8, '-128')).toBe(-128);
+        expect(await parseAbiArgument(ctx, ABIDataTypes.UINT32, ' 4294967295 ')).toBe(4294967295);
+        expect(
+            await parseAbiArgument(ctx, ABIDataTypes.UINT256, (2n ** 256n - 1n).toString()),
+        ).toBe(2n ** 256n - 1n);
+    });
+
+    it('rejects integers outside their type, naming it', async () => {
+        await expect(parseAbiArgument(ctx, ABIDataTypes.UINT8, '300')).rejects.toThrow(
+            '300 is out of range for uint8 (0 to 255)',
+        );
+        await expect(parseAbiArgument(ctx, ABIDataTypes.UINT256, '-1')).rejects.toThrow('uint256');
+        await expect(
+            parseAbiArgument(ctx, ABIDataTypes.UINT256, (2n ** 256n).toString()),
+        ).rejects.toThrow('out of range for uint256');
+        await expect(parseAbiArgument(ctx, ABIDataTypes.INT32, '2147483648')).rejects.toThrow(
+            'int32',
+        );
+        await expect(parseAbiArgument(ctx, ABIDataTypes.UINT64, '1.5')).rejects.toThrow(
+            'Expected an integer for uint64',
+        );
+    });
+
+    it('checks addresses against the network before resolving them', async () => {
+        await expect(
+            parseAbiArgument(
+                ctx,
+                ABIDataTypes.ADDRESS,
+                'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4',
+            ),
+        ).rejects.toThrow('mainnet address');
+        expect(getPublicKeyInfo).not.toHaveBeenCalled();
+    });
+});
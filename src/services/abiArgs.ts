@@ -0,0 +1,204 @@
+import { ABIDataTypes, Address, AddressMap } from '@btc-vision/transaction';
+import { fromHex, isHex, toHex } from '@btc-vision/bitcoin';
+import { BitcoinAbiTypes, BitcoinInterfaceAbi, FunctionBaseData } from 'opnet';
+import { TokenServiceContext } from './tokenService';
+import { validateAddress } from '../utils/address';
+
+/** Input types that can be entered as a single line of text. */
+const TEXT_INPUT_TYPES = new Set<string>([
+    ABIDataTypes.UINT8,
+    ABIDataTypes.UINT16,
+    ABIDataTypes.UINT32,
+    ABIDataTypes.UINT64,
+    ABIDataTypes.UINT128,
+    ABIDataTypes.UINT256,
+    ABIDataTypes.INT8,
+    ABIDataTypes.INT16,
+    ABIDataTypes.INT32,
+    ABIDataTypes.INT64,
+    ABIDataTypes.INT128,
+    ABIDataTypes.BOOL,
+    ABIDataTypes.ADDRESS,
+    ABIDataTypes.STRING,
+    ABIDataTypes.BYTES4,
+    ABIDataTypes.BYTES32,
+    ABIDataTypes.BYTES,
+]);
+
+const SMALL_INT_TYPES = new Set<string>([
+    ABIDataTypes.UINT8,
+    ABIDataTypes.UINT16,
+    ABIDataTypes.UINT32,
+    ABIDataTypes.INT8,
+    ABIDataTypes.INT16,
+    ABIDataTypes.INT32,
+]);
+
+/** Bit widths of the integer types; signed types are two's complement. */
+const INT_WIDTHS: Record<string, { bits: bigint; signed: boolean }> = {
+    [ABIDataTypes.UINT8]: { bits: 8n, signed: false },
+    [ABIDataTypes.UINT16]: { bits: 16n, signed: false },
+    [ABIDataTypes.UINT32]: { bits: 32n, signed: false },
+    [ABIDataTypes.UINT64]: { bits: 64n, signed: false },
+    [ABIDataTypes.UINT128]: { bits: 128n, signed: false },
+    [ABIDataTypes.UINT256]: { bits: 256n, signed: false },
+    [ABIDataTypes.INT8]: { bits: 8n, signed: true },
+    [ABIDataTypes.INT16]: { bits: 16n, signed: true },
+    [ABIDataTypes.INT32]: { bits: 32n, signed: true },
+    [ABIDataTypes.INT64]: { bits: 64n, signed: true },
+    [ABIDataTypes.INT128]: { bits: 128n, signed: true },
+};
+
+/** Byte lengths of the fixed-size byte types. */
+const FIXED_BYTES_LENGTHS: Record<string, number> = {
+    [ABIDataTypes.BYTES4]: 4,
+    [ABIDataTypes.BYTES32]: 32,
+};
+
+/**
+ * Checks whether every input of a function can be entered as text.
+ *
+ * @param fn - ABI function entry
+ * @returns True if the function can be called from a text form
+ */
+export function isTextCallable(fn: FunctionBaseData): boolean {
+    return (fn.inputs ?? []).every((input) => TEXT_INPUT_TYPES.has(String(input.type)));
+}
+
+/**
+ * Lists the functions of an ABI whose inputs can all be entered as text.
+ *
+ * @param abi - Contract ABI
+ * @param writeOnly - Only include state-changing (non-constant) functions
+ * @returns Matching function entries
+ */
+export function textCallableFunctions(
+    abi: BitcoinInterfaceAbi,
+    writeOnly: boolean = false,
+): FunctionBaseData[] {
+    return abi.filter(
+        (entry): entry is FunctionBaseData =>
+            entry.type === BitcoinAbiTypes.Function &&
+            !(writeOnly && entry.constant) &&
+            isTextCallable(entry),
+    );
+}
+
+/**
+ * Parses an integer and checks it fits the width and sign of its ABI type.
+ *
+ * @param type - Integer ABI type
+ * @param value - Trimmed text
+ * @returns The integer
+ * @throws Error naming the type if the text is not an integer or out of range
+ */
+function parseAbiInteger(type: string, value: string): bigint {
+    const name = type.toLowerCase();
+    if (!/^-?\d+$/.test(value)) {
+        throw new Error(`Expected an integer for ${name}, got "${value}"`);
+    }
+
+    const parsed = BigInt(value);
+    const width = INT_WIDTHS[type];
+    if (width) {
+        const min = width.signed ? -(1n << (width.bits - 1n)) : 0n;
+        const max = (1n << (width.signed ? width.bits - 1n : width.bits)) - 1n;
+        if (parsed < min || parsed > max) {
+            throw new Error(`${value} is out of range for ${name} (${min} to ${max})`);
+        }
+    }
+    return parsed;
+}
+
+/**
+ * Converts a text value into the argument type a contract method expects.
+ * Addresses are checked against the active network, then resolved through the
+ * RPC so any address form can be entered; integers must fit their type; byte
+ * types take 0x-prefixed or bare hex.
+ *
+ * @param ctx - RPC context used to resolve addresses
+ * @param type - ABI input type
+ * @param raw - Text entered by the user
+ * @returns The typed argument
+ * @throws Error if the text does not match the type
+ */
+export async function parseAbiArgument(
+    ctx: TokenServiceContext,
+    type: string,
+    raw: string,
+): Promise<bigint | number | boolean | string | Uint8Array | Address> {
+    const value = raw.trim();
+
+    switch (type) {
+        case ABIDataTypes.BOOL:
+            if (value !== 'true' && value !== 'false') {
+                throw new Error(`Expected true or false, got "${value}"`);
+            }
+            return value === 'true';
+        case ABIDataTypes.STRING:
+            return raw;
+        case ABIDataTypes.ADDRESS: {
+            const issue = validateAddress(value, ctx.network, 'account');
+            if (issue) {
+                throw new Error(`${value}: ${issue.error}`);
+            }
+            const address: Address | undefined = await ctx.provider.getPublicKeyInfo(value, false);
+            if (!address) {
+                throw new Error(`Address ${value} could not be resolved`);
+            }
+            return address;
+        }
+        case ABIDataTypes.BYTES4:
+        case ABIDataTypes.BYTES32:
+        case ABIDataTypes.BYTES: {
+            if (!isHex(value)) {
+                throw new Error(`Expected hex bytes for ${type}, got "${value}"`);
+            }
+            const bytes = fromHex(value);
+            const length = FIXED_BYTES_LENGTHS[type];
+            if (length !== undefined && bytes.length !== length) {
+                throw new Error(`Expected ${length} bytes for ${type}, got ${bytes.length}`);
+            }
+            return bytes;
+        }
+        default: {
+            const parsed = parseAbiInteger(type, value);
+            return SMALL_INT_TYPES.has(type) ? Number(parsed) : parsed;
+        }
+    }
+}
+
+/**
+ * Renders a value decoded from a contract result as text. Addresses and bytes
+ * become 0x hex, bigints decimal strings, and collections are formatted
+ * recursively.
+ *
+ * @param value - Decoded value
+ * @returns Display text
+ */
+export function formatAbiValue(value: unknown): string {
+    if (value instanceof Address) {
+        return value.toHex();
+    }
+    if (value instanceof Uint8Array) {
+        return `0x${toHex(value)}`;
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(formatAbiValue).join(', ')}]`;
+    }
+    if (value instanceof Map || value instanceof AddressMap) {
+        const entries = Array.from(
+            value.entries(),
+            ([key, entry]: [unknown, unknown]) =>
+                `${formatAbiValue(key)}: ${formatAbiValue(entry)}`,
+        );
+        return `{${entries.join(', ')}}`;
+    }
+    if (typeof value === 'object' && value !== null) {
+        const entries = Object.entries(value).map(
+            ([key, entry]) => `${key}: ${formatAbiValue(entry)}`,
+        );
+        return `{${entries.join(', ')}}`;
+    }
+    return String(value);
+}
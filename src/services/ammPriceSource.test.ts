@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from 'vitest';
+import { networks } from '@btc-vision/bitcoin';
+import {
+    createAmmPriceSource,
+    nativeSwapReserveReader,
+    PoolReserves,
+    ReserveReader,
+} from './ammPriceSource';
+import { valueHolding, valueInSats } from './priceSources';
+import { TokenServiceContext } from './tokenService';
+
+const pool = vi.hoisted(() => ({
+    setSimulatedHeight: vi.fn(),
+    getReserve: vi.fn(),
+}));
+
+vi.mock('opnet', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('opnet')>()),
+    getContract: () => pool,
+}));
+
+/** Reader returning fixed reserves per token, recording the heights asked for. */
+function stubReader(reserves: Record<string, PoolReserves | null>) {
+    const heights: (bigint | undefined)[] = [];
+    const read: ReserveReader = (token, height) => {
+        heights.push(height);
+        return Promise.resolve(reserves[token] ?? null);
+    };
+    return { read, heights };
+}
+
+describe('createAmmPriceSource', () => {
+    it('prices a token at the ratio of its reserves', async () => {
+        // 1,000,000 tokens of 18 decimals against 0.5 BTC: 50 sats per token
+        const { read } = stubReader({
+            wbtc18: { btcReserve: 50_000_000n, tokenReserve: 1_000_000n * 10n ** 18n },
+        });
+        const price = await createAmmPriceSource(read).getPrice('wbtc18');
+
+        expect(price).toEqual({ sats: 50_000_000n, tokens: 1_000_000n * 10n ** 18n });
+        expect(valueInSats(10n ** 18n, price!)).toBe(50n);
+        expect(valueInSats(250n * 10n ** 18n, price!)).toBe(12_500n);
+    });
+
+    it('scales by the token decimals', async () => {
+        // 2,000 tokens of 8 decimals against 1,000 sats: half a sat per token
+        const { read } = stubReader({
+            moto8: { btcReserve: 1_000n, tokenReserve: 2_000n * 10n ** 8n },
+        });
+        const price = await createAmmPriceSource(read).getPrice('moto8');
+
+        expect(valueInSats(10n ** 8n, price!)).toBe(0n);
+        expect(valueInSats(3n * 10n ** 8n, price!)).toBe(1n);
+        expect(valueInSats(10n ** 8n * 10n ** 8n, price!)).toBe(50_000_000n);
+    });
+
+    it('returns null without a pool or with an empty reserve', async () => {
+        const { read } = stubReader({
+            drained: { btcReserve: 0n, tokenReserve: 1_000n },
+            empty: { btcReserve: 1_000n, tokenReserve: 0n },
+        });
+        const source = createAmmPriceSource(read);
+
+        expect(await source.getPrice('missing')).toBeNull();
+        expect(await source.getPrice('drained')).toBeNull();
+        expect(await source.getPrice('empty')).toBeNull();
+    });
+
+    it('reads reserves at the requested height for the 24h change', async () => {
+        const { read, heights } = stubReader({
+            token: { btcReserve: 10_000n, tokenReserve: 10n ** 8n },
+        });
+        const valuation = await valueHolding(
+            [createAmmPriceSource(read)],
+            'token',
+            5n * 10n ** 7n,
+            1_000n,
+        );
+
+        expect(heights).toEqual([undefined, 856n]);
+        expect(valuation).toMatchObject({ priced: true, valueSats: 5_000n, valueSats24h: 5_000n });
+    });
+});
+
+describe('nativeSwapReserveReader', () => {
+    const ctx = {
+        provider: { getPublicKeyInfo: () => Promise.resolve({ toHex: () => '0x01' }) },
+        network: networks.regtest,
+        networkId: 'regtest',
+    } as unknown as TokenServiceContext;
+
+    it('maps the virtual reserves and simulates at the requested height', async () => {
+        pool.getReserve.mockResolvedValueOnce({
+            properties: { virtualBTCReserve: 75_000n, virtualTokenReserve: 3n * 10n ** 8n },
+        });
+        const price = await createAmmPriceSource(nativeSwapReserveReader(ctx, 'pool')).getPrice(
+            'token',
+            900n,
+        );
+
+        expect(pool.setSimulatedHeight).toHaveBeenCalledWith(900n);
+        expect(valueInSats(10n ** 8n, price!)).toBe(25_000n);
+    });
+
+    it('treats a reverted lookup as no pool', async () => {
+        pool.getReserve.mockRejectedValueOnce(new Error('Execution Reverted: no pool'));
+        expect(await nativeSwapReserveReader(ctx, 'pool')('token')).toBeNull();
+    });
+
+    it('passes RPC failures on', async () => {
+        pool.getReserve.mockRejectedValueOnce(new Error('socket hang up'));
+        await expect(nativeSwapReserveReader(ctx, 'pool')('token')).rejects.toThrow(
+            'socket hang up',
+        );
+    });
+});
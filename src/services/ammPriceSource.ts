@@ -0,0 +1,98 @@
+import { getContract, INativeSwapContract, NativeSwapAbi } from 'opnet';
+import { Address } from '@btc-vision/transaction';
+import { PriceSource } from './priceSources';
+import { TokenServiceContext } from './tokenService';
+import { isCallRejection } from './contractProbe';
+
+/**
+ * Reserves of a token/BTC pool. `btcReserve` is in satoshis and
+ * `tokenReserve` in raw token units.
+ */
+export interface PoolReserves {
+    btcReserve: bigint;
+    tokenReserve: bigint;
+}
+
+/**
+ * Reads the BTC pool reserves of a token, optionally as of a past block.
+ * Resolves to null when the token has no pool.
+ */
+export type ReserveReader = (token: string, height?: bigint) => Promise<PoolReserves | null>;
+
+/** Resolved token public keys, keyed by network and address. */
+const tokenKeys = new Map<string, Address>();
+
+/**
+ * Creates a price source that prices tokens at the ratio of their pool reserves.
+ * Reserves come from `readReserves`, so the adapter can run against the chain
+ * or against a local mock that returns fixed reserves.
+ *
+ * @param readReserves - Reserve lookup
+ * @param label - Name shown next to prices from this source
+ * @returns The price source
+ */
+export function createAmmPriceSource(
+    readReserves: ReserveReader,
+    label: string = 'AMM pool',
+): PriceSource {
+    return {
+        id: 'amm',
+        label,
+        getPrice: async (token, height) => {
+            const reserves = await readReserves(token, height);
+            if (!reserves || reserves.btcReserve <= 0n || reserves.tokenReserve <= 0n) {
+                return null;
+            }
+            return { sats: reserves.btcReserve, tokens: reserves.tokenReserve };
+        },
+    };
+}
+
+/**
+ * Reads token/BTC reserves from a NativeSwap contract through `getReserve`.
+ * Past heights are read by simulating the call at that block.
+ *
+ * @param ctx - RPC context
+ * @param poolAddress - NativeSwap contract address on the network
+ * @returns Reserve reader for `createAmmPriceSource`
+ */
+export function nativeSwapReserveReader(
+    ctx: TokenServiceContext,
+    poolAddress: string,
+): ReserveReader {
+    return async (token, height) => {
+        const key = `${ctx.networkId}:${token}`;
+        let tokenAddress = tokenKeys.get(key);
+        if (!tokenAddress) {
+            const resolved: Address | undefined = await ctx.provider.getPublicKeyInfo(token, true);
+            if (!resolved) {
+                throw new Error('Token address could not be resolved');
+            }
+            tokenAddress = resolved;
+            tokenKeys.set(key, tokenAddress);
+        }
+
+        // One instance per call: the simulated height is instance state
+        const pool = getContract<INativeSwapContract>(
+            poolAddress,
+            NativeSwapAbi,
+            ctx.provider,
+            ctx.network,
+        );
+        pool.setSimulatedHeight(height);
+
+        try {
+            const result = await pool.getReserve(tokenAddress);
+            return {
+                btcReserve: result.properties.virtualBTCReserve,
+                tokenReserve: result.properties.virtualTokenReserve,
+            };
+        } catch (err) {
+            // Tokens without a pool revert; anything else is a real failure
+            if (isCallRejection(err)) {
+                return null;
+            }
+            throw err;
+        }
+    };
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { networks } from '@btc-vision/bitcoin';
+import {
+    BatchRow,
+    MAX_BATCH_ROWS,
+    parseBatchCsv,
+    resolveBatchRecipients,
+    restoreBatchRows,
+    storeBatchRows,
+} from './batchTransfer';
+import { TokenServiceContext } from './tokenService';
+
+const ALICE = 'bcrt1qw508d6qejxtdg4y5r3zarvary0c5xw7kygt080';
+const BOB = 'bcrt1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3qzf4jry';
+const ALICE_KEY = '0x0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798';
+
+function parse(text: string, decimals: number = 8): BatchRow[] {
+    return parseBatchCsv(text, networks.regtest, decimals);
+}
+
+describe('parseBatchCsv', () => {
+    it('reads address,amount rows without a header', () => {
+        const rows = parse(`${ALICE},1.5\n${BOB},2\n`);
+
+        expect(rows.map((r) => [r.line, r.address, r.amount, r.status])).toEqual([
+            [1, ALICE, 150_000_000n, 'ready'],
+            [2, BOB, 200_000_000n, 'ready'],
+        ]);
+    });
+
+    it('takes the column order from a header and ignores a BOM', () => {
+        const rows = parse(`\uFEFFAmount,Note,Recipient\r\n0.1,thanks,${ALICE}\r\n`);
+
+        expect(rows).toHaveLength(1);
+        expect(rows[0]).toMatchObject({ line: 2, address: ALICE, amount: 10_000_000n });
+    });
+
+    it('rejects a header that names only one column', () => {
+        expect(() => parse(`address,note\n${ALICE},1\n`)).toThrow(
+            'Header must name both an address and an amount column',
+        );
+    });
+
+    it('rejects an empty file and one over the row limit', () => {
+        expect(() => parse('address,amount\n\n')).toThrow('no recipient rows');
+
+        const tooMany = Array.from({ length: MAX_BATCH_ROWS + 1 }, () => `${ALICE},1`).join('\n');
+        expect(() => parse(tooMany)).toThrow(`At most ${MAX_BATCH_ROWS} rows`);
+    });
+
+    it('flags a repeated address regardless of case', () => {
+        const rows = parse(`${ALICE},1\n${ALICE.toUpperCase()},2\n`);
+
+        expect(rows[1]).toMatchObject({
+            status: 'invalid',
+            amount: null,
+            error: 'Duplicate recipient, already on line 1',
+        });
+    });
+
+    it('rejects zero, negative and over-precise amounts', () => {
+        const rows = parse(`${ALICE},0\n${BOB},-1\n${ALICE_KEY},0.001\n`, 2);
+
+        expect(rows.map((r) => r.status)).toEqual(['invalid', 'invalid', 'invalid']);
+        expect(rows[0]?.error).toBe('Amount must be greater than zero');
+        expect(rows[1]?.amount).toBeNull();
+        expect(rows[2]?.amount).toBeNull();
+    });
+
+    it('rejects addresses of another network', () => {
+        const [row] = parse('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4,1\n');
+
+        expect(row?.status).toBe('invalid');
+        expect(row?.error).toMatch(/mainnet address/);
+    });
+});
+
+describe('resolveBatchRecipients', () => {
+    it('rejects a recipient entered again in another form', async () => {
+        const same = { toHex: () => '0xaa' };
+        const ctx = {
+            provider: {
+                getPublicKeysInfo: (addresses: string[]) => {
+                    expect(addresses).toEqual([ALICE, BOB, ALICE_KEY]);
+                    // BOB is unknown to the node and stays as written
+                    return Promise.resolve({ [ALICE]: same, [ALICE_KEY]: same });
+                },
+            },
+        } as unknown as TokenServiceContext;
+
+        const rows = await resolveBatchRecipients(
+            ctx,
+            parse(`${ALICE},1\n${BOB},1\n${ALICE_KEY},1\n`),
+        );
+
+        expect(rows.map((r) => r.status)).toEqual(['ready', 'ready', 'invalid']);
+        expect(rows[2]?.error).toBe(`Duplicate recipient, same as ${ALICE} on line 1`);
+        expect(rows[2]?.amount).toBeNull();
+    });
+});
+
+describe('storeBatchRows', () => {
+    it('saves a row caught mid-send as unknown and drops simulation progress', () => {
+        const [sending, simulated, sent] = parse(`${ALICE},1\n${BOB},2\n${ALICE_KEY},3\n`).map(
+            (row, i): BatchRow => ({
+                ...row,
+                status: (['sending', 'simulated', 'sent'] as const)[i] ?? 'ready',
+                gasSats: 500n,
+            }),
+        );
+
+        const restored = restoreBatchRows(storeBatchRows([sending!, simulated!, sent!]));
+
+        expect(restored.map((r) => r.status)).toEqual(['unknown', 'ready', 'sent']);
+        expect(restored[0]?.error).toMatch(/check your wallet history/);
+        expect(restored[2]).toMatchObject({ amount: 300_000_000n, gasSats: 500n });
+    });
+});
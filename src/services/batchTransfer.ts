@@ -0,0 +1,352 @@
+import { Network } from '@btc-vision/bitcoin';
+import { Address } from '@btc-vision/transaction';
+import { getContract, IOP20Contract, OP_20_ABI, Transfer } from 'opnet';
+import { TokenServiceContext } from './tokenService';
+import { validateAddress } from '../utils/address';
+import { formatTokenAmount, parseTokenAmount } from '../utils/amount';
+import { parseCsv, toCsv } from '../utils/csv';
+
+/** Most rows accepted in one batch file. */
+export const MAX_BATCH_ROWS = 500;
+
+/**
+ * Progress of one batch row. `invalid` rows never send; `sending` is only
+ * ever seen while the wallet is open. `unknown` rows may or may not have been
+ * broadcast and wait for the user to mark them sent or retry them.
+ */
+export type BatchRowStatus =
+    | 'invalid'
+    | 'ready'
+    | 'simulating'
+    | 'simulated'
+    | 'sending'
+    | 'sent'
+    | 'unknown'
+    | 'failed'
+    | 'skipped';
+
+/**
+ * A recipient row of a batch file. `amount` is in raw units and null when the
+ * row did not validate.
+ */
+export interface BatchRow {
+    line: number;
+    address: string;
+    amountText: string;
+    amount: bigint | null;
+    status: BatchRowStatus;
+    error: string | null;
+    gasSats: bigint | null;
+    txId: string | null;
+}
+
+/**
+ * Batch row as saved in localStorage; bigints are stored as decimal strings.
+ */
+export interface StoredBatchRow extends Omit<BatchRow, 'amount' | 'gasSats'> {
+    amount: string | null;
+    gasSats: string | null;
+}
+
+/**
+ * Raw-unit sums over a batch.
+ */
+export interface BatchTotals {
+    total: bigint;
+    sent: bigint;
+    remaining: bigint;
+    valid: number;
+    invalid: number;
+}
+
+/** Addresses in these forms are case-insensitive; base58 is not. */
+const CASE_INSENSITIVE_ADDRESS = /^(0x|[a-z]{1,10}1)/i;
+
+/** Header cells recognised as the address and amount columns. */
+const ADDRESS_HEADERS = new Set(['address', 'recipient', 'to', 'wallet']);
+const AMOUNT_HEADERS = new Set(['amount', 'value', 'tokens', 'quantity']);
+
+/**
+ * Parses and validates a batch CSV of `address,amount` rows. A header row
+ * naming the columns is optional and may list them in either order. Addresses
+ * are checked against the active network and amounts against the token's
+ * decimals; a repeated address is rejected so no one is paid twice by mistake.
+ * The same recipient written in two forms is only caught once the addresses
+ * are resolved, by `resolveBatchRecipients`.
+ *
+ * @param text - CSV text
+ * @param network - Active network
+ * @param decimals - Token decimals
+ * @returns One row per non-blank line, invalid rows carrying their error
+ * @throws Error if the file has no rows or too many
+ */
+export function parseBatchCsv(text: string, network: Network, decimals: number): BatchRow[] {
+    const records = parseCsv(text.replace(/^\uFEFF/, ''));
+
+    let addressCol = 0;
+    let amountCol = 1;
+    const header = records[0]?.fields.map((f) => f.trim().toLowerCase());
+    if (header && header.some((f) => ADDRESS_HEADERS.has(f) || AMOUNT_HEADERS.has(f))) {
+        const a = header.findIndex((f) => ADDRESS_HEADERS.has(f));
+        const b = header.findIndex((f) => AMOUNT_HEADERS.has(f));
+        if (a < 0 || b < 0) {
+            throw new Error('Header must name both an address and an amount column');
+        }
+        addressCol = a;
+        amountCol = b;
+        records.shift();
+    }
+
+    if (records.length === 0) {
+        throw new Error('The file has no recipient rows');
+    }
+    if (records.length > MAX_BATCH_ROWS) {
+        throw new Error(`At most ${MAX_BATCH_ROWS} rows per batch, got ${records.length}`);
+    }
+
+    const seen = new Map<string, number>();
+    return records.map(({ line, fields }): BatchRow => {
+        const address = (fields[addressCol] ?? '').trim();
+        const amountText = (fields[amountCol] ?? '').trim();
+        const row: BatchRow = {
+            line,
+            address,
+            amountText,
+            amount: null,
+            status: 'invalid',
+            error: null,
+            gasSats: null,
+            txId: null,
+        };
+
+        const issue = validateAddress(address, network, 'account');
+        if (issue) {
+            row.error = issue.error;
+            return row;
+        }
+
+        const key = recipientKey(address);
+        const firstLine = seen.get(key);
+        if (firstLine !== undefined) {
+            row.error = `Duplicate recipient, already on line ${firstLine}`;
+            return row;
+        }
+        seen.set(key, line);
+
+        try {
+            row.amount = parseTokenAmount(amountText, decimals);
+        } catch (err) {
+            row.error = err instanceof Error ? err.message : String(err);
+            return row;
+        }
+        if (row.amount === 0n) {
+            row.amount = null;
+            row.error = 'Amount must be greater than zero';
+            return row;
+        }
+
+        row.status = 'ready';
+        return row;
+    });
+}
+
+/**
+ * Normalizes an address for duplicate checks: hex and bech32 addresses are
+ * compared without case, base58 addresses exactly.
+ */
+function recipientKey(address: string): string {
+    return CASE_INSENSITIVE_ADDRESS.test(address) ? address.toLowerCase() : address;
+}
+
+/**
+ * Resolves the recipients of the ready rows through the RPC and rejects rows
+ * paying a recipient already paid on an earlier line, so a public key and the
+ * address derived from it count as one. Addresses the node does not know are
+ * compared as written.
+ *
+ * @param ctx - RPC context
+ * @param rows - Rows from `parseBatchCsv`
+ * @returns Rows with later duplicates marked invalid
+ */
+export async function resolveBatchRecipients(
+    ctx: TokenServiceContext,
+    rows: BatchRow[],
+): Promise<BatchRow[]> {
+    const addresses = [...new Set(rows.filter((r) => r.status === 'ready').map((r) => r.address))];
+    const resolved = addresses.length > 0 ? await ctx.provider.getPublicKeysInfo(addresses) : {};
+
+    const seen = new Map<string, BatchRow>();
+    return rows.map((row): BatchRow => {
+        if (row.status !== 'ready') return row;
+
+        const key = resolved[row.address]?.toHex() ?? recipientKey(row.address);
+        const first = seen.get(key);
+        if (!first) {
+            seen.set(key, row);
+            return row;
+        }
+        return {
+            ...row,
+            amount: null,
+            status: 'invalid',
+            error: `Duplicate recipient, same as ${first.address} on line ${first.line}`,
+        };
+    });
+}
+
+/**
+ * Sums the valid rows of a batch.
+ *
+ * @param rows - Batch rows
+ * @returns Totals in raw units and row counts
+ */
+export function batchTotals(rows: BatchRow[]): BatchTotals {
+    const totals: BatchTotals = { total: 0n, sent: 0n, remaining: 0n, valid: 0, invalid: 0 };
+    for (const row of rows) {
+        if (row.amount === null) {
+            totals.invalid++;
+            continue;
+        }
+        totals.valid++;
+        totals.total += row.amount;
+        if (row.status === 'sent') {
+            totals.sent += row.amount;
+        } else if (row.status !== 'skipped') {
+            totals.remaining += row.amount;
+        }
+    }
+    return totals;
+}
+
+/**
+ * Simulates the transfer of one batch row from the connected wallet.
+ *
+ * @param ctx - RPC context
+ * @param contract - OP20 contract address
+ * @param sender - Wallet address
+ * @param row - Valid batch row
+ * @returns The simulated transfer, ready for `sendTransaction`
+ * @throws Error if the recipient cannot be resolved or the transfer reverts
+ */
+export async function simulateBatchTransfer(
+    ctx: TokenServiceContext,
+    contract: string,
+    sender: Address,
+    row: BatchRow,
+): Promise<Transfer> {
+    if (row.amount === null) {
+        throw new Error('Row is not valid');
+    }
+
+    const to: Address | undefined = await ctx.provider.getPublicKeyInfo(row.address, false);
+    if (!to) {
+        throw new Error('Recipient address could not be resolved');
+    }
+
+    const token = getContract<IOP20Contract>(
+        contract,
+        OP_20_ABI,
+        ctx.provider,
+        ctx.network,
+        sender,
+    );
+    const result = await token.transfer(to, row.amount);
+    if (result.revert) {
+        throw new Error(`Execution Reverted: ${result.revert}`);
+    }
+    return result;
+}
+
+/**
+ * Converts rows for localStorage. A row caught mid-send is saved as unknown,
+ * since whether the wallet broadcast it cannot be told; this keeps a reload
+ * from silently sending it twice.
+ *
+ * @param rows - Batch rows
+ * @returns Serializable rows
+ */
+export function storeBatchRows(rows: BatchRow[]): StoredBatchRow[] {
+    return rows.map((row) => {
+        let { status, error } = row;
+        if (status === 'sending') {
+            status = 'unknown';
+            error = 'Interrupted while waiting for the wallet; check your wallet history';
+        } else if (status === 'simulating' || status === 'simulated') {
+            status = 'ready';
+        }
+        return {
+            ...row,
+            status,
+            error,
+            amount: row.amount?.toString() ?? null,
+            gasSats: row.gasSats?.toString() ?? null,
+        };
+    });
+}
+
+/**
+ * Restores rows saved by `storeBatchRows`.
+ *
+ * @param stored - Saved rows
+ * @returns Batch rows
+ */
+export function restoreBatchRows(stored: StoredBatchRow[]): BatchRow[] {
+    return stored.map((row) => ({
+        ...row,
+        amount: row.amount !== null ? BigInt(row.amount) : null,
+        gasSats: row.gasSats !== null ? BigInt(row.gasSats) : null,
+    }));
+}
+
+/**
+ * Renders the outcome of a batch as CSV, one row per recipient. Cells copied
+ * from the uploaded file (address, amount text, errors quoting them) go
+ * through `toCsv`, which keeps a crafted cell from running as a formula when
+ * the report is opened in a spreadsheet.
+ *
+ * @param rows - Batch rows
+ * @param meta - Network, token and sender of the batch
+ * @returns CSV text
+ */
+export function batchReportToCsv(
+    rows: BatchRow[],
+    meta: { network: string; contract: string; symbol: string; decimals: number; sender: string },
+): string {
+    const header = [
+        'network',
+        'token',
+        'symbol',
+        'sender',
+        'line',
+        'address',
+        'amount',
+        'amount_raw',
+        'status',
+        'gas_sats',
+        'transaction_id',
+        'error',
+    ];
+
+    const body = rows.map((row) => [
+        meta.network,
+        meta.contract,
+        meta.symbol,
+        meta.sender,
+        row.line,
+        row.address,
+        row.amount !== null
+            ? formatTokenAmount(row.amount, meta.decimals, {
+                  locale: 'en-US',
+                  grouping: false,
+                  maxFractionDigits: meta.decimals,
+              })
+            : row.amountText,
+        row.amount?.toString() ?? null,
+        row.status,
+        row.gasSats?.toString() ?? null,
+        row.txId,
+        row.error,
+    ]);
+
+    return toCsv([header, ...body]);
+}
@@ -0,0 +1,150 @@
+import { Network } from '@btc-vision/bitcoin';
+import { BlockNotification, JSONRpcProvider, WebSocketRpcProvider } from 'opnet';
+
+export type BlockFeedSource = 'websocket' | 'polling';
+
+/**
+ * Chain tip announced by the feed. Hashes are only known when the node pushed
+ * the block; polling reports heights alone.
+ */
+export interface BlockHead {
+    height: bigint;
+    hash: string | null;
+    previousHash: string | null;
+    source: BlockFeedSource;
+}
+
+export type BlockListener = (head: BlockHead) => void;
+
+/**
+ * Handle to a running feed.
+ */
+export interface BlockFeed {
+    close: () => void;
+}
+
+/** Polling period while the page is visible. */
+const POLL_INTERVAL_MS = 10_000;
+
+/** Upper bound on the polling period after repeated failures. */
+const MAX_POLL_INTERVAL_MS = 60_000;
+
+/** Time allowed for the WebSocket handshake before falling back to polling. */
+const WS_CONNECT_TIMEOUT_MS = 5000;
+
+/**
+ * Starts announcing new blocks for a network.
+ * Subscribes over the node's WebSocket endpoint when it has one and polls
+ * `getBlockNumber` whenever the socket is not ready, e.g. while it reconnects.
+ * Polling pauses while the page is hidden and backs off after errors. Only heads that
+ * differ from the previous one are announced.
+ *
+ * @param url - RPC URL of the network
+ * @param network - Bitcoin network of the endpoint
+ * @param rpc - JSON-RPC provider used for polling
+ * @param onBlock - Called with each new head
+ * @returns Handle that stops the feed
+ */
+export function startBlockFeed(
+    url: string,
+    network: Network,
+    rpc: JSONRpcProvider,
+    onBlock: BlockListener,
+): BlockFeed {
+    let closed = false;
+    let last: BlockHead | null = null;
+    let pollTimer: ReturnType<typeof setTimeout> | undefined;
+    let failures = 0;
+    let socket: WebSocketRpcProvider | null = null;
+    let subscribed = false;
+
+    const announce = (head: BlockHead) => {
+        if (closed) return;
+        if (
+            last &&
+            last.height === head.height &&
+            (head.hash === null || head.hash === last.hash)
+        ) {
+            return;
+        }
+        last = head;
+        onBlock(head);
+    };
+
+    const schedulePoll = (delay: number) => {
+        clearTimeout(pollTimer);
+        pollTimer = setTimeout(() => void poll(), delay);
+    };
+
+    const poll = async () => {
+        if (closed) return;
+        if (document.visibilityState === 'hidden' || (subscribed && socket?.isReady())) {
+            schedulePoll(POLL_INTERVAL_MS);
+            return;
+        }
+
+        try {
+            const height = await rpc.getBlockNumber();
+            failures = 0;
+            announce({ height, hash: null, previousHash: null, source: 'polling' });
+        } catch {
+            failures += 1;
+        }
+
+        if (!closed) {
+            schedulePoll(Math.min(POLL_INTERVAL_MS * 2 ** failures, MAX_POLL_INTERVAL_MS));
+        }
+    };
+
+    const onVisible = () => {
+        if (document.visibilityState === 'visible') {
+            schedulePoll(0);
+        }
+    };
+    document.addEventListener('visibilitychange', onVisible);
+
+    const subscribe = async () => {
+        const ws = new WebSocketRpcProvider(url, network, {
+            connectTimeout: WS_CONNECT_TIMEOUT_MS,
+            autoReconnect: true,
+        });
+        socket = ws;
+
+        try {
+            await ws.connect();
+            await ws.subscribeBlocks((block: BlockNotification) =>
+                announce({
+                    height: block.blockNumber,
+                    hash: block.blockHash,
+                    previousHash: block.previousBlockHash,
+                    source: 'websocket',
+                }),
+            );
+        } catch {
+            // No push support on this node; keep polling
+            ws.disconnect();
+            socket = null;
+            return;
+        }
+
+        if (closed) {
+            ws.disconnect();
+            return;
+        }
+        // The socket resubscribes by itself after reconnecting
+        subscribed = true;
+    };
+
+    // Poll once right away so listeners get a head while the socket connects
+    void poll();
+    void subscribe();
+
+    return {
+        close: () => {
+            closed = true;
+            clearTimeout(pollTimer);
+            document.removeEventListener('visibilitychange', onVisible);
+            socket?.disconnect();
+        },
+    };
+}
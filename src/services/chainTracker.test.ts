@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Block, JSONRpcProvider } from 'opnet';
+import { connectBlocks, getReorgs, trackBlocks } from './chainTracker';
+import { invalidateNetworkState } from './tokenService';
+import { invalidateTransfersFrom } from './transferHistory';
+
+vi.mock('./tokenService', () => ({ invalidateNetworkState: vi.fn() }));
+vi.mock('./transferHistory', () => ({ invalidateTransfersFrom: vi.fn() }));
+
+/** Block on a branch; hashes are `<branch><height>` so parents are easy to follow. */
+function block(height: number, branch: string = 'a', parentBranch: string = branch): Block {
+    return {
+        height,
+        hash: `${branch}${height}`,
+        previousBlockHash: `${parentBranch}${height - 1}`,
+    } as unknown as Block;
+}
+
+let networkId: string;
+let network = 0;
+
+beforeEach(() => {
+    networkId = `net${++network}`;
+    vi.clearAllMocks();
+});
+
+describe('trackBlocks', () => {
+    it('records nothing while blocks extend the chain', () => {
+        expect(trackBlocks(networkId, [block(1), block(2)])).toBeNull();
+        expect(trackBlocks(networkId, [block(3)])).toBeNull();
+        expect(trackBlocks(networkId, [block(3)])).toBeNull();
+
+        expect(getReorgs(networkId)).toEqual([]);
+        expect(invalidateNetworkState).not.toHaveBeenCalled();
+    });
+
+    it('reports replaced blocks from the fork point up and invalidates caches', () => {
+        trackBlocks(networkId, [block(10), block(11), block(12), block(13)]);
+
+        const reorg = trackBlocks(networkId, [block(12, 'b', 'a'), block(13, 'b')]);
+
+        expect(reorg).toMatchObject({ forkHeight: 12n, depth: 2 });
+        expect(reorg?.orphaned.map((link) => link.hash)).toEqual(['a12', 'a13']);
+        expect(getReorgs(networkId)).toEqual([reorg]);
+        expect(invalidateTransfersFrom).toHaveBeenCalledWith(networkId, 12n);
+        expect(invalidateNetworkState).toHaveBeenCalledWith(networkId);
+    });
+
+    it('orphans descendants of a replaced block when the new tip is lower', () => {
+        trackBlocks(networkId, [block(20), block(21), block(22), block(23)]);
+
+        const reorg = trackBlocks(networkId, [block(21, 'b', 'a')]);
+
+        expect(reorg?.orphaned.map((link) => link.hash)).toEqual(['a21', 'a22', 'a23']);
+        expect(trackBlocks(networkId, [block(22, 'b')])).toBeNull();
+    });
+});
+
+describe('connectBlocks', () => {
+    it('walks back to the fork point only when the parent hash differs', async () => {
+        trackBlocks(networkId, [block(5), block(6), block(7)]);
+        const getBlock = vi.fn((height: bigint) =>
+            Promise.resolve(block(Number(height), 'b', Number(height) === 6 ? 'a' : 'b')),
+        );
+        const provider = { getBlock } as unknown as JSONRpcProvider;
+
+        const unchanged = await connectBlocks(provider, networkId, [block(8)]);
+        expect(unchanged.map((b) => b.hash)).toEqual(['a8']);
+        expect(getBlock).not.toHaveBeenCalled();
+
+        const forked = await connectBlocks(provider, networkId, [block(8, 'b')]);
+        expect(forked.map((b) => b.hash)).toEqual(['b8', 'b7', 'b6']);
+        expect(trackBlocks(networkId, forked)?.forkHeight).toBe(6n);
+    });
+});
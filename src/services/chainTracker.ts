@@ -0,0 +1,153 @@
+import { Block, JSONRpcProvider } from 'opnet';
+import { invalidateNetworkState } from './tokenService';
+import { invalidateTransfersFrom } from './transferHistory';
+
+/**
+ * Height and hash of a block together with its parent hash.
+ */
+export interface ChainLink {
+    height: bigint;
+    hash: string;
+    previousHash: string;
+}
+
+/**
+ * A detected chain reorganization. `orphaned` lists the blocks that were
+ * replaced, lowest first; `depth` is how many there were.
+ */
+export interface ReorgEvent {
+    detectedAt: number;
+    forkHeight: bigint;
+    depth: number;
+    orphaned: ChainLink[];
+}
+
+/** Recent blocks remembered per network; also the deepest reorg that can be traced. */
+const TRACKED_BLOCKS = 32;
+
+/** Reorg events kept per network. */
+const MAX_REORGS = 20;
+
+/** Tracked chains, newest first, and detected reorgs for the lifetime of the page. */
+const chains = new Map<string, ChainLink[]>();
+const reorgs = new Map<string, ReorgEvent[]>();
+
+/**
+ * Extracts the fields needed to link a block to its parent.
+ *
+ * @param block - Block returned by the RPC
+ * @returns Chain link for the block
+ */
+export function toChainLink(block: Block): ChainLink {
+    return {
+        height: BigInt(block.height),
+        hash: block.hash,
+        previousHash: block.previousBlockHash,
+    };
+}
+
+/**
+ * Returns the reorgs detected on a network, newest first.
+ *
+ * @param networkId - Network to read
+ * @returns Recorded reorg events
+ */
+export function getReorgs(networkId: string): ReorgEvent[] {
+    return reorgs.get(networkId) ?? [];
+}
+
+/**
+ * Fetches the parents of the oldest given block until they link up with the
+ * tracked chain again. When the chain is unchanged no extra request is made;
+ * after a reorg this walks back to the fork point, up to the tracked depth.
+ *
+ * @param provider - RPC provider
+ * @param networkId - Network the blocks belong to
+ * @param blocks - Freshly fetched blocks
+ * @returns The given blocks plus any parents needed to reach the fork point, newest first
+ */
+export async function connectBlocks(
+    provider: JSONRpcProvider,
+    networkId: string,
+    blocks: Block[],
+): Promise<Block[]> {
+    const chain = chains.get(networkId) ?? [];
+    const connected = [...blocks].sort((a, b) => (BigInt(a.height) > BigInt(b.height) ? -1 : 1));
+
+    for (let walked = 0; walked < TRACKED_BLOCKS; walked++) {
+        const oldest = connected[connected.length - 1];
+        if (!oldest) break;
+
+        const parentHeight = BigInt(oldest.height) - 1n;
+        const parent = chain.find((link) => link.height === parentHeight);
+        if (!parent || parent.hash === oldest.previousBlockHash) break;
+
+        connected.push(await provider.getBlock(parentHeight));
+    }
+
+    return connected;
+}
+
+/**
+ * Adds blocks to the tracked chain of a network and checks them against it.
+ * A block whose hash differs from the one tracked at its height means the chain
+ * was reorganized: the replaced blocks and any tracked blocks above them are
+ * recorded as orphaned, and cached transfer scans and token balances from the
+ * fork point up are invalidated.
+ *
+ * @param networkId - Network the blocks belong to
+ * @param blocks - Blocks that link up with the tracked chain, see `connectBlocks`
+ * @returns The reorg that was detected, or null
+ */
+export function trackBlocks(networkId: string, blocks: Block[]): ReorgEvent | null {
+    const chain = chains.get(networkId) ?? [];
+    const incoming = blocks.map(toChainLink);
+    if (incoming.length === 0) return null;
+
+    const top = incoming.reduce((max, link) => (link.height > max ? link.height : max), 0n);
+    const replaced = chain.filter((link) =>
+        incoming.some((next) => next.height === link.height && next.hash !== link.hash),
+    );
+    const forkHeight = replaced.reduce<bigint | null>(
+        (min, link) => (min === null || link.height < min ? link.height : min),
+        null,
+    );
+
+    // Descendants of a replaced block are gone too, even if the new tip is lower
+    const orphaned =
+        forkHeight === null
+            ? []
+            : chain.filter(
+                  (link) =>
+                      replaced.includes(link) || (link.height > top && link.height > forkHeight),
+              );
+
+    chains.set(
+        networkId,
+        [
+            ...incoming,
+            ...chain.filter(
+                (link) =>
+                    !orphaned.includes(link) &&
+                    !incoming.some((next) => next.height === link.height),
+            ),
+        ]
+            .sort((a, b) => (a.height > b.height ? -1 : 1))
+            .slice(0, TRACKED_BLOCKS),
+    );
+
+    if (forkHeight === null) return null;
+
+    const event: ReorgEvent = {
+        detectedAt: Date.now(),
+        forkHeight,
+        depth: orphaned.length,
+        orphaned: [...orphaned].sort((a, b) => (a.height < b.height ? -1 : 1)),
+    };
+    reorgs.set(networkId, [event, ...getReorgs(networkId)].slice(0, MAX_REORGS));
+
+    invalidateTransfersFrom(networkId, forkHeight);
+    invalidateNetworkState(networkId);
+
+    return event;
+}
@@ -0,0 +1,243 @@
+import { PsbtOutputExtended, toSatoshi } from '@btc-vision/bitcoin';
+import { ABIDataTypes, Address } from '@btc-vision/transaction';
+import {
+    BaseContractProperties,
+    BitcoinAbiTypes,
+    BitcoinAbiValue,
+    BitcoinInterfaceAbi,
+    CallResult,
+    FunctionBaseData,
+    getContract,
+    TransactionOutputFlags,
+} from 'opnet';
+import { TokenServiceContext } from './tokenService';
+import { loadStored, saveStored, storageKey } from '../utils/storage';
+
+/**
+ * ABI saved for a contract, with the time it was stored.
+ */
+export interface SavedAbi {
+    abi: BitcoinInterfaceAbi;
+    savedAt: number;
+}
+
+/**
+ * Bitcoin sent along with a payable call, as an extra output of the interaction.
+ */
+export interface CallPayment {
+    to: string;
+    sats: bigint;
+}
+
+const KNOWN_TYPES = new Set<string>(Object.values(ABIDataTypes));
+
+function savedAbisKey(networkId: string): string {
+    return storageKey('contract-abis', networkId);
+}
+
+/**
+ * Validates a list of ABI parameters. Tuple and struct types are passed
+ * through; named types must be known to the ABI coder.
+ */
+function parseAbiValues(raw: unknown, where: string): BitcoinAbiValue[] {
+    if (raw === undefined) return [];
+    if (!Array.isArray(raw)) {
+        throw new Error(`${where} must be an array`);
+    }
+
+    return (raw as unknown[]).map((value, i) => {
+        if (typeof value !== 'object' || value === null) {
+            throw new Error(`${where}[${i}] is not an object`);
+        }
+        const { name, type } = value as Record<string, unknown>;
+        if (typeof name !== 'string') {
+            throw new Error(`${where}[${i}] has no name`);
+        }
+        if (typeof type === 'string' ? !KNOWN_TYPES.has(type) : typeof type !== 'object') {
+            throw new Error(`${where}[${i}] (${name}) has unknown type ${String(type)}`);
+        }
+        return { name, type } as BitcoinAbiValue;
+    });
+}
+
+/**
+ * Parses and validates an ABI JSON document. Accepts a bare array of entries
+ * or an object with an `abi` array.
+ *
+ * @param text - ABI JSON
+ * @returns The ABI
+ * @throws Error describing the first invalid entry
+ */
+export function parseContractAbi(text: string): BitcoinInterfaceAbi {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('ABI is not valid JSON');
+    }
+
+    if (typeof data === 'object' && data !== null && !Array.isArray(data)) {
+        data = (data as Record<string, unknown>).abi;
+    }
+    if (!Array.isArray(data)) {
+        throw new Error('ABI must be an array of entries or an object with an "abi" array');
+    }
+
+    const names = new Set<string>();
+    const abi: BitcoinInterfaceAbi = (data as unknown[]).map((entry, i) => {
+        if (typeof entry !== 'object' || entry === null) {
+            throw new Error(`Entry ${i} is not an object`);
+        }
+        const doc = entry as Record<string, unknown>;
+        const name = doc.name;
+        if (typeof name !== 'string' || name === '') {
+            throw new Error(`Entry ${i} has no name`);
+        }
+
+        const type = typeof doc.type === 'string' ? doc.type.toLowerCase() : '';
+        if (type === BitcoinAbiTypes.Event) {
+            return {
+                name,
+                type: BitcoinAbiTypes.Event,
+                values: parseAbiValues(doc.values, `${name}.values`),
+            };
+        }
+        if (type !== BitcoinAbiTypes.Function) {
+            throw new Error(`Entry ${name} has unsupported type ${String(doc.type)}`);
+        }
+        // Methods are dispatched by name, so overloads cannot be told apart
+        if (names.has(name)) {
+            throw new Error(`Duplicate function ${name}`);
+        }
+        names.add(name);
+
+        return {
+            name,
+            type: BitcoinAbiTypes.Function,
+            constant: doc.constant === true,
+            payable: doc.payable === true,
+            inputs: parseAbiValues(doc.inputs, `${name}.inputs`),
+            outputs: parseAbiValues(doc.outputs, `${name}.outputs`),
+        };
+    });
+
+    if (names.size === 0) {
+        throw new Error('ABI has no functions');
+    }
+    return abi;
+}
+
+/**
+ * Lists the functions of an ABI.
+ *
+ * @param abi - Contract ABI
+ * @returns Function entries in ABI order
+ */
+export function abiFunctions(abi: BitcoinInterfaceAbi): FunctionBaseData[] {
+    return abi.filter(
+        (entry): entry is FunctionBaseData => entry.type === BitcoinAbiTypes.Function,
+    );
+}
+
+/**
+ * Reads the ABIs saved on a network, keyed by contract address.
+ *
+ * @param networkId - Network id
+ * @returns Saved ABIs
+ */
+export function loadSavedAbis(networkId: string): Record<string, SavedAbi> {
+    return loadStored<Record<string, SavedAbi>>(savedAbisKey(networkId), {});
+}
+
+/**
+ * Saves the ABI of a contract, replacing any earlier one.
+ *
+ * @param networkId - Network id
+ * @param address - Contract address
+ * @param abi - Validated ABI
+ */
+export function saveContractAbi(
+    networkId: string,
+    address: string,
+    abi: BitcoinInterfaceAbi,
+): void {
+    const saved = loadSavedAbis(networkId);
+    saved[address] = { abi, savedAt: Date.now() };
+    saveStored(savedAbisKey(networkId), saved);
+}
+
+/**
+ * Forgets the saved ABI of a contract.
+ *
+ * @param networkId - Network id
+ * @param address - Contract address
+ */
+export function removeContractAbi(networkId: string, address: string): void {
+    const saved = loadSavedAbis(networkId);
+    delete saved[address];
+    saveStored(savedAbisKey(networkId), saved);
+}
+
+/**
+ * Simulates a call to any method of a contract described by an ABI. The
+ * result can be broadcast with `sendTransaction` for state-changing methods.
+ *
+ * @param ctx - RPC context
+ * @param address - Contract address
+ * @param abi - Contract ABI
+ * @param method - Function name
+ * @param args - Typed arguments, in ABI order
+ * @param sender - Simulated caller
+ * @param payment - Bitcoin sent with a payable call, or null for none
+ * @returns The simulated call with decoded outputs in `properties`
+ * @throws Error if the call reverts or the method name clashes with a built-in contract member
+ */
+export async function callContractMethod(
+    ctx: TokenServiceContext,
+    address: string,
+    abi: BitcoinInterfaceAbi,
+    method: string,
+    args: unknown[],
+    sender: Address | undefined,
+    payment: CallPayment | null = null,
+): Promise<CallResult> {
+    const contract = getContract<BaseContractProperties>(
+        address,
+        abi,
+        ctx.provider,
+        ctx.network,
+        sender,
+    );
+    if (payment) {
+        // Output 0 is the interaction itself, so the payment goes out as output 1
+        contract.setTransactionDetails({
+            inputs: [],
+            outputs: [
+                {
+                    index: 1,
+                    to: payment.to,
+                    value: payment.sats,
+                    flags: TransactionOutputFlags.hasTo,
+                },
+            ],
+        });
+    }
+
+    // ABI methods are defined as own properties; anything else is an SDK member of the same name
+    const fn: unknown = Object.getOwnPropertyDescriptor(contract, method)?.value;
+    if (typeof fn !== 'function') {
+        throw new Error(`Method ${method} clashes with a built-in contract member`);
+    }
+    return (await fn.apply(contract, args)) as CallResult;
+}
+
+/**
+ * Builds the wallet outputs that carry a payment, matching the output the
+ * call was simulated with.
+ *
+ * @param payment - Bitcoin sent with the call
+ * @returns Extra outputs for `sendTransaction`
+ */
+export function paymentOutputs(payment: CallPayment): PsbtOutputExtended[] {
+    return [{ address: payment.to, value: toSatoshi(payment.sats) }];
+}
@@ -0,0 +1,64 @@
+import { getContract, IOP20Contract, OP_20_ABI } from 'opnet';
+import { TokenServiceContext } from './tokenService';
+import { nftContractFor } from './nftService';
+
+/**
+ * Token standard a contract implements, as far as probing can tell.
+ */
+export type ContractType = 'op20' | 'op721' | 'unknown';
+
+const contractTypes = new Map<string, ContractType>();
+
+/**
+ * Tells whether a failed contract call was rejected by the contract or node
+ * (revert, unknown method, no contract at the address) rather than failing
+ * in transport.
+ *
+ * @param err - Error thrown by a contract call
+ * @returns True if the call reached the node and was refused
+ */
+export function isCallRejection(err: unknown): boolean {
+    return (
+        err instanceof Error &&
+        (err.message.startsWith('Execution Reverted') ||
+            err.message.startsWith('Error in calling function'))
+    );
+}
+
+/**
+ * Classifies a contract by calling a method only each standard has:
+ * `decimals` for OP20 and `maxSupply` for OP721. Results are cached per network.
+ *
+ * @param ctx - RPC context
+ * @param address - Contract address
+ * @returns The detected standard, `unknown` if neither call succeeds
+ * @throws Error if a probe fails for reasons other than the contract refusing the call
+ */
+export async function detectContractType(
+    ctx: TokenServiceContext,
+    address: string,
+): Promise<ContractType> {
+    const key = `${ctx.networkId}:${address}`;
+    const cached = contractTypes.get(key);
+    if (cached) return cached;
+
+    const op20 = getContract<IOP20Contract>(address, OP_20_ABI, ctx.provider, ctx.network);
+    const [decimals, maxSupply] = await Promise.allSettled([
+        op20.decimals(),
+        nftContractFor(ctx, address).maxSupply(),
+    ]);
+
+    let type: ContractType;
+    if (decimals.status === 'fulfilled') {
+        type = 'op20';
+    } else if (maxSupply.status === 'fulfilled') {
+        type = 'op721';
+    } else if (isCallRejection(decimals.reason) && isCallRejection(maxSupply.reason)) {
+        type = 'unknown';
+    } else {
+        throw isCallRejection(decimals.reason) ? maxSupply.reason : decimals.reason;
+    }
+
+    contractTypes.set(key, type);
+    return type;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { BlockGasParameters, CallResult } from 'opnet';
+import { estimateCost, gasToSats } from './costEstimator';
+
+const gas = {
+    baseGas: 2_000_000_000n,
+    gasPerSat: 1_000_000n,
+    bitcoin: { recommended: { low: 1, medium: 2, high: 4 } },
+} as unknown as BlockGasParameters;
+
+describe('gasToSats', () => {
+    it('adds the SDK headroom to the exact fee', () => {
+        // 2,000,000 sats exact, divided by 0.7
+        expect(gasToSats(2_000_000_000n, 1_000_000_000n)).toBe(2_857_142n);
+    });
+
+    it('never goes below the minimum interaction fee', () => {
+        expect(gasToSats(0n, 1_000_000_000n)).toBe(297n);
+        expect(gasToSats(100_000n, 1_000_000_000n)).toBe(297n);
+    });
+});
+
+describe('estimateCost', () => {
+    it('prices the base gas when nothing was simulated', () => {
+        // 2,000 sats exact for the base gas, divided by 0.7
+        const estimate = estimateCost(gas, null);
+
+        expect(estimate.simulated).toBe(false);
+        expect(estimate.tiers[0]?.gasSats).toBe(2_857n);
+    });
+
+    it('takes the gas fee from the simulation', () => {
+        const simulation = {
+            estimatedGas: 5n,
+            estimatedSatGas: 1_234n,
+            calldata: new Uint8Array(40),
+        } as unknown as CallResult;
+        const estimate = estimateCost(gas, simulation);
+
+        expect(estimate.tiers.map((t) => t.gasSats)).toEqual([1_234n, 1_234n, 1_234n]);
+        expect(estimate.tiers[2]).toMatchObject({ feeRate: 4, networkSats: 1_696n });
+    });
+});
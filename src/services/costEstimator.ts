@@ -0,0 +1,150 @@
+import { BlockGasParameters, CallResult, getContract, IOP20Contract, OP_20_ABI } from 'opnet';
+import { Address } from '@btc-vision/transaction';
+import { TokenServiceContext } from './tokenService';
+
+export type FeeTier = 'low' | 'medium' | 'high';
+
+export const FEE_TIERS: readonly FeeTier[] = ['low', 'medium', 'high'];
+
+/**
+ * Operation to price. Transfers move one raw unit to the burn address and
+ * approvals raise the burn address's allowance by one raw unit; custom calls
+ * invoke any OP20 method with pre-parsed arguments.
+ */
+export type CostOperation =
+    | { kind: 'transfer' }
+    | { kind: 'approve' }
+    | { kind: 'custom'; method: string; args: unknown[] };
+
+/**
+ * Cost of an operation at one Bitcoin fee tier, in satoshis.
+ */
+export interface TierCost {
+    tier: FeeTier;
+    feeRate: number;
+    gasSats: bigint;
+    networkSats: bigint;
+    totalSats: bigint;
+}
+
+/**
+ * Cost breakdown across fee tiers. Without a simulation the gas part is the
+ * block's base gas priced at the current rate, and the transaction size is a
+ * typical small interaction.
+ */
+export interface CostEstimate {
+    gasUsed: bigint | null;
+    vbytes: number;
+    simulated: boolean;
+    revert: string | null;
+    tiers: TierCost[];
+}
+
+/** Minimum gas fee the SDK charges for an interaction, in satoshis. */
+const MIN_GAS_SATS = 297n;
+
+/** `gasPerSat` is quoted per this many gas units. */
+const GAS_PER_SAT_SCALE = 1_000_000_000_000n;
+
+/** Approximate size of the funding transaction (1 input, 2 outputs). */
+const FUNDING_VBYTES = 154;
+
+/** Approximate size of an interaction transaction before calldata. */
+const INTERACTION_BASE_VBYTES = 260;
+
+/** Calldata length assumed when nothing was simulated. */
+const TYPICAL_CALLDATA_BYTES = 68;
+
+/**
+ * Estimates the virtual size of the funding and interaction transactions.
+ * Calldata sits in the witness, which counts a quarter per byte.
+ *
+ * @param calldataBytes - Length of the encoded call
+ * @returns Combined size in vbytes
+ */
+export function estimateVbytes(calldataBytes: number): number {
+    return FUNDING_VBYTES + INTERACTION_BASE_VBYTES + Math.ceil(calldataBytes / 4);
+}
+
+/**
+ * Converts gas to a fee in satoshis the way the SDK prices a simulation: the
+ * exact fee at `gasPerSat` is divided by 0.7 for headroom, with a floor of the
+ * minimum interaction fee.
+ *
+ * @param gas - Gas units
+ * @param gasPerSat - Current `gasPerSat` from `gasParameters`
+ * @returns Gas fee in satoshis
+ */
+export function gasToSats(gas: bigint, gasPerSat: bigint): bigint {
+    const exact = (gas * gasPerSat) / GAS_PER_SAT_SCALE;
+    const padded = (exact * 100n) / 70n;
+    return padded > MIN_GAS_SATS ? padded : MIN_GAS_SATS;
+}
+
+/**
+ * Prices an operation at each Bitcoin fee tier. The gas part is the fee the
+ * SDK priced into the simulation, so it matches what the wallet will pay;
+ * without one, the block's base gas is priced at the current `gasPerSat`.
+ *
+ * @param gas - Current gas parameters, for the gas price and Bitcoin fee rates
+ * @param simulation - Simulated call, or null to price the base gas
+ * @returns Cost breakdown per tier
+ */
+export function estimateCost(gas: BlockGasParameters, simulation: CallResult | null): CostEstimate {
+    const gasUsed = simulation?.estimatedGas ?? null;
+    const gasSats = simulation?.estimatedSatGas ?? gasToSats(gas.baseGas, gas.gasPerSat);
+    const vbytes = estimateVbytes(simulation?.calldata?.length ?? TYPICAL_CALLDATA_BYTES);
+
+    const tiers = FEE_TIERS.map((tier): TierCost => {
+        const feeRate = gas.bitcoin.recommended[tier];
+        const networkSats = BigInt(Math.ceil(vbytes * feeRate));
+        return { tier, feeRate, gasSats, networkSats, totalSats: gasSats + networkSats };
+    });
+
+    return {
+        gasUsed,
+        vbytes,
+        simulated: simulation !== null,
+        revert: simulation?.revert ?? null,
+        tiers,
+    };
+}
+
+/**
+ * Simulates an operation against an OP20 contract without broadcasting it.
+ *
+ * @param ctx - RPC context
+ * @param contract - OP20 contract address
+ * @param sender - Simulated caller; calls that need a balance revert without one
+ * @param operation - Operation to simulate
+ * @returns The simulation result
+ */
+export async function simulateOperation(
+    ctx: TokenServiceContext,
+    contract: string,
+    sender: Address | undefined,
+    operation: CostOperation,
+): Promise<CallResult> {
+    const token = getContract<IOP20Contract>(
+        contract,
+        OP_20_ABI,
+        ctx.provider,
+        ctx.network,
+        sender,
+    );
+
+    switch (operation.kind) {
+        case 'transfer':
+            return token.transfer(Address.dead(), 1n);
+        case 'approve':
+            return token.increaseAllowance(Address.dead(), 1n);
+        case 'custom': {
+            // ABI methods are defined as own properties; anything else is an SDK member
+            const method: unknown = Object.getOwnPropertyDescriptor(token, operation.method)?.value;
+            if (typeof method !== 'function') {
+                throw new Error(`Unknown method ${operation.method}`);
+            }
+            return (await method.apply(token, operation.args)) as CallResult;
+        }
+    }
+}
@@ -0,0 +1,154 @@
+import { BlockGasParameters } from 'opnet';
+import { STORAGE_PREFIX } from '../utils/storage';
+
+/**
+ * One gas parameter sample for a network, as stored in IndexedDB.
+ */
+export interface GasSample {
+    networkId: string;
+    /** Unix time in milliseconds. */
+    timestamp: number;
+    blockNumber: bigint;
+    baseGas: bigint;
+    gasPerSat: bigint;
+    ema: bigint;
+    gasUsed: bigint;
+    targetGasLimit: bigint;
+    feeLow: number;
+    feeMedium: number;
+    feeHigh: number;
+}
+
+const DB_NAME = `${STORAGE_PREFIX}:gas-history`;
+const DB_VERSION = 1;
+const STORE = 'samples';
+const NETWORK_TIME_INDEX = 'networkTime';
+
+/** Samples closer together than this are not stored. */
+const MIN_SAMPLE_INTERVAL_MS = 60_000;
+
+/** Samples older than this are pruned on write. */
+export const GAS_HISTORY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const lastWrite = new Map<string, number>();
+/** Networks with a sample write in progress, so concurrent samples are skipped. */
+const writing = new Set<string>();
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ *
+ * @param request - Pending request
+ * @returns The request result
+ */
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+    });
+}
+
+/**
+ * Opens the gas history database once per page, creating the store on first use.
+ *
+ * @returns The open database
+ */
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const store = request.result.createObjectStore(STORE, { autoIncrement: true });
+            store.createIndex(NETWORK_TIME_INDEX, ['networkId', 'timestamp']);
+        };
+        dbPromise = settle(request).catch((err: unknown) => {
+            dbPromise = null;
+            throw err;
+        });
+    }
+    return dbPromise;
+}
+
+/**
+ * Key range covering one network's samples between two timestamps.
+ */
+function networkRange(networkId: string, from: number, to: number): IDBKeyRange {
+    return IDBKeyRange.bound([networkId, from], [networkId, to]);
+}
+
+/**
+ * Stores a gas parameter sample for a network. Samples arriving within a minute
+ * of the previous stored one, or while another is being written, are skipped.
+ * Samples past the retention window are pruned.
+ *
+ * @param networkId - Network the sample was taken on
+ * @param gas - Gas parameters returned by `provider.gasParameters()`
+ * @param timestamp - Sample time in milliseconds
+ * @returns The stored sample, or null if it was skipped
+ */
+export async function recordGasSample(
+    networkId: string,
+    gas: BlockGasParameters,
+    timestamp: number = Date.now(),
+): Promise<GasSample | null> {
+    const previous = lastWrite.get(networkId);
+    if (
+        writing.has(networkId) ||
+        (previous !== undefined && timestamp - previous < MIN_SAMPLE_INTERVAL_MS)
+    ) {
+        return null;
+    }
+
+    const sample: GasSample = {
+        networkId,
+        timestamp,
+        blockNumber: gas.blockNumber,
+        baseGas: gas.baseGas,
+        gasPerSat: gas.gasPerSat,
+        ema: gas.ema,
+        gasUsed: gas.gasUsed,
+        targetGasLimit: gas.targetGasLimit,
+        feeLow: gas.bitcoin.recommended.low,
+        feeMedium: gas.bitcoin.recommended.medium,
+        feeHigh: gas.bitcoin.recommended.high,
+    };
+
+    writing.add(networkId);
+    try {
+        const db = await openDb();
+        const tx = db.transaction(STORE, 'readwrite');
+        const store = tx.objectStore(STORE);
+        store.add(sample);
+
+        const expired = await settle(
+            store
+                .index(NETWORK_TIME_INDEX)
+                .getAllKeys(networkRange(networkId, 0, timestamp - GAS_HISTORY_RETENTION_MS)),
+        );
+        for (const key of expired) {
+            store.delete(key);
+        }
+
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed'));
+            tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+        });
+        lastWrite.set(networkId, timestamp);
+        return sample;
+    } finally {
+        writing.delete(networkId);
+    }
+}
+
+/**
+ * Loads a network's samples taken at or after a point in time, oldest first.
+ *
+ * @param networkId - Network to read
+ * @param since - Start of the window in milliseconds
+ * @returns Samples in chronological order
+ */
+export async function loadGasSamples(networkId: string, since: number): Promise<GasSample[]> {
+    const db = await openDb();
+    const index = db.transaction(STORE, 'readonly').objectStore(STORE).index(NETWORK_TIME_INDEX);
+    return (await settle(index.getAll(networkRange(networkId, since, Infinity)))) as GasSample[];
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { Address } from '@btc-vision/transaction';
+import { giniCoefficient, nakamotoCoefficient, reconstructBalances } from './holderAnalytics';
+import { TransferRecord } from './transferHistory';
+
+function holder(byte: number): Address {
+    return new Address(new Uint8Array(32).fill(byte));
+}
+
+function transfer(from: Address | null, to: Address | null, amount: bigint): TransferRecord {
+    return {
+        kind: from ? (to ? 'Transferred' : 'Burned') : 'Minted',
+        txId: 'tx',
+        blockNumber: 1n,
+        txIndex: 0,
+        eventIndex: 0,
+        from,
+        to,
+        amount,
+    };
+}
+
+describe('giniCoefficient', () => {
+    it('is 0 for equal balances and for fewer than two holders', () => {
+        expect(giniCoefficient([5n, 5n, 5n, 5n])).toBe(0);
+        expect(giniCoefficient([42n])).toBe(0);
+        expect(giniCoefficient([])).toBe(0);
+    });
+
+    it('measures inequality regardless of input order', () => {
+        expect(giniCoefficient([3n, 1n])).toBeCloseTo(0.25, 6);
+        expect(giniCoefficient([4n, 1n, 3n, 2n])).toBeCloseTo(0.25, 6);
+        expect(giniCoefficient([1n, 1n, 1n, 97n])).toBeCloseTo(0.72, 6);
+    });
+
+    it('ignores empty balances and handles amounts past float precision', () => {
+        expect(giniCoefficient([0n, 0n, 3n, 1n])).toBeCloseTo(0.25, 6);
+        const unit = 10n ** 30n;
+        expect(giniCoefficient([3n * unit, unit])).toBeCloseTo(0.25, 6);
+    });
+});
+
+describe('nakamotoCoefficient', () => {
+    it('counts the largest holders needed to pass half the supply', () => {
+        expect(nakamotoCoefficient([60n, 30n, 10n], 100n)).toBe(1);
+        expect(nakamotoCoefficient([30n, 20n, 20n, 30n], 100n)).toBe(3);
+    });
+
+    it('needs strictly more than half', () => {
+        expect(nakamotoCoefficient([50n, 50n], 100n)).toBe(2);
+    });
+
+    it('returns null when the known balances never pass half', () => {
+        expect(nakamotoCoefficient([20n, 10n], 100n)).toBeNull();
+        expect(nakamotoCoefficient([], 100n)).toBeNull();
+    });
+});
+
+describe('reconstructBalances', () => {
+    it('nets mints, transfers and burns per address', () => {
+        const [alice, bob] = [holder(1), holder(2)];
+        const balances = reconstructBalances([
+            transfer(null, alice, 100n),
+            transfer(alice, bob, 30n),
+            transfer(bob, null, 5n),
+            transfer(bob, alice, 1n),
+        ]);
+
+        expect(balances.get(alice.toHex())?.balance).toBe(71n);
+        expect(balances.get(bob.toHex())?.balance).toBe(24n);
+        expect(balances.size).toBe(2);
+    });
+});
@@ -0,0 +1,160 @@
+import { Address } from '@btc-vision/transaction';
+import { fetchTokenBalance, TokenServiceContext } from './tokenService';
+import { TransferRecord } from './transferHistory';
+
+/**
+ * A holder's balance as reconstructed from events and, when spot-checked,
+ * as reported by `balanceOf`.
+ */
+export interface HolderBalance {
+    address: Address;
+    hex: string;
+    /** Net flow of the scanned events. */
+    reconstructed: bigint;
+    /** `balanceOf` result, or null when this holder was not spot-checked. */
+    onChain: bigint | null;
+    /** Balance used for ranking: the on-chain value when known. */
+    balance: bigint;
+}
+
+/**
+ * Holder ranking and concentration figures for a token.
+ */
+export interface HolderDistribution {
+    holders: HolderBalance[];
+    totalSupply: bigint;
+    /** Gini coefficient of the known balances, 0 (equal) to 1 (one holder). */
+    gini: number;
+    /** Fewest holders that together control more than half the supply, or null if not reached. */
+    nakamoto: number | null;
+    /** Spot-checked holders whose reconstructed balance differs from `balanceOf`. */
+    mismatches: number;
+    spotChecked: number;
+}
+
+/** Holders checked against `balanceOf`, largest reconstructed balances first. */
+const DEFAULT_SPOT_CHECKS = 25;
+
+/**
+ * Sums the net flow per address over a set of balance movements.
+ *
+ * @param transfers - Transfer, mint and burn records
+ * @returns Net flow and address object keyed by hex address
+ */
+export function reconstructBalances(
+    transfers: TransferRecord[],
+): Map<string, { address: Address; balance: bigint }> {
+    const balances = new Map<string, { address: Address; balance: bigint }>();
+
+    const apply = (address: Address | null, delta: bigint) => {
+        if (!address) return;
+        const hex = address.toHex();
+        const entry = balances.get(hex) ?? { address, balance: 0n };
+        entry.balance += delta;
+        balances.set(hex, entry);
+    };
+
+    for (const transfer of transfers) {
+        apply(transfer.from, -transfer.amount);
+        apply(transfer.to, transfer.amount);
+    }
+    return balances;
+}
+
+/**
+ * Computes the Gini coefficient of a set of balances.
+ *
+ * @param balances - Non-negative balances
+ * @returns Coefficient between 0 and 1; 0 for fewer than two holders
+ */
+export function giniCoefficient(balances: bigint[]): number {
+    const values = balances.filter((b) => b > 0n).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    if (values.length < 2) return 0;
+
+    const total = values.reduce((sum, b) => sum + b, 0n);
+    let weighted = 0n;
+    values.forEach((value, i) => {
+        weighted += BigInt(i + 1) * value;
+    });
+
+    const n = BigInt(values.length);
+    // G = 2·Σ(i·x_i) / (n·Σx) − (n + 1) / n, kept in bigint until the final division.
+    const scale = 1_000_000n;
+    const scaled = (2n * weighted * scale) / (n * total) - ((n + 1n) * scale) / n;
+    return Math.max(0, Number(scaled) / Number(scale));
+}
+
+/**
+ * Finds the fewest holders that together own more than half of the supply.
+ *
+ * @param balances - Balances sorted largest first
+ * @param totalSupply - Token total supply
+ * @returns Holder count, or null if the given balances never pass 50%
+ */
+export function nakamotoCoefficient(balances: bigint[], totalSupply: bigint): number | null {
+    let cumulative = 0n;
+    for (let i = 0; i < balances.length; i++) {
+        cumulative += balances[i] ?? 0n;
+        if (cumulative * 2n > totalSupply) return i + 1;
+    }
+    return null;
+}
+
+/**
+ * Builds a holder distribution from scanned balance movements.
+ * Balances are reconstructed from the events, then the largest holders are
+ * spot-checked against `balanceOf`, whose result takes precedence for ranking.
+ *
+ * @param ctx - RPC context
+ * @param contract - OP20 contract address
+ * @param transfers - Scanned transfer, mint and burn records
+ * @param totalSupply - Current total supply
+ * @param spotChecks - How many holders to verify with `balanceOf`
+ * @returns Ranked holders and concentration figures
+ */
+export async function buildHolderDistribution(
+    ctx: TokenServiceContext,
+    contract: string,
+    transfers: TransferRecord[],
+    totalSupply: bigint,
+    spotChecks: number = DEFAULT_SPOT_CHECKS,
+): Promise<HolderDistribution> {
+    const candidates = [...reconstructBalances(transfers).entries()]
+        .map(([hex, entry]) => ({ hex, ...entry }))
+        .sort((a, b) => (a.balance > b.balance ? -1 : a.balance < b.balance ? 1 : 0));
+
+    const checked = candidates.slice(0, spotChecks);
+    const results = await Promise.allSettled(
+        checked.map((c) => fetchTokenBalance(ctx, contract, c.address)),
+    );
+
+    let mismatches = 0;
+    const holders: HolderBalance[] = candidates.map((candidate, i) => {
+        const result = i < results.length ? results[i] : undefined;
+        const onChain = result?.status === 'fulfilled' ? result.value : null;
+        if (onChain !== null && onChain !== candidate.balance) mismatches++;
+
+        const fallback = candidate.balance > 0n ? candidate.balance : 0n;
+        return {
+            address: candidate.address,
+            hex: candidate.hex,
+            reconstructed: candidate.balance,
+            onChain,
+            balance: onChain ?? fallback,
+        };
+    });
+
+    const ranked = holders
+        .filter((h) => h.balance > 0n)
+        .sort((a, b) => (a.balance > b.balance ? -1 : a.balance < b.balance ? 1 : 0));
+    const balances = ranked.map((h) => h.balance);
+
+    return {
+        holders: ranked,
+        totalSupply,
+        gini: giniCoefficient(balances),
+        nakamoto: nakamotoCoefficient(balances, totalSupply),
+        mismatches,
+        spotChecked: results.filter((r) => r.status === 'fulfilled').length,
+    };
+}
@@ -0,0 +1,325 @@
+import { getContract, IOP721Contract, OP_721_ABI } from 'opnet';
+import { Address } from '@btc-vision/transaction';
+import { TokenServiceContext } from './tokenService';
+import { resolveImageUri, resolveIpfsUri } from '../utils/uri';
+import { loadStored, saveStored, storageKey } from '../utils/storage';
+
+/**
+ * Static metadata of an OP721 collection, cached for the lifetime of the page.
+ */
+export interface CollectionMetadata {
+    name: string;
+    symbol: string;
+    maxSupply: bigint;
+    icon: string;
+    banner: string;
+    description: string;
+    website: string;
+}
+
+/**
+ * OP721 collection metadata together with the current number of minted tokens.
+ */
+export interface CollectionInfo extends CollectionMetadata {
+    address: string;
+    totalSupply: bigint;
+}
+
+/**
+ * Trait of an NFT as listed in its metadata.
+ */
+export interface NftAttribute {
+    trait: string;
+    value: string;
+}
+
+/**
+ * Off-chain metadata document a token URI points to.
+ */
+export interface NftMetadata {
+    name: string | null;
+    description: string | null;
+    /** Loadable image URL, or null when missing or of an unsupported scheme. */
+    image: string | null;
+    attributes: NftAttribute[];
+}
+
+/**
+ * NFT of a collection held by an owner. `uri` is null when the contract
+ * could not return it.
+ */
+export interface OwnedNft {
+    tokenId: bigint;
+    uri: string | null;
+}
+
+/**
+ * Tokens an owner holds in a collection. `tokens` is capped, so it can be
+ * shorter than `balance`; `failed` counts indexes that could not be read.
+ */
+export interface OwnedNfts {
+    balance: bigint;
+    tokens: OwnedNft[];
+    failed: number;
+}
+
+/** Most tokens enumerated per collection and owner. */
+export const MAX_OWNED_TOKENS = 100;
+
+/** Most token lookups in flight at once while enumerating a collection. */
+const ENUMERATION_CONCURRENCY = 8;
+
+/** Metadata documents kept in localStorage so galleries still render offline. */
+const STORED_METADATA_KEY = storageKey('nft-metadata');
+const MAX_STORED_METADATA = 500;
+
+const collectionCache = new Map<string, CollectionMetadata>();
+const metadataDocs = new Map<string, Promise<NftMetadata>>();
+
+function collectionKey(ctx: TokenServiceContext, address: string): string {
+    return `${ctx.networkId}:${address}`;
+}
+
+/**
+ * Creates an OP721 contract handle.
+ *
+ * @param ctx - RPC context
+ * @param address - Collection contract address
+ * @returns Typed contract
+ */
+export function nftContractFor(ctx: TokenServiceContext, address: string): IOP721Contract {
+    return getContract<IOP721Contract>(address, OP_721_ABI, ctx.provider, ctx.network);
+}
+
+/**
+ * Fetches name, symbol, supply and collection details of an OP721 contract.
+ * Static fields are cached per network; the minted supply is read every time.
+ *
+ * @param ctx - RPC context
+ * @param address - Collection contract address
+ * @returns Collection info
+ */
+export async function fetchCollectionInfo(
+    ctx: TokenServiceContext,
+    address: string,
+): Promise<CollectionInfo> {
+    const contract = nftContractFor(ctx, address);
+    const key = collectionKey(ctx, address);
+
+    const loadMetadata = async (): Promise<CollectionMetadata> => {
+        const [nameRes, symbolRes, maxSupplyRes, infoRes] = await Promise.all([
+            contract.name(),
+            contract.symbol(),
+            contract.maxSupply(),
+            contract.collectionInfo(),
+        ]);
+        const metadata: CollectionMetadata = {
+            name: nameRes.properties.name,
+            symbol: symbolRes.properties.symbol,
+            maxSupply: maxSupplyRes.properties.maxSupply,
+            ...infoRes.properties,
+        };
+        collectionCache.set(key, metadata);
+        return metadata;
+    };
+
+    const [metadata, supplyRes] = await Promise.all([
+        collectionCache.get(key) ?? loadMetadata(),
+        contract.totalSupply(),
+    ]);
+    return { address, ...metadata, totalSupply: supplyRes.properties.totalSupply };
+}
+
+/**
+ * Looks up the owner of an NFT.
+ *
+ * @param ctx - RPC context
+ * @param address - Collection contract address
+ * @param tokenId - Token id
+ * @returns Owner address
+ * @throws Error if the token does not exist
+ */
+export async function fetchOwnerOf(
+    ctx: TokenServiceContext,
+    address: string,
+    tokenId: bigint,
+): Promise<Address> {
+    const result = await nftContractFor(ctx, address).ownerOf(tokenId);
+    return result.properties.owner;
+}
+
+/**
+ * Reads the metadata URI of an NFT.
+ *
+ * @param ctx - RPC context
+ * @param address - Collection contract address
+ * @param tokenId - Token id
+ * @returns Token URI as stored by the contract
+ */
+export async function fetchTokenUri(
+    ctx: TokenServiceContext,
+    address: string,
+    tokenId: bigint,
+): Promise<string> {
+    const result = await nftContractFor(ctx, address).tokenURI(tokenId);
+    return result.properties.uri;
+}
+
+/**
+ * Enumerates the tokens an owner holds in a collection, with their URIs.
+ * Indexes are read a few at a time; one that fails is counted and skipped
+ * rather than failing the whole collection.
+ *
+ * @param ctx - RPC context
+ * @param address - Collection contract address
+ * @param owner - Holder address
+ * @param limit - Most tokens to enumerate
+ * @returns Owner balance and the enumerated tokens in index order
+ * @throws Error if the balance or every token index cannot be read
+ */
+export async function fetchOwnedTokens(
+    ctx: TokenServiceContext,
+    address: string,
+    owner: Address,
+    limit: number = MAX_OWNED_TOKENS,
+): Promise<OwnedNfts> {
+    const contract = nftContractFor(ctx, address);
+    const balance = (await contract.balanceOf(owner)).properties.balance;
+    const count = Number(balance < BigInt(limit) ? balance : BigInt(limit));
+
+    const readIndex = async (i: number): Promise<OwnedNft> => {
+        const { tokenId } = (await contract.tokenOfOwnerByIndex(owner, BigInt(i))).properties;
+        const uri = await contract
+            .tokenURI(tokenId)
+            .then((res) => res.properties.uri)
+            .catch(() => null);
+        return { tokenId, uri };
+    };
+
+    const results: PromiseSettledResult<OwnedNft>[] = [];
+    let next = 0;
+    const worker = async () => {
+        while (next < count) {
+            const i = next++;
+            results[i] = await readIndex(i).then(
+                (value) => ({ status: 'fulfilled', value }),
+                (reason: unknown) => ({ status: 'rejected', reason }),
+            );
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(count, ENUMERATION_CONCURRENCY) }, worker));
+
+    const tokens: OwnedNft[] = [];
+    let firstError: unknown = null;
+    for (const result of results) {
+        if (result.status === 'fulfilled') {
+            tokens.push(result.value);
+        } else {
+            firstError ??= result.reason;
+        }
+    }
+    if (count > 0 && tokens.length === 0) {
+        throw firstError;
+    }
+
+    return { balance, tokens, failed: count - tokens.length };
+}
+
+function optionalString(value: unknown): string | null {
+    return typeof value === 'string' && value.trim() !== '' ? value : null;
+}
+
+/**
+ * Normalizes a metadata document, accepting the common `image`/`image_url`
+ * and `trait_type`/`value` field names.
+ *
+ * @param data - Parsed JSON
+ * @returns Normalized metadata
+ */
+function parseNftMetadata(data: unknown): NftMetadata {
+    if (typeof data !== 'object' || data === null) {
+        throw new Error('Token metadata is not a JSON object');
+    }
+    const doc = data as Record<string, unknown>;
+
+    const attributes: NftAttribute[] = [];
+    if (Array.isArray(doc.attributes)) {
+        for (const attr of doc.attributes as unknown[]) {
+            if (typeof attr !== 'object' || attr === null) continue;
+            const { trait_type: trait, value } = attr as Record<string, unknown>;
+            if (value === undefined || value === null) continue;
+            attributes.push({
+                trait: typeof trait === 'string' ? trait : 'Trait',
+                value: String(value),
+            });
+        }
+    }
+
+    return {
+        name: optionalString(doc.name),
+        description: optionalString(doc.description),
+        image: resolveImageUri(optionalString(doc.image) ?? optionalString(doc.image_url) ?? ''),
+        attributes,
+    };
+}
+
+/**
+ * Remembers a metadata document across sessions, evicting the oldest entries
+ * beyond `MAX_STORED_METADATA`.
+ */
+function storeMetadata(uri: string, metadata: NftMetadata): void {
+    const stored = loadStored<Record<string, NftMetadata>>(STORED_METADATA_KEY, {});
+    delete stored[uri];
+    stored[uri] = metadata;
+
+    const uris = Object.keys(stored);
+    for (const old of uris.slice(0, Math.max(0, uris.length - MAX_STORED_METADATA))) {
+        delete stored[old];
+    }
+    saveStored(STORED_METADATA_KEY, stored);
+}
+
+/**
+ * Downloads and parses the metadata document behind a token URI. Supports
+ * HTTP(S), `ipfs://` and `data:` URIs; documents are cached per URI. When the
+ * download fails, a copy saved in an earlier session is returned instead.
+ *
+ * @param uri - Token URI
+ * @returns Parsed metadata
+ * @throws Error if the document cannot be fetched or is not JSON and no saved copy exists
+ */
+export function fetchNftMetadata(uri: string): Promise<NftMetadata> {
+    const cached = metadataDocs.get(uri);
+    if (cached) return cached;
+
+    const pending = (async () => {
+        const resolved = resolveIpfsUri(uri.trim());
+        if (!/^(https?:|data:)/.test(resolved)) {
+            throw new Error(`Unsupported token URI scheme: ${uri.slice(0, 40)}`);
+        }
+
+        const response = await fetch(resolved);
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status} fetching token metadata`);
+        }
+
+        let data: unknown;
+        try {
+            data = JSON.parse(await response.text());
+        } catch {
+            throw new Error('Token metadata is not valid JSON');
+        }
+        const metadata = parseNftMetadata(data);
+        // data: URIs live on-chain and resolve offline; storing them would only waste space
+        if (!resolved.startsWith('data:')) storeMetadata(uri, metadata);
+        return metadata;
+    })().catch((err: unknown) => {
+        const saved = loadStored<Record<string, NftMetadata>>(STORED_METADATA_KEY, {})[uri];
+        if (saved) return saved;
+        throw err;
+    });
+
+    metadataDocs.set(uri, pending);
+    pending.catch(() => metadataDocs.delete(uri));
+    return pending;
+}
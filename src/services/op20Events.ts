@@ -0,0 +1,89 @@
+import { getContract, IOP20Contract, OP_20_ABI } from 'opnet';
+import { Address, NetEvent } from '@btc-vision/transaction';
+import { TokenServiceContext } from './tokenService';
+
+/**
+ * OP20 event kinds as named in `OP_20_ABI`.
+ */
+export type OP20EventKind = 'Transferred' | 'Approved' | 'Minted' | 'Burned';
+
+/**
+ * A decoded OP20 event. Parties not carried by the event kind are null.
+ */
+export interface DecodedOP20Event {
+    kind: OP20EventKind;
+    contract: string;
+    from: Address | null;
+    to: Address | null;
+    owner: Address | null;
+    spender: Address | null;
+    amount: bigint;
+}
+
+/** Human-readable labels for each OP20 event kind. */
+export const OP20_EVENT_LABELS: Record<OP20EventKind, string> = {
+    Transferred: 'Transfer',
+    Approved: 'Approval',
+    Minted: 'Mint',
+    Burned: 'Burn',
+};
+
+const OP20_EVENT_KINDS = new Set<string>(Object.keys(OP20_EVENT_LABELS));
+
+/**
+ * Builds a decoder for the OP20 events of one contract.
+ *
+ * @param ctx - RPC context used to build the decoding contract
+ * @param contract - Address of the contract that emitted the events
+ * @returns Function decoding one raw event; null for events that are not OP20
+ * @throws From the returned function, if an OP20 event's data does not match the ABI
+ */
+export function createOP20EventDecoder(
+    ctx: TokenServiceContext,
+    contract: string,
+): (event: NetEvent) => DecodedOP20Event | null {
+    const decoder = getContract<IOP20Contract>(contract, OP_20_ABI, ctx.provider, ctx.network);
+
+    return (event) => {
+        if (!OP20_EVENT_KINDS.has(event.type)) return null;
+
+        const props = decoder.decodeEvent(event).properties as Record<string, unknown>;
+        const address = (key: string) =>
+            props[key] instanceof Address ? (props[key] as Address) : null;
+
+        return {
+            kind: event.type as OP20EventKind,
+            contract,
+            from: address('from'),
+            to: address('to'),
+            owner: address('owner'),
+            spender: address('spender'),
+            amount: typeof props.amount === 'bigint' ? props.amount : 0n,
+        };
+    };
+}
+
+/**
+ * Decodes the OP20 events emitted by one contract. Events of other types are skipped.
+ *
+ * @param ctx - RPC context used to build the decoding contract
+ * @param contract - Address of the contract that emitted the events
+ * @param events - Raw events from a transaction receipt
+ * @returns Decoded OP20 events in emission order
+ * @throws If any OP20 event's data does not match the ABI
+ */
+export function decodeOP20Events(
+    ctx: TokenServiceContext,
+    contract: string,
+    events: NetEvent[],
+): DecodedOP20Event[] {
+    const decode = createOP20EventDecoder(ctx, contract);
+    const decoded: DecodedOP20Event[] = [];
+
+    for (const event of events) {
+        const result = decode(event);
+        if (result) decoded.push(result);
+    }
+
+    return decoded;
+}
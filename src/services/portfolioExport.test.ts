@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { networks } from '@btc-vision/bitcoin';
+import {
+    buildPortfolioExport,
+    parseWatchlist,
+    PortfolioHolding,
+    portfolioToCsv,
+} from './portfolioExport';
+
+const TOKEN = 'opr1sqz6kdglwen5qnztrvxvgsg7d9aprl6qquud5pnjt';
+const WALLET = 'bcrt1qw508d6qejxtdg4y5r3zarvary0c5xw7kygt080';
+
+function holding(overrides: Partial<PortfolioHolding>): PortfolioHolding {
+    return {
+        address: TOKEN,
+        name: 'Moto',
+        symbol: 'MOTO',
+        decimals: 8,
+        totalSupply: 1_000n * 10n ** 8n,
+        balance: 250n * 10n ** 8n,
+        supplyShare: 25,
+        valuation: null,
+        ...overrides,
+    };
+}
+
+function csvFor(holdings: PortfolioHolding[]): string[] {
+    const data = buildPortfolioExport(
+        { networkId: 'regtest', blockHeight: 900n, wallet: WALLET },
+        holdings,
+        [],
+    );
+    return portfolioToCsv(data).split('\r\n');
+}
+
+describe('portfolioToCsv', () => {
+    it('writes a header and one row per token with decimal and raw amounts', () => {
+        const [header, row] = csvFor([holding({})]);
+
+        expect(header?.split(',').slice(0, 4)).toEqual([
+            'network',
+            'block_height',
+            'exported_at',
+            'address',
+        ]);
+        expect(row).toMatch(
+            new RegExp(`^regtest,900,[^,]+,${TOKEN},Moto,MOTO,8,250,25000000000,1000,`),
+        );
+    });
+
+    it('neutralizes token names a spreadsheet would run as formulas', () => {
+        const [, row] = csvFor([
+            holding({ name: '=HYPERLINK("http://x","click")', symbol: '@SUM(A1)' }),
+        ]);
+
+        expect(row).toContain(`,"'=HYPERLINK(""http://x"",""click"")",'@SUM(A1),`);
+    });
+
+    it('leaves numbers alone and quotes separators', () => {
+        const [, row] = csvFor([holding({ name: '-5', symbol: 'A,B' })]);
+
+        expect(row).toContain(',-5,"A,B",');
+    });
+});
+
+describe('parseWatchlist', () => {
+    it('reads an exported portfolio and splits out invalid entries', () => {
+        const text = JSON.stringify({
+            format: 'opnet-portfolio',
+            network: 'regtest',
+            tokens: [{ address: TOKEN }, { address: TOKEN }, { address: 'nope' }],
+            watchlist: [{ label: 'Cold', address: WALLET }, { address: WALLET }],
+        });
+
+        expect(parseWatchlist(text, 'regtest', networks.regtest)).toEqual({
+            tokens: [TOKEN],
+            watchlist: [
+                { label: 'Cold', address: WALLET },
+                { label: WALLET.slice(0, 10), address: WALLET },
+            ],
+            invalid: ['nope'],
+        });
+    });
+
+    it('accepts a plain array of token addresses', () => {
+        expect(parseWatchlist(JSON.stringify([TOKEN]), 'regtest', networks.regtest).tokens).toEqual(
+            [TOKEN],
+        );
+    });
+
+    it('refuses files for another network or of an unknown shape', () => {
+        const mainnet = JSON.stringify({ network: 'mainnet', tokens: [] });
+
+        expect(() => parseWatchlist(mainnet, 'regtest', networks.regtest)).toThrow(
+            'Watchlist is for mainnet',
+        );
+        expect(() => parseWatchlist('{}', 'regtest', networks.regtest)).toThrow(
+            'Expected an exported portfolio',
+        );
+        expect(() => parseWatchlist('not json', 'regtest', networks.regtest)).toThrow(
+            'File is not valid JSON',
+        );
+    });
+});
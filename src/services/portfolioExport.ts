@@ -0,0 +1,253 @@
+import { Network } from '@btc-vision/bitcoin';
+import { TokenInfo } from './tokenService';
+import { TokenValuation } from './priceSources';
+import { BTC_DECIMALS, formatTokenAmount } from '../utils/amount';
+import { isAccountAddress, isContractAddress } from '../utils/address';
+import { toCsv } from '../utils/csv';
+
+/** Identifies portfolio files written by this app. */
+const EXPORT_FORMAT = 'opnet-portfolio';
+const EXPORT_VERSION = 1;
+
+/** Plain decimal output for files: full precision, no grouping, `.` separator. */
+const FILE_AMOUNT = { locale: 'en-US', grouping: false } as const;
+
+/**
+ * A tracked token with what is known about the holding.
+ * `balance` and `supplyShare` are null without a wallet.
+ */
+export interface PortfolioHolding extends TokenInfo {
+    balance: bigint | null;
+    supplyShare: number | null;
+    valuation: TokenValuation | null;
+}
+
+/**
+ * Token entry of an exported portfolio. Amounts are decimal strings in raw units.
+ */
+export interface ExportedToken {
+    address: string;
+    name: string;
+    symbol: string;
+    decimals: number;
+    balance: string | null;
+    totalSupply: string;
+    supplyShare: number | null;
+    valueSats: string | null;
+    priceSource: string | null;
+}
+
+/**
+ * Exported portfolio, as written to JSON.
+ */
+export interface PortfolioExport {
+    format: typeof EXPORT_FORMAT;
+    version: typeof EXPORT_VERSION;
+    network: string;
+    blockHeight: string | null;
+    exportedAt: string;
+    wallet: string | null;
+    tokens: ExportedToken[];
+    watchlist: { label: string; address: string }[];
+}
+
+/**
+ * Addresses read from an imported watchlist, with the entries that failed validation.
+ */
+export interface ImportedWatchlist {
+    tokens: string[];
+    watchlist: { label: string; address: string }[];
+    invalid: string[];
+}
+
+/**
+ * Builds the export document for a portfolio.
+ *
+ * @param meta - Network, block height and wallet the data was read at
+ * @param holdings - Tracked tokens
+ * @param watchlist - Watched addresses on the network
+ * @returns Export document
+ */
+export function buildPortfolioExport(
+    meta: { networkId: string; blockHeight: bigint | null; wallet: string | null },
+    holdings: PortfolioHolding[],
+    watchlist: { label: string; address: string }[],
+): PortfolioExport {
+    return {
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        network: meta.networkId,
+        blockHeight: meta.blockHeight?.toString() ?? null,
+        exportedAt: new Date().toISOString(),
+        wallet: meta.wallet,
+        tokens: holdings.map((h) => ({
+            address: h.address,
+            name: h.name,
+            symbol: h.symbol,
+            decimals: h.decimals,
+            balance: h.balance?.toString() ?? null,
+            totalSupply: h.totalSupply.toString(),
+            supplyShare: h.supplyShare,
+            valueSats: h.valuation?.priced ? h.valuation.valueSats.toString() : null,
+            priceSource: h.valuation?.priced ? h.valuation.source : null,
+        })),
+        watchlist,
+    };
+}
+
+/**
+ * Renders an export as indented JSON.
+ *
+ * @param data - Export document
+ * @returns JSON text
+ */
+export function portfolioToJson(data: PortfolioExport): string {
+    return `${JSON.stringify(data, null, 2)}\n`;
+}
+
+/**
+ * Renders an export as CSV, one row per token. Network and block height are
+ * repeated on every row so the file stays self-describing in a spreadsheet.
+ * Amounts are written both as decimals and in raw units.
+ *
+ * @param data - Export document
+ * @returns CSV text
+ */
+export function portfolioToCsv(data: PortfolioExport): string {
+    const header = [
+        'network',
+        'block_height',
+        'exported_at',
+        'address',
+        'name',
+        'symbol',
+        'decimals',
+        'balance',
+        'balance_raw',
+        'total_supply',
+        'total_supply_raw',
+        'supply_share_pct',
+        'value_btc',
+        'value_sats',
+        'price_source',
+    ];
+
+    const rows = data.tokens.map((t) => {
+        const balance = t.balance !== null ? BigInt(t.balance) : null;
+        const valueSats = t.valueSats !== null ? BigInt(t.valueSats) : null;
+        return [
+            data.network,
+            data.blockHeight,
+            data.exportedAt,
+            t.address,
+            t.name,
+            t.symbol,
+            t.decimals,
+            balance !== null
+                ? formatTokenAmount(balance, t.decimals, {
+                      ...FILE_AMOUNT,
+                      maxFractionDigits: t.decimals,
+                  })
+                : null,
+            t.balance,
+            formatTokenAmount(BigInt(t.totalSupply), t.decimals, {
+                ...FILE_AMOUNT,
+                maxFractionDigits: t.decimals,
+            }),
+            t.totalSupply,
+            t.supplyShare,
+            valueSats !== null
+                ? formatTokenAmount(valueSats, BTC_DECIMALS, {
+                      ...FILE_AMOUNT,
+                      maxFractionDigits: BTC_DECIMALS,
+                  })
+                : null,
+            t.valueSats,
+            t.priceSource,
+        ];
+    });
+
+    return toCsv([header, ...rows]);
+}
+
+/**
+ * Reads a token address from an import entry, which may be a plain string or
+ * an exported token object.
+ */
+function entryAddress(entry: unknown): string | null {
+    if (typeof entry === 'string') return entry.trim();
+    if (entry && typeof entry === 'object' && 'address' in entry) {
+        const { address } = entry as { address: unknown };
+        return typeof address === 'string' ? address.trim() : null;
+    }
+    return null;
+}
+
+/**
+ * Parses a JSON watchlist: either an exported portfolio or a plain array of
+ * token addresses. Every address is validated against the network; invalid
+ * ones are returned separately instead of failing the whole import.
+ *
+ * @param text - File content
+ * @param networkId - Active network id, compared with the file's network
+ * @param network - Active Bitcoin network used for validation
+ * @returns Valid token addresses and watched addresses, plus rejected entries
+ * @throws Error if the file is not JSON, has an unknown shape, or targets another network
+ */
+export function parseWatchlist(
+    text: string,
+    networkId: string,
+    network: Network,
+): ImportedWatchlist {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('File is not valid JSON');
+    }
+
+    let tokenEntries: unknown[];
+    let watchEntries: unknown[] = [];
+    if (Array.isArray(data)) {
+        tokenEntries = data;
+    } else if (
+        data &&
+        typeof data === 'object' &&
+        Array.isArray((data as PortfolioExport).tokens)
+    ) {
+        const doc = data as Partial<PortfolioExport>;
+        if (typeof doc.network === 'string' && doc.network !== networkId) {
+            throw new Error(`Watchlist is for ${doc.network}, switch to that network to import it`);
+        }
+        tokenEntries = doc.tokens ?? [];
+        watchEntries = Array.isArray(doc.watchlist) ? doc.watchlist : [];
+    } else {
+        throw new Error('Expected an exported portfolio or an array of token addresses');
+    }
+
+    const result: ImportedWatchlist = { tokens: [], watchlist: [], invalid: [] };
+
+    for (const entry of tokenEntries) {
+        const address = entryAddress(entry);
+        if (address && isContractAddress(address, network)) {
+            if (!result.tokens.includes(address)) result.tokens.push(address);
+        } else {
+            result.invalid.push(address ?? JSON.stringify(entry));
+        }
+    }
+
+    for (const entry of watchEntries) {
+        const address = entryAddress(entry);
+        const label =
+            entry && typeof entry === 'object' && 'label' in entry
+                ? String((entry as { label: unknown }).label)
+                : '';
+        if (address && isAccountAddress(address, network)) {
+            result.watchlist.push({ label: label || address.slice(0, 10), address });
+        } else {
+            result.invalid.push(address ?? JSON.stringify(entry));
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,114 @@
+/**
+ * Exchange rate of a token against bitcoin, kept as a ratio so no precision is
+ * lost: `tokens` raw token units are worth `sats` satoshis.
+ */
+export interface TokenPrice {
+    sats: bigint;
+    tokens: bigint;
+}
+
+/**
+ * Something that can price a token in satoshis, e.g. an AMM pool or an API.
+ */
+export interface PriceSource {
+    id: string;
+    label: string;
+    /**
+     * Prices a token, optionally as of a past block.
+     *
+     * @param token - Token contract address
+     * @param height - Block height to price at; the chain tip when omitted
+     * @returns The price, or null if this source cannot price the token
+     */
+    getPrice: (token: string, height?: bigint) => Promise<TokenPrice | null>;
+}
+
+/**
+ * Value of a holding, or why it could not be valued.
+ */
+export type TokenValuation =
+    | {
+          priced: true;
+          source: string;
+          price: TokenPrice;
+          valueSats: bigint;
+          /** Holding value 24 hours ago at today's balance; null if no earlier price exists. */
+          valueSats24h: bigint | null;
+      }
+    | { priced: false; reason: string };
+
+/** Roughly one day of Bitcoin blocks. */
+export const BLOCKS_PER_DAY = 144n;
+
+/**
+ * Converts a raw token amount to satoshis at a price.
+ *
+ * @param amount - Raw token amount
+ * @param price - Token price
+ * @returns Value in satoshis, rounded down
+ */
+export function valueInSats(amount: bigint, price: TokenPrice): bigint {
+    return price.tokens > 0n ? (amount * price.sats) / price.tokens : 0n;
+}
+
+/**
+ * Percentage change between two values.
+ *
+ * @param now - Current value
+ * @param before - Earlier value
+ * @returns Change in percent, or null when there is nothing to compare against
+ */
+export function percentChange(now: bigint, before: bigint | null): number | null {
+    if (before === null || before === 0n) return null;
+    return Number(((now - before) * 10000n) / before) / 100;
+}
+
+/**
+ * Values a holding with the first source that can price the token. The same
+ * source is asked for the price a day earlier to derive the 24h change.
+ *
+ * @param sources - Price sources in order of preference
+ * @param token - Token contract address
+ * @param balance - Raw token balance
+ * @param tip - Current block height
+ * @returns The valuation, or the reason the token is unpriced
+ */
+export async function valueHolding(
+    sources: PriceSource[],
+    token: string,
+    balance: bigint,
+    tip: bigint,
+): Promise<TokenValuation> {
+    if (sources.length === 0) {
+        return { priced: false, reason: 'No price source configured' };
+    }
+
+    const failures: string[] = [];
+    for (const source of sources) {
+        try {
+            const price = await source.getPrice(token);
+            if (!price) continue;
+
+            const earlier =
+                tip > BLOCKS_PER_DAY
+                    ? await source.getPrice(token, tip - BLOCKS_PER_DAY).catch(() => null)
+                    : null;
+
+            return {
+                priced: true,
+                source: source.label,
+                price,
+                valueSats: valueInSats(balance, price),
+                valueSats24h: earlier ? valueInSats(balance, earlier) : null,
+            };
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            failures.push(`${source.label}: ${message}`);
+        }
+    }
+
+    return {
+        priced: false,
+        reason: failures.length > 0 ? failures.join('; ') : 'No market found for this token',
+    };
+}
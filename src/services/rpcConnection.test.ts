@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { networks } from '@btc-vision/bitcoin';
+import { ConnectionState, startRpcConnection } from './rpcConnection';
+
+const getBlockNumber = vi.hoisted(() => vi.fn());
+
+vi.mock('opnet', () => ({
+    JSONRpcProvider: class {
+        getBlockNumber = getBlockNumber;
+        close = () => Promise.resolve();
+    },
+}));
+
+afterEach(() => {
+    getBlockNumber.mockReset();
+});
+
+describe('startRpcConnection', () => {
+    it('runs a retry requested during a check once that check settles', async () => {
+        let answer: (height: bigint) => void = () => undefined;
+        getBlockNumber.mockReturnValueOnce(
+            new Promise<bigint>((resolve) => {
+                answer = resolve;
+            }),
+        );
+        getBlockNumber.mockResolvedValue(2n);
+        const states: ConnectionState[] = [];
+        const connection = startRpcConnection(['https://rpc.test'], networks.regtest, (s) =>
+            states.push(s),
+        );
+
+        connection.retry();
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        expect(getBlockNumber).toHaveBeenCalledTimes(1);
+
+        answer(1n);
+        await vi.waitFor(() => expect(getBlockNumber).toHaveBeenCalledTimes(2));
+        connection.close();
+
+        expect(states.map((s) => s.status)).toEqual(['connected', 'connected']);
+    });
+});
@@ -0,0 +1,198 @@
+import { JSONRpcProvider } from 'opnet';
+import { Network } from '@btc-vision/bitcoin';
+
+/**
+ * Connection status of the active network.
+ * `degraded` means the node answers but is slow, or only a fallback URL works.
+ */
+export type ConnectionStatus = 'connecting' | 'connected' | 'degraded' | 'offline';
+
+/**
+ * Snapshot reported by the connection manager on every change.
+ */
+export interface ConnectionState {
+    status: ConnectionStatus;
+    /** Provider for the RPC URL in use; kept while offline so pending calls can finish. */
+    provider: JSONRpcProvider | null;
+    url: string | null;
+    error: Error | null;
+    /** When the next reconnect attempt runs, in milliseconds since epoch. */
+    retryAt: number | null;
+}
+
+/**
+ * Handle to a running connection manager.
+ */
+export interface RpcConnection {
+    /** Runs a health check right away, e.g. from a "retry now" button. */
+    retry: () => void;
+    /** Lets callers report a failed RPC call so the endpoint is re-checked early. */
+    reportFailure: () => void;
+    close: () => void;
+}
+
+/** Period between health checks while connected. */
+const HEALTH_CHECK_INTERVAL_MS = 30_000;
+
+/** Time allowed for a health check before the endpoint counts as down. */
+const HEALTH_CHECK_TIMEOUT_MS = 8000;
+
+/** Health checks slower than this mark the connection as degraded. */
+const SLOW_RESPONSE_MS = 3000;
+
+/** First reconnect delay; doubles per failed attempt up to `RETRY_MAX_MS`. */
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 60_000;
+
+/** Reported failures within this window of the last check are ignored. */
+const REPORT_COOLDOWN_MS = 5000;
+
+/**
+ * Rejects if a promise does not settle in time.
+ *
+ * @param promise - Promise to wait for
+ * @param ms - Timeout in milliseconds
+ * @returns The promise's value
+ * @throws Error if the timeout elapses first
+ */
+async function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new Error('RPC did not respond in time')), ms);
+        });
+        return await Promise.race([promise, timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Keeps a network connected across a list of RPC URLs.
+ * Each health check tries the URLs in order, so the primary is preferred and
+ * taken back as soon as it recovers; while it is down the first fallback that
+ * answers is used. When no URL answers the connection goes offline and retries
+ * with exponential backoff. A retry requested during a check runs right after it.
+ *
+ * @param urls - RPC URLs, primary first
+ * @param network - Bitcoin network of the endpoints
+ * @param onChange - Called with the new state on every transition
+ * @returns Handle to control and stop the manager
+ */
+export function startRpcConnection(
+    urls: string[],
+    network: Network,
+    onChange: (state: ConnectionState) => void,
+): RpcConnection {
+    let closed = false;
+    let checking = false;
+    /** Set when a check is requested while one is running; it runs again once settled. */
+    let rerun = false;
+    let attempt = 0;
+    let lastCheck = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let state: ConnectionState = {
+        status: 'connecting',
+        provider: null,
+        url: null,
+        error: null,
+        retryAt: null,
+    };
+
+    const update = (next: ConnectionState) => {
+        state = next;
+        if (!closed) onChange(state);
+    };
+
+    const schedule = (delay: number) => {
+        clearTimeout(timer);
+        timer = setTimeout(() => void check(), delay);
+    };
+
+    const check = async () => {
+        if (closed) return;
+        if (checking) {
+            rerun = true;
+            return;
+        }
+        checking = true;
+        rerun = false;
+        lastCheck = Date.now();
+        let primaryError: Error | null = null;
+        let lastError: Error | null = null;
+
+        try {
+            for (const url of urls) {
+                const provider =
+                    url === state.url && state.provider
+                        ? state.provider
+                        : new JSONRpcProvider(url, network);
+                const reuse = provider === state.provider;
+                const started = Date.now();
+
+                try {
+                    await withTimeout(provider.getBlockNumber(), HEALTH_CHECK_TIMEOUT_MS);
+                } catch (err) {
+                    lastError = err instanceof Error ? err : new Error(String(err));
+                    primaryError ??= lastError;
+                    if (!reuse) void provider.close();
+                    continue;
+                }
+
+                if (closed) {
+                    if (!reuse) void provider.close();
+                    return;
+                }
+                if (!reuse) void state.provider?.close();
+
+                const elapsed = Date.now() - started;
+                const error =
+                    primaryError !== null
+                        ? new Error(`Primary RPC unavailable: ${primaryError.message}`)
+                        : elapsed > SLOW_RESPONSE_MS
+                          ? new Error(`RPC responded slowly (${elapsed} ms)`)
+                          : null;
+
+                attempt = 0;
+                update({
+                    status: error ? 'degraded' : 'connected',
+                    provider,
+                    url,
+                    error,
+                    retryAt: null,
+                });
+                schedule(HEALTH_CHECK_INTERVAL_MS);
+                return;
+            }
+
+            const delay = Math.min(RETRY_BASE_MS * 2 ** attempt, RETRY_MAX_MS);
+            attempt += 1;
+            update({
+                ...state,
+                status: 'offline',
+                error: lastError ?? new Error('No RPC URL configured'),
+                retryAt: Date.now() + delay,
+            });
+            schedule(delay);
+        } finally {
+            checking = false;
+            if (rerun && !closed) schedule(0);
+        }
+    };
+
+    void check();
+
+    return {
+        retry: () => schedule(0),
+        reportFailure: () => {
+            if (Date.now() - lastCheck > REPORT_COOLDOWN_MS) {
+                schedule(0);
+            }
+        },
+        close: () => {
+            closed = true;
+            clearTimeout(timer);
+            void state.provider?.close();
+        },
+    };
+}
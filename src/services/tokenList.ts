@@ -0,0 +1,287 @@
+import { TokenMetadata } from './tokenService';
+import defaultTokenList from './defaultTokenList.json';
+
+/**
+ * Token known to a token list. `network` is an OPNet network id such as `mainnet`.
+ */
+export interface TokenListEntry {
+    address: string;
+    network: string;
+    name: string;
+    symbol: string;
+    decimals: number;
+    logoURI?: string;
+}
+
+/**
+ * Semantic version of a token list; bumped by the list publisher on every change.
+ */
+export interface TokenListVersion {
+    major: number;
+    minor: number;
+    patch: number;
+}
+
+/**
+ * Versioned token list document.
+ */
+export interface TokenList {
+    name: string;
+    version: TokenListVersion;
+    timestamp?: string;
+    tokens: TokenListEntry[];
+}
+
+/** Lists fetched from URLs during this session, keyed by URL. */
+const fetchedLists = new Map<string, Promise<TokenList>>();
+
+/**
+ * Token list shipped with the app.
+ */
+export const DEFAULT_TOKEN_LIST: TokenList = parseTokenList(defaultTokenList);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isVersionPart(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Validates a single list entry.
+ *
+ * @param value - Raw entry
+ * @param index - Position in the list, used in error messages
+ * @returns The typed entry
+ * @throws Error naming the first invalid field
+ */
+function parseEntry(value: unknown, index: number): TokenListEntry {
+    if (!isRecord(value)) {
+        throw new Error(`Token ${index} is not an object`);
+    }
+
+    for (const field of ['address', 'network', 'name', 'symbol'] as const) {
+        const fieldValue = value[field];
+        if (typeof fieldValue !== 'string' || fieldValue.trim() === '') {
+            throw new Error(`Token ${index} is missing ${field}`);
+        }
+    }
+
+    const { decimals, logoURI } = value;
+    if (
+        typeof decimals !== 'number' ||
+        !Number.isInteger(decimals) ||
+        decimals < 0 ||
+        decimals > 255
+    ) {
+        throw new Error(`Token ${index} has invalid decimals`);
+    }
+    if (logoURI !== undefined && typeof logoURI !== 'string') {
+        throw new Error(`Token ${index} has invalid logoURI`);
+    }
+
+    return {
+        address: (value.address as string).trim(),
+        network: value.network as string,
+        name: value.name as string,
+        symbol: value.symbol as string,
+        decimals,
+        ...(logoURI ? { logoURI } : {}),
+    };
+}
+
+/**
+ * Validates a parsed token list document.
+ *
+ * @param data - Parsed JSON
+ * @returns The typed token list
+ * @throws Error if the document does not follow the token list format
+ */
+export function parseTokenList(data: unknown): TokenList {
+    if (!isRecord(data)) {
+        throw new Error('Token list must be a JSON object');
+    }
+    if (typeof data.name !== 'string' || data.name.trim() === '') {
+        throw new Error('Token list is missing a name');
+    }
+
+    const version = data.version;
+    if (
+        !isRecord(version) ||
+        !isVersionPart(version.major) ||
+        !isVersionPart(version.minor) ||
+        !isVersionPart(version.patch)
+    ) {
+        throw new Error('Token list version must have integer major, minor and patch');
+    }
+    if (!Array.isArray(data.tokens)) {
+        throw new Error('Token list is missing its tokens array');
+    }
+
+    return {
+        name: data.name,
+        version: { major: version.major, minor: version.minor, patch: version.patch },
+        ...(typeof data.timestamp === 'string' ? { timestamp: data.timestamp } : {}),
+        tokens: data.tokens.map(parseEntry),
+    };
+}
+
+/**
+ * Parses token list JSON text.
+ *
+ * @param text - File or response body
+ * @returns The typed token list
+ * @throws Error if the text is not JSON or not a valid token list
+ */
+export function parseTokenListText(text: string): TokenList {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('Token list is not valid JSON');
+    }
+    return parseTokenList(data);
+}
+
+/**
+ * Downloads a token list. Lists are fetched once per session unless `refresh` is set.
+ *
+ * @param url - List URL
+ * @param refresh - Bypass the session cache
+ * @returns The token list
+ * @throws Error if the request fails or the list is invalid
+ */
+export function fetchTokenList(url: string, refresh = false): Promise<TokenList> {
+    const cached = fetchedLists.get(url);
+    if (cached && !refresh) return cached;
+
+    const pending = (async () => {
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status} fetching token list`);
+        }
+        return parseTokenListText(await response.text());
+    })();
+
+    fetchedLists.set(url, pending);
+    pending.catch(() => fetchedLists.delete(url));
+    return pending;
+}
+
+/**
+ * Formats a list version for display.
+ *
+ * @param version - List version
+ * @returns Version string, e.g. "v1.2.0"
+ */
+export function formatListVersion(version: TokenListVersion): string {
+    return `v${version.major}.${version.minor}.${version.patch}`;
+}
+
+/**
+ * Normalizes an address for comparison. Hex keys and bech32 addresses are
+ * both case-insensitive.
+ */
+function addressKey(address: string): string {
+    return address.trim().toLowerCase();
+}
+
+/**
+ * Collects the entries of several lists for one network. When lists disagree
+ * about a token the earlier list wins.
+ *
+ * @param lists - Token lists in order of precedence
+ * @param networkId - Network to keep entries for
+ * @returns Entries keyed by normalized address
+ */
+export function indexTokenLists(
+    lists: TokenList[],
+    networkId: string,
+): Map<string, TokenListEntry> {
+    const index = new Map<string, TokenListEntry>();
+    for (const list of lists) {
+        for (const entry of list.tokens) {
+            const key = addressKey(entry.address);
+            if (entry.network === networkId && !index.has(key)) {
+                index.set(key, entry);
+            }
+        }
+    }
+    return index;
+}
+
+/**
+ * Looks up a token in an index built by `indexTokenLists`.
+ *
+ * @param index - Indexed list entries
+ * @param address - Token contract address
+ * @returns The entry, or undefined if no list knows the token
+ */
+export function findListedToken(
+    index: Map<string, TokenListEntry>,
+    address: string,
+): TokenListEntry | undefined {
+    return index.get(addressKey(address));
+}
+
+/**
+ * Finds tokens whose symbol or name matches a query. Exact symbol matches come
+ * first, then symbol prefixes, then name matches.
+ *
+ * @param index - Indexed list entries
+ * @param query - Text typed by the user
+ * @param limit - Maximum number of results
+ * @returns Matching entries, best first
+ */
+export function searchTokenList(
+    index: Map<string, TokenListEntry>,
+    query: string,
+    limit = 8,
+): TokenListEntry[] {
+    const q = query.trim().toLowerCase();
+    if (!q) return [];
+
+    const ranked: { entry: TokenListEntry; rank: number }[] = [];
+    for (const entry of index.values()) {
+        const symbol = entry.symbol.toLowerCase();
+        const name = entry.name.toLowerCase();
+        const rank =
+            symbol === q
+                ? 0
+                : symbol.startsWith(q)
+                  ? 1
+                  : name.startsWith(q)
+                    ? 2
+                    : symbol.includes(q) || name.includes(q)
+                      ? 3
+                      : -1;
+        if (rank >= 0) ranked.push({ entry, rank });
+    }
+
+    return ranked
+        .sort((a, b) => a.rank - b.rank || a.entry.symbol.localeCompare(b.entry.symbol))
+        .slice(0, limit)
+        .map((r) => r.entry);
+}
+
+/**
+ * Compares on-chain metadata with a list entry.
+ *
+ * @param entry - Token list entry
+ * @param onChain - Metadata read from the contract
+ * @returns Human-readable differences; empty when the list matches the chain
+ */
+export function compareWithList(entry: TokenListEntry, onChain: TokenMetadata): string[] {
+    const mismatches: string[] = [];
+    if (entry.name !== onChain.name) {
+        mismatches.push(`name is "${onChain.name}", list says "${entry.name}"`);
+    }
+    if (entry.symbol !== onChain.symbol) {
+        mismatches.push(`symbol is "${onChain.symbol}", list says "${entry.symbol}"`);
+    }
+    if (entry.decimals !== onChain.decimals) {
+        mismatches.push(`decimals are ${onChain.decimals}, list says ${entry.decimals}`);
+    }
+    return mismatches;
+}
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Address } from '@btc-vision/transaction';
+import { JSONRpcProvider } from 'opnet';
+import { networks } from '@btc-vision/bitcoin';
+import {
+    fetchTokenBalance,
+    invalidateNetworkState,
+    invalidateTokenState,
+    TokenServiceContext,
+} from './tokenService';
+
+const balanceOf = vi.hoisted(() => vi.fn());
+
+vi.mock('opnet', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('opnet')>()),
+    getContract: () => ({ balanceOf }),
+}));
+
+const TOKEN = 'opr1token';
+const OWNER = new Address(new Uint8Array(32).fill(1));
+
+/** Balance call the test resolves by hand. */
+function pendingBalance() {
+    let resolve: (balance: bigint) => void = () => undefined;
+    balanceOf.mockReturnValueOnce(
+        new Promise((res) => {
+            resolve = (balance) => res({ properties: { balance } });
+        }),
+    );
+    return (balance: bigint) => resolve(balance);
+}
+
+let ctx: TokenServiceContext;
+let network = 0;
+
+beforeEach(() => {
+    ctx = {
+        provider: {} as JSONRpcProvider,
+        network: networks.regtest,
+        networkId: `net${++network}`,
+    };
+    balanceOf.mockReset();
+});
+
+describe('fetchTokenBalance', () => {
+    it('shares one request and caches the result', async () => {
+        const resolve = pendingBalance();
+        const first = fetchTokenBalance(ctx, TOKEN, OWNER);
+        const second = fetchTokenBalance(ctx, TOKEN, OWNER);
+        resolve(5n);
+
+        expect(await first).toBe(5n);
+        expect(await second).toBe(5n);
+        expect(await fetchTokenBalance(ctx, TOKEN, OWNER)).toBe(5n);
+        expect(balanceOf).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not cache a balance that was loading when the token was invalidated', async () => {
+        const resolveStale = pendingBalance();
+        const stale = fetchTokenBalance(ctx, TOKEN, OWNER);
+        invalidateTokenState(ctx.networkId, TOKEN);
+
+        const resolveFresh = pendingBalance();
+        const fresh = fetchTokenBalance(ctx, TOKEN, OWNER);
+        resolveFresh(3n);
+        expect(await fresh).toBe(3n);
+        resolveStale(5n);
+        expect(await stale).toBe(5n);
+
+        balanceOf.mockResolvedValue({ properties: { balance: 1n } });
+        expect(await fetchTokenBalance(ctx, TOKEN, OWNER)).toBe(3n);
+    });
+
+    it('loads again after a network-wide invalidation', async () => {
+        const resolve = pendingBalance();
+        const stale = fetchTokenBalance(ctx, TOKEN, OWNER);
+        invalidateNetworkState(ctx.networkId);
+        resolve(5n);
+        await stale;
+
+        balanceOf.mockResolvedValue({ properties: { balance: 2n } });
+        expect(await fetchTokenBalance(ctx, TOKEN, OWNER)).toBe(2n);
+    });
+});
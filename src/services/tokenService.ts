@@ -0,0 +1,214 @@
+import { getContract, IOP20Contract, JSONRpcProvider, OP_20_ABI } from 'opnet';
+import { Address } from '@btc-vision/transaction';
+import { Network } from '@btc-vision/bitcoin';
+
+/**
+ * Immutable OP20 metadata, cached for the lifetime of the page.
+ */
+export interface TokenMetadata {
+    name: string;
+    symbol: string;
+    decimals: number;
+}
+
+/**
+ * OP20 metadata together with the current total supply.
+ */
+export interface TokenInfo extends TokenMetadata {
+    address: string;
+    totalSupply: bigint;
+}
+
+/**
+ * RPC handle a lookup runs against. `networkId` scopes the cache.
+ */
+export interface TokenServiceContext {
+    provider: JSONRpcProvider;
+    network: Network;
+    networkId: string;
+}
+
+interface Expiring<T> {
+    value: T;
+    expiresAt: number;
+}
+
+/** How long mutable values (total supply, balances) are served from cache. */
+const MUTABLE_TTL_MS = 30_000;
+
+const metadataCache = new Map<string, TokenMetadata>();
+const mutableCache = new Map<string, Expiring<bigint>>();
+const inFlight = new Map<string, Promise<unknown>>();
+
+/** Bumped on every invalidation so loads started before it do not repopulate the cache. */
+let generation = 0;
+
+/**
+ * Shares one pending request between concurrent callers asking for the same key.
+ *
+ * @param key - Request identity
+ * @param load - Loader invoked when no request for `key` is pending
+ * @returns The pending or newly started request
+ */
+function dedupe<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const pending = inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const request = load().finally(() => {
+        if (inFlight.get(key) === request) inFlight.delete(key);
+    });
+    inFlight.set(key, request);
+    return request;
+}
+
+/**
+ * Reads a mutable value from cache or loads it with a TTL. A value loaded across
+ * an invalidation is returned but not cached.
+ *
+ * @param key - Cache key
+ * @param load - Loader for a fresh value
+ * @returns The cached or freshly loaded value
+ */
+async function cachedWithTtl(key: string, load: () => Promise<bigint>): Promise<bigint> {
+    const cached = mutableCache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.value;
+    }
+
+    return dedupe(key, async () => {
+        const started = generation;
+        const value = await load();
+        if (generation === started) {
+            mutableCache.set(key, { value, expiresAt: Date.now() + MUTABLE_TTL_MS });
+        }
+        return value;
+    });
+}
+
+function tokenKey(ctx: TokenServiceContext, address: string): string {
+    return `${ctx.networkId}:${address}`;
+}
+
+function contractFor(ctx: TokenServiceContext, address: string): IOP20Contract {
+    return getContract<IOP20Contract>(address, OP_20_ABI, ctx.provider, ctx.network);
+}
+
+/**
+ * Fetches name, symbol and decimals of an OP20 token. Results are cached per network.
+ *
+ * @param ctx - RPC context
+ * @param address - Token contract address
+ * @returns Token metadata
+ */
+export async function fetchTokenMetadata(
+    ctx: TokenServiceContext,
+    address: string,
+): Promise<TokenMetadata> {
+    const key = tokenKey(ctx, address);
+    const cached = metadataCache.get(key);
+    if (cached) return cached;
+
+    return dedupe(`meta:${key}`, async () => {
+        const contract = contractFor(ctx, address);
+        const [nameRes, symbolRes, decimalsRes] = await Promise.all([
+            contract.name(),
+            contract.symbol(),
+            contract.decimals(),
+        ]);
+
+        const metadata: TokenMetadata = {
+            name: nameRes.properties.name,
+            symbol: symbolRes.properties.symbol,
+            decimals: decimalsRes.properties.decimals,
+        };
+        metadataCache.set(key, metadata);
+        return metadata;
+    });
+}
+
+/**
+ * Fetches the total supply of an OP20 token, cached for a short TTL.
+ *
+ * @param ctx - RPC context
+ * @param address - Token contract address
+ * @returns Total supply in raw units
+ */
+export function fetchTotalSupply(ctx: TokenServiceContext, address: string): Promise<bigint> {
+    return cachedWithTtl(`supply:${tokenKey(ctx, address)}`, async () => {
+        const result = await contractFor(ctx, address).totalSupply();
+        return result.properties.totalSupply;
+    });
+}
+
+/**
+ * Fetches an owner's balance of an OP20 token, cached for a short TTL.
+ *
+ * @param ctx - RPC context
+ * @param address - Token contract address
+ * @param owner - Holder address
+ * @returns Balance in raw units
+ */
+export function fetchTokenBalance(
+    ctx: TokenServiceContext,
+    address: string,
+    owner: Address,
+): Promise<bigint> {
+    return cachedWithTtl(`balance:${tokenKey(ctx, address)}:${owner.toHex()}`, async () => {
+        const result = await contractFor(ctx, address).balanceOf(owner);
+        return result.properties.balance;
+    });
+}
+
+/**
+ * Fetches metadata and total supply of an OP20 token.
+ *
+ * @param ctx - RPC context
+ * @param address - Token contract address
+ * @returns Token info
+ */
+export async function fetchTokenInfo(
+    ctx: TokenServiceContext,
+    address: string,
+): Promise<TokenInfo> {
+    const [metadata, totalSupply] = await Promise.all([
+        fetchTokenMetadata(ctx, address),
+        fetchTotalSupply(ctx, address),
+    ]);
+    return { address, ...metadata, totalSupply };
+}
+
+/**
+ * Drops cached total supply and balances of a token, e.g. after a transfer.
+ * Loads still pending are detached, so the next read goes to the node.
+ *
+ * @param networkId - Network the token lives on
+ * @param address - Token contract address
+ */
+export function invalidateTokenState(networkId: string, address: string): void {
+    const key = `${networkId}:${address}`;
+    generation++;
+    for (const cache of [mutableCache, inFlight]) {
+        for (const cacheKey of cache.keys()) {
+            if (cacheKey === `supply:${key}` || cacheKey.startsWith(`balance:${key}:`)) {
+                cache.delete(cacheKey);
+            }
+        }
+    }
+}
+
+/**
+ * Drops every cached total supply and balance on a network, e.g. after a reorg.
+ * Loads still pending are detached, so the next read goes to the node.
+ *
+ * @param networkId - Network whose values are stale
+ */
+export function invalidateNetworkState(networkId: string): void {
+    generation++;
+    for (const cache of [mutableCache, inFlight]) {
+        for (const cacheKey of cache.keys()) {
+            if (cacheKey.split(':')[1] === networkId) {
+                cache.delete(cacheKey);
+            }
+        }
+    }
+}
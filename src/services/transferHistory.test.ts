@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NetEvent } from '@btc-vision/transaction';
+import { getTransferHistory, invalidateTransfersFrom, scanTransfers } from './transferHistory';
+import { DecodedOP20Event } from './op20Events';
+import { TokenServiceContext } from './tokenService';
+
+vi.mock('./op20Events', () => ({
+    // Event data is the amount as text; "bad" fails to decode like a non-standard event
+    createOP20EventDecoder:
+        () =>
+        (event: NetEvent): Partial<DecodedOP20Event> | null => {
+            if (event.type === 'Approved') return null;
+            const text = String(event.data);
+            if (text === 'bad') throw new Error('Unexpected end of data');
+            return { kind: 'Transferred', from: null, to: null, amount: BigInt(text) };
+        },
+}));
+
+const CONTRACT = 'opr1token';
+
+function event(type: string, data: string): NetEvent {
+    return { type, data } as unknown as NetEvent;
+}
+
+/** Chain where every block holds one transaction with the given events. */
+function chain(eventsAt: Record<number, NetEvent[]>) {
+    const requested: bigint[][] = [];
+    const provider = {
+        getBlocks: (heights: bigint[]) => {
+            requested.push(heights);
+            return Promise.resolve(
+                heights.map((height) => ({
+                    height,
+                    transactions: [
+                        {
+                            id: `tx${height}`,
+                            index: 0,
+                            events: { [CONTRACT]: eventsAt[Number(height)] ?? [] },
+                        },
+                    ],
+                })),
+            );
+        },
+    };
+    return { requested, provider };
+}
+
+let network = 0;
+
+function withProvider(provider: unknown): TokenServiceContext {
+    return { provider, networkId: `test${network}` } as unknown as TokenServiceContext;
+}
+
+beforeEach(() => {
+    network++;
+});
+
+describe('scanTransfers', () => {
+    it('skips events that fail to decode and keeps their real position', async () => {
+        const { provider } = chain({
+            5: [event('Approved', ''), event('Transferred', 'bad'), event('Transferred', '7')],
+        });
+        const ctx = withProvider(provider);
+
+        const history = await scanTransfers(ctx, CONTRACT, { from: 5n, to: 5n });
+
+        expect(history.transfers).toHaveLength(1);
+        expect(history.transfers[0]).toMatchObject({ txId: 'tx5', eventIndex: 2, amount: 7n });
+        expect(history.skipped).toEqual([
+            { txId: 'tx5', blockNumber: 5n, eventIndex: 1, error: 'Unexpected end of data' },
+        ]);
+    });
+
+    it('only requests heights that were not scanned yet and merges the ranges', async () => {
+        const { provider, requested } = chain({ 3: [event('Transferred', '1')] });
+        const ctx = withProvider(provider);
+
+        await scanTransfers(ctx, CONTRACT, { from: 10n, to: 12n });
+        await scanTransfers(ctx, CONTRACT, { from: 0n, to: 4n });
+        requested.length = 0;
+        const history = await scanTransfers(ctx, CONTRACT, { from: 2n, to: 14n });
+
+        expect(requested).toEqual([
+            [14n, 13n],
+            [9n, 8n, 7n, 6n, 5n],
+        ]);
+        expect(history.ranges).toEqual([{ from: 0n, to: 14n }]);
+        expect(history.transfers.map((t) => t.blockNumber)).toEqual([3n]);
+    });
+
+    it('scans wide gaps newest first in batches', async () => {
+        const { provider, requested } = chain({});
+        const ctx = withProvider(provider);
+
+        await scanTransfers(ctx, CONTRACT, { from: 0n, to: 24n });
+
+        expect(requested.map((heights) => [heights[0], heights[heights.length - 1]])).toEqual([
+            [24n, 15n],
+            [14n, 5n],
+            [4n, 0n],
+        ]);
+    });
+});
+
+describe('invalidateTransfersFrom', () => {
+    it('forgets ranges, transfers and skipped events at or above the height', async () => {
+        const { provider } = chain({
+            2: [event('Transferred', '1')],
+            6: [event('Transferred', '2'), event('Transferred', 'bad')],
+        });
+        const ctx = withProvider(provider);
+        await scanTransfers(ctx, CONTRACT, { from: 0n, to: 9n });
+
+        invalidateTransfersFrom(ctx.networkId, 5n);
+        const history = getTransferHistory(ctx.networkId, CONTRACT);
+
+        expect(history.ranges).toEqual([{ from: 0n, to: 4n }]);
+        expect(history.transfers.map((t) => t.blockNumber)).toEqual([2n]);
+        expect(history.skipped).toEqual([]);
+    });
+});
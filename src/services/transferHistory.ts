@@ -0,0 +1,277 @@
+import { Address } from '@btc-vision/transaction';
+import { createOP20EventDecoder, DecodedOP20Event, OP20EventKind } from './op20Events';
+import { TokenServiceContext } from './tokenService';
+
+/** Event kinds that move balances: transfers, plus mints and burns. */
+export type TransferKind = Extract<OP20EventKind, 'Transferred' | 'Minted' | 'Burned'>;
+
+/**
+ * A decoded OP20 balance movement located on chain.
+ * `from` is null for mints and `to` is null for burns. `eventIndex` is the
+ * event's position among the contract's events in the transaction.
+ */
+export interface TransferRecord {
+    kind: TransferKind;
+    txId: string;
+    blockNumber: bigint;
+    txIndex: number;
+    eventIndex: number;
+    from: Address | null;
+    to: Address | null;
+    amount: bigint;
+}
+
+/**
+ * Inclusive block height range.
+ */
+export interface BlockRange {
+    from: bigint;
+    to: bigint;
+}
+
+/**
+ * An OP20 event in a scanned block that could not be decoded.
+ */
+export interface SkippedEvent {
+    txId: string;
+    blockNumber: bigint;
+    eventIndex: number;
+    error: string;
+}
+
+/**
+ * Scanned ranges and the transfers found in them, newest first, with the
+ * events that were skipped because they did not decode.
+ */
+export interface TransferHistory {
+    ranges: BlockRange[];
+    transfers: TransferRecord[];
+    skipped: SkippedEvent[];
+}
+
+/** Heights requested per `getBlocks` call. */
+const BLOCKS_PER_REQUEST = 10;
+
+const TRANSFER_KINDS = new Set<OP20EventKind>(['Transferred', 'Minted', 'Burned']);
+
+/** Scan results for the lifetime of the page, keyed by network and contract. */
+const histories = new Map<string, TransferHistory>();
+const eventKeys = new Map<string, string>();
+
+/**
+ * Cache key for a contract's history on a network.
+ */
+function historyKey(networkId: string, contract: string): string {
+    return `${networkId}:${contract}`;
+}
+
+/**
+ * Orders transfers newest first: by block, then transaction, then event position.
+ */
+function compareNewestFirst(a: TransferRecord, b: TransferRecord): number {
+    if (a.blockNumber !== b.blockNumber) return a.blockNumber > b.blockNumber ? -1 : 1;
+    if (a.txIndex !== b.txIndex) return b.txIndex - a.txIndex;
+    return b.eventIndex - a.eventIndex;
+}
+
+/**
+ * Adds a range to a sorted list of disjoint ranges, merging overlapping
+ * and adjacent entries.
+ *
+ * @param ranges - Existing ranges sorted by height
+ * @param range - Range to add
+ * @returns New sorted list of disjoint ranges
+ */
+function mergeRange(ranges: BlockRange[], range: BlockRange): BlockRange[] {
+    const merged: BlockRange[] = [];
+    let current = { ...range };
+
+    for (const existing of ranges) {
+        if (existing.to + 1n < current.from) {
+            merged.push(existing);
+        } else if (current.to + 1n < existing.from) {
+            merged.push(current);
+            current = { ...existing };
+        } else {
+            current = {
+                from: existing.from < current.from ? existing.from : current.from,
+                to: existing.to > current.to ? existing.to : current.to,
+            };
+        }
+    }
+    merged.push(current);
+    return merged.sort((a, b) => (a.from < b.from ? -1 : 1));
+}
+
+/**
+ * Returns the parts of a range that are not covered by any scanned range.
+ *
+ * @param ranges - Scanned ranges sorted by height
+ * @param range - Requested range
+ * @returns Uncovered sub-ranges, highest first
+ */
+function missingRanges(ranges: BlockRange[], range: BlockRange): BlockRange[] {
+    const gaps: BlockRange[] = [];
+    let cursor = range.from;
+
+    for (const scanned of ranges) {
+        if (scanned.to < cursor) continue;
+        if (scanned.from > range.to) break;
+        if (scanned.from > cursor) {
+            gaps.push({ from: cursor, to: scanned.from - 1n });
+        }
+        cursor = scanned.to + 1n;
+        if (cursor > range.to) break;
+    }
+    if (cursor <= range.to) {
+        gaps.push({ from: cursor, to: range.to });
+    }
+    return gaps.reverse();
+}
+
+/**
+ * Resolves the key a contract's events are stored under in a receipt.
+ * Receipts key events by the contract's P2OP address, so hex addresses are resolved first.
+ *
+ * @param ctx - RPC context
+ * @param contract - Contract address as entered by the user
+ * @returns P2OP address used as the receipt event key
+ */
+async function resolveEventKey(ctx: TokenServiceContext, contract: string): Promise<string> {
+    if (!/^0x/i.test(contract)) return contract;
+
+    const key = historyKey(ctx.networkId, contract);
+    const cached = eventKeys.get(key);
+    if (cached) return cached;
+
+    const address: Address | undefined = await ctx.provider.getPublicKeyInfo(contract, true);
+    if (!address) {
+        throw new Error('Contract address could not be resolved');
+    }
+    const p2op = address.p2op(ctx.network);
+    eventKeys.set(key, p2op);
+    return p2op;
+}
+
+/**
+ * Returns what has been scanned so far for a token on a network.
+ *
+ * @param networkId - Network the history belongs to
+ * @param contract - OP20 contract address
+ * @returns Scanned ranges and transfers found; empty if nothing was scanned yet
+ */
+export function getTransferHistory(networkId: string, contract: string): TransferHistory {
+    return (
+        histories.get(historyKey(networkId, contract)) ?? { ranges: [], transfers: [], skipped: [] }
+    );
+}
+
+/**
+ * Scans a block range for Transfer, Mint and Burn events emitted by an OP20 contract.
+ * Heights already scanned are skipped. Blocks are walked from the top of the range
+ * down and the history is updated after every request, so an aborted or failed scan
+ * keeps its progress and can be resumed. An event that fails to decode is
+ * skipped and recorded rather than failing the scan.
+ *
+ * @param ctx - RPC context
+ * @param contract - OP20 contract address
+ * @param range - Inclusive block range to cover
+ * @param onProgress - Called with the updated history after each request
+ * @param signal - Stops the scan between requests when aborted
+ * @returns History for the contract after the scan
+ */
+export async function scanTransfers(
+    ctx: TokenServiceContext,
+    contract: string,
+    range: BlockRange,
+    onProgress?: (history: TransferHistory) => void,
+    signal?: AbortSignal,
+): Promise<TransferHistory> {
+    const key = historyKey(ctx.networkId, contract);
+    const eventKey = await resolveEventKey(ctx, contract);
+    const decode = createOP20EventDecoder(ctx, contract);
+
+    for (const gap of missingRanges(getTransferHistory(ctx.networkId, contract).ranges, range)) {
+        let high = gap.to;
+        while (high >= gap.from) {
+            if (signal?.aborted) return getTransferHistory(ctx.networkId, contract);
+
+            const low =
+                high - BigInt(BLOCKS_PER_REQUEST - 1) > gap.from
+                    ? high - BigInt(BLOCKS_PER_REQUEST - 1)
+                    : gap.from;
+            const heights: bigint[] = [];
+            for (let height = high; height >= low; height--) {
+                heights.push(height);
+            }
+
+            const blocks = await ctx.provider.getBlocks(heights, true);
+            const found: TransferRecord[] = [];
+            const skipped: SkippedEvent[] = [];
+
+            for (const block of blocks) {
+                const blockNumber = BigInt(block.height);
+                for (const tx of block.transactions) {
+                    const events = tx.events[eventKey] ?? [];
+
+                    events.forEach((raw, eventIndex) => {
+                        let event: DecodedOP20Event | null;
+                        try {
+                            event = decode(raw);
+                        } catch (err) {
+                            const error = err instanceof Error ? err.message : String(err);
+                            skipped.push({ txId: tx.id, blockNumber, eventIndex, error });
+                            return;
+                        }
+                        if (!event || !TRANSFER_KINDS.has(event.kind)) return;
+
+                        found.push({
+                            kind: event.kind as TransferKind,
+                            txId: tx.id,
+                            blockNumber,
+                            txIndex: tx.index,
+                            eventIndex,
+                            from: event.from,
+                            to: event.to,
+                            amount: event.amount,
+                        });
+                    });
+                }
+            }
+
+            const previous = getTransferHistory(ctx.networkId, contract);
+            const next: TransferHistory = {
+                ranges: mergeRange(previous.ranges, { from: low, to: high }),
+                transfers: [...previous.transfers, ...found].sort(compareNewestFirst),
+                skipped: [...previous.skipped, ...skipped],
+            };
+            histories.set(key, next);
+            onProgress?.(next);
+
+            high = low - 1n;
+        }
+    }
+
+    return getTransferHistory(ctx.networkId, contract);
+}
+
+/**
+ * Forgets everything scanned at or above a height on a network, so blocks
+ * replaced by a reorg are scanned again.
+ *
+ * @param networkId - Network the reorg happened on
+ * @param height - Lowest replaced height
+ */
+export function invalidateTransfersFrom(networkId: string, height: bigint): void {
+    for (const [key, history] of histories) {
+        if (!key.startsWith(`${networkId}:`)) continue;
+
+        histories.set(key, {
+            ranges: history.ranges
+                .filter((range) => range.from < height)
+                .map((range) => (range.to < height ? range : { ...range, to: height - 1n })),
+            transfers: history.transfers.filter((transfer) => transfer.blockNumber < height),
+            skipped: history.skipped.filter((event) => event.blockNumber < height),
+        });
+    }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { networks } from '@btc-vision/bitcoin';
+import { isAccountAddress, isContractAddress, validateAddress } from './address';
+
+const REGTEST_P2OP = 'opr1sqz6kdglwen5qnztrvxvgsg7d9aprl6qquud5pnjt';
+const MAINNET_P2OP = 'op1sqz6kdglwen5qnztrvxvgsg7d9aprl6qquu7fvzuj';
+const REGTEST_P2WPKH = 'bcrt1qw508d6qejxtdg4y5r3zarvary0c5xw7kygt080';
+const MAINNET_P2WPKH = 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4';
+const MAINNET_P2TR = 'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0';
+const PUBLIC_KEY = '0x0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798';
+const HEX_CONTRACT = `0x${'ab'.repeat(32)}`;
+
+describe('validateAddress', () => {
+    it('accepts addresses of the active network', () => {
+        expect(validateAddress(REGTEST_P2OP, networks.regtest, 'contract')).toBeNull();
+        expect(validateAddress(` ${REGTEST_P2WPKH} `, networks.regtest, 'account')).toBeNull();
+        expect(validateAddress(MAINNET_P2TR, networks.bitcoin, 'contract')).toBeNull();
+        expect(validateAddress(HEX_CONTRACT, networks.bitcoin, 'contract')).toBeNull();
+        expect(validateAddress(PUBLIC_KEY, networks.bitcoin, 'account')).toBeNull();
+    });
+
+    it('names the network an address belongs to', () => {
+        const issue = validateAddress(MAINNET_P2WPKH, networks.regtest, 'account');
+
+        expect(issue?.error).toMatch(/^This is a mainnet address/);
+        expect(issue?.network).toBe(networks.bitcoin);
+        expect(validateAddress(MAINNET_P2OP, networks.regtest, 'contract')?.network).toBe(
+            networks.bitcoin,
+        );
+    });
+
+    it('reports a typo as a checksum error', () => {
+        const typo = REGTEST_P2WPKH.replace(/0$/, 'q');
+
+        expect(validateAddress(typo, networks.regtest, 'account')?.error).toBe(
+            'Invalid checksum: the address contains a typo',
+        );
+    });
+
+    it('rejects account-only address types as contracts', () => {
+        expect(validateAddress(MAINNET_P2WPKH, networks.bitcoin, 'contract')?.error).toMatch(
+            /cannot be contracts/,
+        );
+        expect(validateAddress(PUBLIC_KEY, networks.bitcoin, 'contract')?.error).toBe(
+            'Hex contract address must be 32 bytes (64 hex characters), got 66',
+        );
+    });
+
+    it('rejects empty, non-hex and unknown input', () => {
+        expect(validateAddress('  ', networks.bitcoin, 'account')?.error).toBe('Enter an address');
+        expect(validateAddress('0xzz', networks.bitcoin, 'account')?.error).toBe(
+            'Hex address contains non-hex characters',
+        );
+        expect(validateAddress('hello', networks.bitcoin, 'account')?.network).toBeNull();
+    });
+});
+
+describe('isContractAddress / isAccountAddress', () => {
+    it('wrap validateAddress for each kind', () => {
+        expect(isContractAddress(REGTEST_P2OP, networks.regtest)).toBe(true);
+        expect(isContractAddress(REGTEST_P2WPKH, networks.regtest)).toBe(false);
+        expect(isAccountAddress(REGTEST_P2WPKH, networks.regtest)).toBe(true);
+        expect(isAccountAddress(REGTEST_P2WPKH, networks.bitcoin)).toBe(false);
+    });
+});
@@ -0,0 +1,181 @@
+import { fromBech32, Network, networks } from '@btc-vision/bitcoin';
+import { AddressTypes, AddressVerificator } from '@btc-vision/transaction';
+
+/** Contract addresses in hex form: 0x followed by a 32-byte key. */
+const HEX_CONTRACT_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+/** Bech32 data characters; everything after the last `1` separator must be one of these. */
+const BECH32_PATTERN = /^[a-z]{1,10}1[02-9ac-hj-np-z]{6,}$/;
+
+/** Bitcoin networks an address can belong to, for wrong-network detection. */
+const KNOWN_NETWORKS: { name: string; network: Network }[] = [
+    { name: 'mainnet', network: networks.bitcoin },
+    { name: 'testnet', network: networks.testnet },
+    { name: 'regtest', network: networks.regtest },
+];
+
+/**
+ * What an address is expected to identify: a contract, or any account that
+ * can hold tokens.
+ */
+export type AddressKind = 'contract' | 'account';
+
+/**
+ * Why an address was rejected. `network` is set when the address is
+ * well-formed for a different Bitcoin network.
+ */
+export interface AddressIssue {
+    error: string;
+    network: Network | null;
+}
+
+/**
+ * Describes the Bitcoin network an address prefix belongs to.
+ */
+function networkOfPrefix(prefix: string): { name: string; network: Network } | undefined {
+    return KNOWN_NETWORKS.find(
+        (n) => n.network.bech32 === prefix || n.network.bech32Opnet === prefix,
+    );
+}
+
+/**
+ * Checks a bech32 or bech32m address: checksum, network prefix and, for
+ * contracts, that it is a P2OP or taproot output.
+ */
+function checkBech32(value: string, network: Network, kind: AddressKind): AddressIssue | null {
+    let decoded: ReturnType<typeof fromBech32>;
+    try {
+        decoded = fromBech32(value);
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        if (/checksum/i.test(message)) {
+            return { error: 'Invalid checksum: the address contains a typo', network: null };
+        }
+        if (/wrong encoding/i.test(message)) {
+            return {
+                error: 'Invalid checksum: bech32 and bech32m encodings are mixed up',
+                network: null,
+            };
+        }
+        return { error: `Malformed address: ${message}`, network: null };
+    }
+
+    if (decoded.prefix !== network.bech32 && decoded.prefix !== network.bech32Opnet) {
+        const owner = networkOfPrefix(decoded.prefix);
+        return owner
+            ? {
+                  error: `This is a ${owner.name} address, but the active network uses "${network.bech32}" addresses`,
+                  network: owner.network,
+              }
+            : { error: `Unknown address prefix "${decoded.prefix}"`, network: null };
+    }
+
+    const type = AddressVerificator.detectAddressType(value, network);
+    if (type === null) {
+        return { error: 'Address does not encode a valid output', network: null };
+    }
+    if (kind === 'contract' && type !== AddressTypes.P2OP && type !== AddressTypes.P2TR) {
+        return {
+            error: `${type} addresses cannot be contracts; expected a P2OP or taproot address`,
+            network: null,
+        };
+    }
+    return null;
+}
+
+/**
+ * Checks a 0x-prefixed hex contract address or public key.
+ */
+function checkHex(value: string, network: Network, kind: AddressKind): AddressIssue | null {
+    if (!/^0x[0-9a-fA-F]*$/.test(value)) {
+        return { error: 'Hex address contains non-hex characters', network: null };
+    }
+    if (kind === 'contract') {
+        return HEX_CONTRACT_PATTERN.test(value)
+            ? null
+            : {
+                  error: `Hex contract address must be 32 bytes (64 hex characters), got ${value.length - 2}`,
+                  network: null,
+              };
+    }
+    return HEX_CONTRACT_PATTERN.test(value) || AddressVerificator.isValidPublicKey(value, network)
+        ? null
+        : { error: 'Hex value is not a valid public key or 32-byte address', network: null };
+}
+
+/**
+ * Checks a legacy base58 address, which can hold tokens but never be a contract.
+ */
+function checkBase58(value: string, network: Network, kind: AddressKind): AddressIssue | null {
+    const type = AddressVerificator.detectAddressType(value, network);
+    if (type !== null) {
+        return kind === 'contract'
+            ? { error: `${type} addresses cannot be contracts`, network: null }
+            : null;
+    }
+
+    const owner = KNOWN_NETWORKS.find(
+        (n) =>
+            n.network !== network &&
+            AddressVerificator.detectAddressType(value, n.network) !== null,
+    );
+    return owner
+        ? { error: `This is a ${owner.name} address`, network: owner.network }
+        : { error: 'Not a valid address: unknown format or bad checksum', network: null };
+}
+
+/**
+ * Validates an address against a network before it is used in an RPC call.
+ * Covers bech32/bech32m (segwit, taproot and P2OP), 0x hex keys and legacy
+ * base58, and reports addresses that are valid on another network.
+ *
+ * @param value - Address as typed by the user
+ * @param network - Active Bitcoin network
+ * @param kind - Whether the address must be a contract
+ * @returns The problem with the address, or null if it is usable
+ */
+export function validateAddress(
+    value: string,
+    network: Network,
+    kind: AddressKind,
+): AddressIssue | null {
+    const trimmed = value.trim();
+    if (!trimmed) {
+        return { error: 'Enter an address', network: null };
+    }
+    if (/^0x/i.test(trimmed)) {
+        return checkHex(trimmed, network, kind);
+    }
+
+    const lower = trimmed.toLowerCase();
+    const separator = lower.lastIndexOf('1');
+    const prefix = separator > 0 ? lower.slice(0, separator) : '';
+    if (networkOfPrefix(prefix) || BECH32_PATTERN.test(lower)) {
+        return checkBech32(trimmed, network, kind);
+    }
+    return checkBase58(trimmed, network, kind);
+}
+
+/**
+ * Checks whether a string is a contract address on a network: a P2OP or
+ * taproot address, or a 0x-prefixed 32-byte hex key.
+ *
+ * @param value - Address to check
+ * @param network - Network the address should belong to
+ * @returns True if the address is well-formed for the network
+ */
+export function isContractAddress(value: string, network: Network): boolean {
+    return validateAddress(value, network, 'contract') === null;
+}
+
+/**
+ * Checks whether a string identifies an account on a network: any Bitcoin
+ * address type or a public key.
+ *
+ * @param value - Address or public key to check
+ * @param network - Network the address should belong to
+ * @returns True if the value is well-formed for the network
+ */
+export function isAccountAddress(value: string, network: Network): boolean {
+    return validateAddress(value, network, 'account') === null;
+}
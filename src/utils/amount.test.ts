@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { formatBtc, formatTokenAmount, parseTokenAmount } from './amount';
+
+const en = { locale: 'en-US' };
+
+describe('parseTokenAmount', () => {
+    it('scales decimals into raw units', () => {
+        expect(parseTokenAmount('1.5', 8)).toBe(150_000_000n);
+        expect(parseTokenAmount(' 42 ', 18)).toBe(42n * 10n ** 18n);
+        expect(parseTokenAmount('0.000000000000000001', 18)).toBe(1n);
+        expect(parseTokenAmount('007', 0)).toBe(7n);
+    });
+
+    it('rejects anything but plain digits with an optional fraction', () => {
+        for (const value of ['', '-1', '+1', '1e3', '1,000', '1.', '.5', '1.2.3', 'abc', '0x10']) {
+            expect(() => parseTokenAmount(value, 8), value).toThrow('Enter a valid amount');
+        }
+    });
+
+    it('rejects more decimal places than the token has', () => {
+        expect(() => parseTokenAmount('0.001', 2)).toThrow('more than 2 decimal places');
+        expect(() => parseTokenAmount('1.0', 0)).toThrow('more than 0 decimal places');
+        expect(parseTokenAmount('0.01', 2)).toBe(1n);
+    });
+});
+
+describe('formatTokenAmount', () => {
+    it('formats whole and fractional parts without losing precision', () => {
+        const huge = 123_456_789_012_345_678_901_234_567n;
+        expect(formatTokenAmount(huge, 18, { ...en, maxFractionDigits: 18 })).toBe(
+            '123,456,789.012345678901234567',
+        );
+        expect(formatTokenAmount(1_500_000n, 6, en)).toBe('1.5');
+        expect(formatTokenAmount(-1_500_000n, 6, en)).toBe('-1.5');
+        expect(formatTokenAmount(0n, 18, en)).toBe('0');
+    });
+
+    it('applies each rounding mode', () => {
+        const at = (amount: bigint, rounding: Parameters<typeof formatTokenAmount>[2]) =>
+            formatTokenAmount(amount, 3, { ...en, maxFractionDigits: 0, ...rounding });
+
+        expect(at(2_500n, { rounding: 'half-up' })).toBe('3');
+        expect(at(2_500n, { rounding: 'half-even' })).toBe('2');
+        expect(at(3_500n, { rounding: 'half-even' })).toBe('4');
+        expect(at(2_001n, { rounding: 'ceil' })).toBe('3');
+        expect(at(2_999n, { rounding: 'floor' })).toBe('2');
+        expect(at(-2_001n, { rounding: 'floor' })).toBe('-3');
+        expect(at(-2_999n, { rounding: 'ceil' })).toBe('-2');
+        expect(at(-2_999n, { rounding: 'trunc' })).toBe('-2');
+    });
+
+    it('keeps minimum fraction digits and drops the sign of a rounded zero', () => {
+        expect(formatTokenAmount(10n, 2, { ...en, minFractionDigits: 2 })).toBe('0.10');
+        expect(formatTokenAmount(-1n, 8, { ...en, maxFractionDigits: 2 })).toBe('0');
+    });
+
+    it('follows the locale and the grouping option', () => {
+        expect(formatTokenAmount(1_234_567_500n, 3, { locale: 'de-DE' })).toBe('1.234.567,5');
+        expect(formatTokenAmount(1_234_567_500n, 3, { ...en, grouping: false })).toBe('1234567.5');
+    });
+
+    it('abbreviates in compact notation with two digits by default', () => {
+        expect(formatTokenAmount(123_456n, 0, { ...en, compact: true })).toBe('123.46K');
+        expect(formatTokenAmount(12_345n * 10n ** 8n, 8, { ...en, compact: true })).toBe('12.35K');
+        expect(formatTokenAmount(7n * 10n ** 12n, 0, { ...en, compact: true })).toBe('7T');
+        expect(formatTokenAmount(999n, 0, { ...en, compact: true })).toBe('999');
+        expect(formatTokenAmount(1_234n, 2, { ...en, compact: true })).toBe('12.34');
+    });
+
+    it('moves to the next compact tier when rounding carries', () => {
+        expect(formatTokenAmount(99_999_999_999_999n, 8, { ...en, compact: true })).toBe('1M');
+        expect(formatTokenAmount(999_995n, 0, { ...en, compact: true })).toBe('1M');
+        expect(formatTokenAmount(999_994n, 0, { ...en, compact: true })).toBe('999.99K');
+        expect(formatTokenAmount(-999_999n, 0, { ...en, compact: true })).toBe('-1M');
+        expect(formatTokenAmount(999_999n, 0, { ...en, compact: true, rounding: 'floor' })).toBe(
+            '999.99K',
+        );
+    });
+
+    it('stays at trillions past the last tier', () => {
+        expect(formatTokenAmount(5n * 10n ** 15n, 0, { ...en, compact: true })).toBe('5,000T');
+    });
+});
+
+describe('formatBtc', () => {
+    it('shows satoshis at full precision', () => {
+        expect(formatBtc(12_000n, { ...en, maxFractionDigits: 8 })).toBe('0.00012 BTC');
+        expect(formatBtc(2_100_000_000_000_000n, { ...en, maxFractionDigits: 8 })).toBe(
+            '21,000,000 BTC',
+        );
+    });
+});
@@ -0,0 +1,178 @@
+/**
+ * Rounding applied when an amount has more fractional digits than displayed.
+ * `floor` and `ceil` round toward negative/positive infinity, `trunc` toward zero,
+ * `half-up` and `half-even` to the nearest value with the named tie-breaking rule.
+ */
+export type RoundingMode = 'floor' | 'ceil' | 'trunc' | 'half-up' | 'half-even';
+
+export interface FormatAmountOptions {
+    /** Maximum fractional digits shown. Defaults to 6 (2 in compact notation). */
+    maxFractionDigits?: number;
+    /** Minimum fractional digits shown; trailing zeros are kept up to this length. */
+    minFractionDigits?: number;
+    /** Rounding mode for dropped digits. Defaults to `half-up`. */
+    rounding?: RoundingMode;
+    /** Abbreviate large values as 1.2K, 3.4M, 5.6B, 7.8T. */
+    compact?: boolean;
+    /** BCP 47 locale for separators. Defaults to the browser locale. */
+    locale?: string;
+    /** Group thousands in the whole part. Defaults to true; disable for machine-readable output. */
+    grouping?: boolean;
+}
+
+const COMPACT_SUFFIXES = ['', 'K', 'M', 'B', 'T'] as const;
+
+/**
+ * Divides two non-negative bigints, rounding the quotient with the given mode.
+ *
+ * @param numerator - Dividend (>= 0)
+ * @param divisor - Divisor (> 0)
+ * @param mode - Rounding mode
+ * @param negative - Whether the original value is negative, for directional modes
+ * @returns Rounded quotient magnitude
+ */
+function roundDiv(
+    numerator: bigint,
+    divisor: bigint,
+    mode: RoundingMode,
+    negative: boolean,
+): bigint {
+    const quotient = numerator / divisor;
+    const remainder = numerator % divisor;
+    if (remainder === 0n) return quotient;
+
+    switch (mode) {
+        case 'trunc':
+            return quotient;
+        case 'floor':
+            return negative ? quotient + 1n : quotient;
+        case 'ceil':
+            return negative ? quotient : quotient + 1n;
+        case 'half-up':
+            return remainder * 2n >= divisor ? quotient + 1n : quotient;
+        case 'half-even': {
+            const twice = remainder * 2n;
+            if (twice > divisor) return quotient + 1n;
+            if (twice < divisor) return quotient;
+            return quotient % 2n === 0n ? quotient : quotient + 1n;
+        }
+    }
+}
+
+/**
+ * Returns the decimal separator used by a locale.
+ *
+ * @param locale - BCP 47 locale, or undefined for the browser default
+ * @returns Decimal separator character
+ */
+function decimalSeparator(locale: string | undefined): string {
+    const part = new Intl.NumberFormat(locale).formatToParts(1.5).find((p) => p.type === 'decimal');
+    return part?.value ?? '.';
+}
+
+/**
+ * Formats a raw bigint token amount as a human-readable decimal string.
+ * Arithmetic stays in bigint so no precision is lost before rounding.
+ *
+ * @param amount - The raw token amount as bigint
+ * @param decimals - Number of decimal places of the token
+ * @param options - Precision, rounding, notation and locale options
+ * @returns Formatted string representation
+ */
+export function formatTokenAmount(
+    amount: bigint,
+    decimals: number,
+    options: FormatAmountOptions = {},
+): string {
+    const { compact = false, rounding = 'half-up', locale, grouping = true } = options;
+    const negative = amount < 0n;
+    const magnitude = negative ? -amount : amount;
+
+    if (compact) {
+        const fractionDigits = options.maxFractionDigits ?? 2;
+        const lastTier = COMPACT_SUFFIXES.length - 1;
+        const unit = 10n ** BigInt(decimals);
+        let tier = 0;
+        while (tier < lastTier && magnitude >= unit * 10n ** BigInt((tier + 1) * 3)) {
+            tier++;
+        }
+
+        // Rounding can carry into the next tier: 999.999K shows as 1M, not 1,000K
+        if (tier < lastTier) {
+            const shown = Math.min(fractionDigits, decimals + tier * 3);
+            const divisor = 10n ** BigInt(decimals + tier * 3 - shown);
+            if (roundDiv(magnitude, divisor, rounding, negative) >= 10n ** BigInt(shown + 3)) {
+                tier++;
+            }
+        }
+
+        const formatted = formatTokenAmount(amount, decimals + tier * 3, {
+            ...options,
+            compact: false,
+            maxFractionDigits: fractionDigits,
+        });
+        return `${formatted}${COMPACT_SUFFIXES[tier]}`;
+    }
+
+    const maxFraction = Math.min(options.maxFractionDigits ?? 6, decimals);
+    const minFraction = Math.min(options.minFractionDigits ?? 0, maxFraction);
+
+    const scaled = roundDiv(magnitude, 10n ** BigInt(decimals - maxFraction), rounding, negative);
+    const fractionUnit = 10n ** BigInt(maxFraction);
+    const whole = scaled / fractionUnit;
+
+    let fraction =
+        maxFraction > 0 ? (scaled % fractionUnit).toString().padStart(maxFraction, '0') : '';
+    while (fraction.length > minFraction && fraction.endsWith('0')) {
+        fraction = fraction.slice(0, -1);
+    }
+
+    const sign = negative && scaled > 0n ? '-' : '';
+    const wholeStr = whole.toLocaleString(locale, { useGrouping: grouping });
+    if (fraction.length === 0) {
+        return `${sign}${wholeStr}`;
+    }
+    return `${sign}${wholeStr}${decimalSeparator(locale)}${fraction}`;
+}
+
+/**
+ * Strictly parses a decimal string into raw token units.
+ * Accepts plain digits with an optional `.` fraction; rejects signs, exponents,
+ * separators and more fractional digits than the token supports.
+ *
+ * @param value - Decimal string entered by the user
+ * @param decimals - Token decimals
+ * @returns Raw amount as bigint
+ * @throws Error if the value is malformed or too precise
+ */
+export function parseTokenAmount(value: string, decimals: number): bigint {
+    const match = /^(\d+)(?:\.(\d+))?$/.exec(value.trim());
+    if (!match) {
+        throw new Error('Enter a valid amount');
+    }
+
+    const whole = match[1] ?? '0';
+    const fraction = match[2] ?? '';
+    if (fraction.length > decimals) {
+        throw new Error(`Amount has more than ${decimals} decimal places`);
+    }
+
+    return BigInt(whole + fraction.padEnd(decimals, '0'));
+}
+
+/** Bitcoin has 8 decimal places: one BTC is 100,000,000 satoshis. */
+export const BTC_DECIMALS = 8;
+
+/**
+ * Formats a satoshi amount as BTC, at full precision unless told otherwise.
+ *
+ * @param sats - Amount in satoshis
+ * @param options - Formatting options passed to `formatTokenAmount`
+ * @returns BTC amount with unit, e.g. "0.00012 BTC"
+ */
+export function formatBtc(
+    sats: bigint,
+    options: FormatAmountOptions = { maxFractionDigits: BTC_DECIMALS },
+): string {
+    return `${formatTokenAmount(sats, BTC_DECIMALS, options)} BTC`;
+}
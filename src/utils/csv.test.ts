@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+
+describe('toCsv', () => {
+    it('quotes fields with separators, quotes or line breaks', () => {
+        expect(toCsv([['a', 'b,c', 'say "hi"', 'two\nlines', null, 7]])).toBe(
+            'a,"b,c","say ""hi""","two\nlines",,7\r\n',
+        );
+    });
+
+    it('prefixes text that would start a formula', () => {
+        expect(toCsv([['=1+1', '+A1', '-A1', '@cmd', '\tx', 'a=b']])).toBe(
+            "'=1+1,'+A1,'-A1,'@cmd,'\tx,a=b\r\n",
+        );
+    });
+
+    it('keeps signed numbers as numbers', () => {
+        expect(toCsv([['-1.5', '+1', -2]])).toBe("-1.5,'+1,-2\r\n");
+    });
+});
+
+describe('parseCsv', () => {
+    it('reads quoted fields with escaped quotes and embedded line breaks', () => {
+        expect(parseCsv('a,"b,c"\r\n"say ""hi""","two\nlines"\n')).toEqual([
+            { line: 1, fields: ['a', 'b,c'] },
+            { line: 2, fields: ['say "hi"', 'two\nlines'] },
+        ]);
+    });
+
+    it('skips blank lines and keeps the line each row starts on', () => {
+        expect(parseCsv('\n a,1\n\n,\nb,2')).toEqual([
+            { line: 2, fields: [' a', '1'] },
+            { line: 5, fields: ['b', '2'] },
+        ]);
+    });
+
+    it('reads back what toCsv writes', () => {
+        const rows = [['x', 'y,z', '"q"', 'multi\r\nline']];
+        expect(parseCsv(toCsv(rows)).map((r) => r.fields)).toEqual(rows);
+    });
+});
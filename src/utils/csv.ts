@@ -0,0 +1,81 @@
+/** Leading characters a spreadsheet may read as the start of a formula. */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Quotes a CSV field when it contains a separator, quote or line break.
+ * Text that a spreadsheet would evaluate as a formula is prefixed with `'` so
+ * token names and other contract-supplied strings open as plain text.
+ */
+function csvField(value: string | number | null): string {
+    let text = value === null ? '' : String(value);
+    if (typeof value === 'string' && FORMULA_PREFIX.test(text) && !/^-?\d+(\.\d+)?$/.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Renders rows as CSV with CRLF line endings, as spreadsheets expect.
+ *
+ * @param rows - Rows of fields, header first
+ * @returns CSV text
+ */
+export function toCsv(rows: (string | number | null)[][]): string {
+    return rows.map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Parses CSV text into rows of fields. Handles quoted fields with escaped
+ * quotes and embedded line breaks, and both LF and CRLF line endings. Blank
+ * lines are skipped; each row carries its 1-based line number.
+ *
+ * @param text - CSV text
+ * @returns Parsed rows with the line each starts on
+ */
+export function parseCsv(text: string): { line: number; fields: string[] }[] {
+    const rows: { line: number; fields: string[] }[] = [];
+    let fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    let line = 1;
+    let rowLine = 1;
+
+    const endRow = () => {
+        fields.push(field);
+        if (fields.some((f) => f.trim() !== '')) {
+            rows.push({ line: rowLine, fields });
+        }
+        fields = [];
+        field = '';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                if (char === '\n') line++;
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            fields.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            endRow();
+            line++;
+            rowLine = line;
+        } else {
+            field += char;
+        }
+    }
+    endRow();
+
+    return rows;
+}
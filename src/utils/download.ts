@@ -0,0 +1,16 @@
+/**
+ * Offers text content to the user as a file download.
+ *
+ * @param filename - Suggested file name
+ * @param content - File content
+ * @param mimeType - Content type, e.g. `text/csv`
+ */
+export function downloadFile(filename: string, content: string, mimeType: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // Revoke after the click has been handled so the download can start
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,26 @@
+/**
+ * Formats a Unix timestamp to a relative "time ago" string.
+ *
+ * @param unixTimestamp - Unix timestamp in seconds
+ * @returns Human-readable relative time string
+ */
+export function timeAgo(unixTimestamp: number): string {
+    const seconds = Math.floor(Date.now() / 1000) - unixTimestamp;
+    if (seconds < 60) return `${seconds}s ago`;
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+    if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+    return `${Math.floor(seconds / 86400)}d ago`;
+}
+
+/**
+ * Shortens a hash or address for compact display.
+ *
+ * @param value - Full hash or address
+ * @param head - Characters kept at the start
+ * @param tail - Characters kept at the end
+ * @returns Shortened string, or the input if already short
+ */
+export function shortenHash(value: string, head = 10, tail = 8): string {
+    if (value.length <= head + tail + 3) return value;
+    return `${value.slice(0, head)}...${value.slice(-tail)}`;
+}
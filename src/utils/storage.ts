@@ -0,0 +1,41 @@
+export const STORAGE_PREFIX = 'opnet-dashboard';
+
+/**
+ * Builds a namespaced localStorage key.
+ *
+ * @param parts - Key segments, e.g. feature name, network and address
+ * @returns Key prefixed with the app namespace
+ */
+export function storageKey(...parts: string[]): string {
+    return [STORAGE_PREFIX, ...parts].join(':');
+}
+
+/**
+ * Reads a JSON value from localStorage.
+ *
+ * @param key - Storage key
+ * @param fallback - Value returned when the key is missing or unreadable
+ * @returns The stored value or the fallback
+ */
+export function loadStored<T>(key: string, fallback: T): T {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw === null ? fallback : (JSON.parse(raw) as T);
+    } catch {
+        return fallback;
+    }
+}
+
+/**
+ * Writes a JSON value to localStorage.
+ *
+ * @param key - Storage key
+ * @param value - JSON-serializable value
+ */
+export function saveStored<T>(key: string, value: T): void {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+    } catch {
+        // Storage may be full or disabled; persistence is best-effort
+    }
+}
@@ -0,0 +1,23 @@
+import { TransactionParameters } from 'opnet';
+import { Network } from '@btc-vision/bitcoin';
+
+/** Upper bound of satoshis the wallet may spend on fees for a single interaction. */
+export const MAX_SAT_TO_SPEND = 100_000n;
+
+/**
+ * Builds transaction parameters for signing through the connected browser wallet.
+ * Signers are left null so the wallet extension signs and broadcasts.
+ *
+ * @param refundTo - Wallet address that receives change
+ * @param network - Active bitcoin network
+ * @returns Parameters for `CallResult.sendTransaction`
+ */
+export function walletTransactionParams(refundTo: string, network: Network): TransactionParameters {
+    return {
+        signer: null,
+        mldsaSigner: null,
+        refundTo,
+        maximumAllowedSatToSpend: MAX_SAT_TO_SPEND,
+        network,
+    };
+}
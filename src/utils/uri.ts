@@ -0,0 +1,26 @@
+/** Public gateway used to load `ipfs://` content. */
+const IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+
+/**
+ * Rewrites `ipfs://` URIs to the public gateway; other URIs pass through.
+ *
+ * @param uri - URI from a token list or contract
+ * @returns A URI the browser can fetch
+ */
+export function resolveIpfsUri(uri: string): string {
+    return uri.startsWith('ipfs://')
+        ? IPFS_GATEWAY + uri.slice('ipfs://'.length).replace(/^ipfs\//, '')
+        : uri;
+}
+
+/**
+ * Resolves an image URI to something an `<img>` can load.
+ *
+ * @param uri - Image URI, e.g. a token logo
+ * @returns HTTP(S) or data URL, or null for missing or unsupported URIs
+ */
+export function resolveImageUri(uri: string | undefined): string | null {
+    if (!uri) return null;
+    const resolved = resolveIpfsUri(uri);
+    return /^(https?:|data:image\/)/.test(resolved) ? resolved : null;
+}